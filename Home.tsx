@@ -3,7 +3,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Modality, GenerateContentResponse } from '@google/genai';
+import { GenerateContentResponse, LiveServerMessage, Modality } from '@google/genai';
 import {
   Upload,
   MessageSquare,
@@ -18,104 +18,367 @@ import {
   X,
   ChevronDown,
   ChevronUp,
-  Globe,
   MapPin,
   Zap,
   Sparkles,
   Edit3,
   ExternalLink,
-  Send,
   Loader2,
+  History as HistoryIcon,
+  Rows3,
+  Columns2,
+  Gauge,
 } from 'lucide-react';
-import React, { useCallback, useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useEffectEvent, useReducer, useState, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
+import AssetLibrary, { LibraryAsset } from './components/AssetLibrary';
+import BudgetNotice from './components/BudgetNotice';
+import ChatPanel from './components/ChatPanel';
 import CodePreview from './components/CodePreview';
+import CompareView from './components/CompareView';
 import ErrorModal from './components/ErrorModal';
 import Header from './components/Header';
+import HistoryPanel, { HistoryView } from './components/HistoryPanel';
+import ImageStrip from './components/ImageStrip';
+import JobsPanel from './components/JobsPanel';
+import LibraryBar from './components/LibraryBar';
+import LiveTranscript from './components/LiveTranscript';
+import PromptManager from './components/PromptManager';
+import ProviderSwitcher from './components/ProviderSwitcher';
+import SettingsPanel from './components/SettingsPanel';
+import UsagePanel from './components/UsagePanel';
+import VideoFramePicker from './components/VideoFramePicker';
+import {
+  Asset,
+  AssetMetadata,
+  Session,
+  SketchOutput,
+  appendSessionOutputs,
+  assetFileName,
+  createId,
+  dataUrlToBlob,
+  latestSession,
+  listAssets,
+  saveAsset,
+  saveSession,
+  sessionTitle,
+  updateSession,
+} from './services/history';
+import {
+  AudioPlayer,
+  DEFAULT_VOICE,
+  INPUT_SAMPLE_RATE,
+  MicrophoneCapture,
+  TranscriptTurn,
+  VOICES,
+  appendTranscript,
+  createPlayer,
+  finishTurns,
+  startMicrophone,
+} from './services/liveAudio';
+import { CropAspect, SourceImage, grabFrame, imagePart, legacyImage, processImage, recropImage, toStoredImage } from './services/images';
+import { isCancelled, runJob, runSingleJob } from './services/jobs';
+import { LIVE_INSTRUCTION, LIVE_TOOLS, LiveToolHandlers, replySummary, runToolCalls } from './services/liveTools';
+import { AppError, ErrorContext, RecoveryAction, checkResponse, logError, normalizeError } from './services/errors';
+import { PresetUse, fillPlaceholders, loadPresets, missingPlaceholders, placeholderNames } from './services/presets';
+import { getProvider } from './services/providers';
+import { hasCapability } from './services/models';
+import {
+  generationConfig,
+  getCodeModel,
+  getFeatureModel,
+  getModelInfo,
+  getSettings,
+  subscribeSettings,
+  updateSettings,
+} from './services/settings';
+import {
+  UsageFeature,
+  checkBudget,
+  estimateRunCost,
+  recordUsage,
+  setUsageSession,
+  subscribeUsage,
+  usageFromResponse,
+} from './services/usage';
+import { RuntimeSelection, getSelection, outputSelection, runtimeHint, setSelection, subscribeLibraries } from './services/libraries';
+import { refineSketch } from './services/sketchOps';
+import { DEFAULT_TARGET, MULTI_FILE_HINT, SketchFile, TARGETS, TargetId, extractProject, getTarget } from './services/targets';
+import { VersionSource, checkoutVersion, commitVersion, createVersionedOutput } from './services/versions';
+import { PendingVideo, VIDEO_SECONDS, loadPendingVideos, pollVideo, removePendingVideo, savePendingVideo } from './services/videoJobs';
+
+type Tab = 'sketch' | 'chat' | 'media' | 'live' | 'history' | 'usage';
+
+// p5.js predates targets, so it keeps the original storage key.
+const savedPromptKey = (target: TargetId) => (target === 'p5' ? 'savedPrompt' : `savedPrompt:${target}`);
+const activePresetKey = (key: string) => `${key}:preset`;
+const MEDIA_PROMPT_KEY = 'savedPrompt:media';
 
-// Model Constants
-const MODEL_PRO = 'gemini-3-pro-preview';
-const MODEL_LITE = 'gemini-2.5-flash-lite-latest';
-const MODEL_IMAGE_PRO = 'gemini-3-pro-image-preview';
-const MODEL_IMAGE_EDIT = 'gemini-2.5-flash-image';
-const MODEL_VEO = 'veo-3.1-fast-generate-preview';
-const MODEL_LIVE = 'gemini-2.5-flash-native-audio-preview-09-2025';
-
-type Tab = 'sketch' | 'chat' | 'media' | 'live';
-type PerformanceMode = 'lite' | 'pro';
-
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  grounding?: any[];
+/** The recorded form of the active system prompt preset, if there is one. */
+const presetUse = (id: string | null, values: Record<string, string>): PresetUse | undefined => {
+  const preset = id ? loadPresets().find(p => p.id === id) : undefined;
+  return preset && { id: preset.id, name: preset.name, values };
+};
+
+/** Gives a freshly opened camera time to settle its exposure before grabbing a frame. */
+const CAMERA_WARMUP_MS = 500;
+
+/** Takes a photo without showing the camera, for voice requests made away from the Generator. */
+const grabCameraFrame = async () => {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' } });
+  try {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+    await new Promise(r => setTimeout(r, CAMERA_WARMUP_MS));
+    return await grabFrame(video);
+  } finally {
+    stream.getTracks().forEach(t => t.stop());
+  }
+};
+
+/** The first image in a response, as a blob of its real type. */
+const imageFromResponse = (res: GenerateContentResponse) => {
+  const part = res.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+  if (!part?.inlineData) {
+    // Models that decline usually say why in text.
+    throw new AppError('unknown', res.text ? `The model replied without an image: ${res.text}` : 'The model replied without an image.');
+  }
+  return dataUrlToBlob(`data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`);
+};
+
+interface GenerateOptions {
+  images?: SourceImage[];
+  directives?: string;
+  targetId?: TargetId;
 }
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<Tab>('sketch');
-  const [performanceMode, setPerformanceMode] = useState<PerformanceMode>('pro');
-  const [imageBase64, setImageBase64] = useState<string>('');
-  const [outputs, setOutputs] = useState<any[]>([]);
+  // Models, sampling and thinking live in the settings service, persisted across reloads;
+  // spending is tracked by the usage service. Either changing re-checks the budgets.
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  useEffect(() => subscribeSettings(refresh), []);
+  useEffect(() => subscribeLibraries(refresh), []);
+  useEffect(() => subscribeUsage(refresh), []);
+  const { performanceMode, thinking: thinkingMode, concurrentRequests } = getSettings();
+  const canThink = hasCapability(getModelInfo(getCodeModel()), 'thinking');
+  const [showSettings, setShowSettings] = useState(false);
+  // Reference images in the order they are sent; the first is the primary one.
+  const [images, setImages] = useState<SourceImage[]>([]);
+  const [pendingVideo, setPendingVideo] = useState<File | null>(null);
+  const imageBase64 = images[0]?.dataUrl || '';
+  const [outputs, setOutputs] = useState<SketchOutput[]>([]);
+  const [targetId, setTargetId] = useState<TargetId>(DEFAULT_TARGET);
   const [loading, setLoading] = useState(false);
-  const [concurrentRequests, setConcurrentRequests] = useState(3);
   const [prompt, setPrompt] = useState('');
-  const [errorInfo, setErrorInfo] = useState<any>(null);
-  const [userInput, setUserInput] = useState('');
-  const [thinkingMode, setThinkingMode] = useState(true);
+  const [errorInfo, setErrorInfo] = useState<{ error: AppError; retry?: () => void } | null>(null);
+  const [historyView, setHistoryView] = useState<HistoryView>('sessions');
+  const directivesRef = useRef<HTMLTextAreaElement>(null);
+  const mediaPromptRef = useRef<HTMLTextAreaElement>(null);
 
-  // Advanced Config
-  const [showAdvanced, setShowAdvanced] = useState(false);
-  const [temperature, setTemperature] = useState(1);
-  const [topK, setTopK] = useState(64);
-  const [topP, setTopP] = useState(0.95);
-
-  // Grounding
-  const [useSearch, setUseSearch] = useState(false);
-  const [useMaps, setUseMaps] = useState(false);
+  /** Classifies and logs an error, then shows it; `retry` repeats what failed. Cancellations are ignored. */
+  const reportError = (e: unknown, context?: ErrorContext, retry?: () => void) => {
+    if (isCancelled(e)) return;
+    const error = normalizeError(e, context);
+    logError(error);
+    setErrorInfo({ error, retry });
+  };
+  const [userInput, setUserInput] = useState('');
 
   // Camera
   const [isCameraOpen, setIsCameraOpen] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
-  // Chat
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-  const chatEndRef = useRef<HTMLDivElement>(null);
-
   // Media Lab
   const [mediaType, setMediaType] = useState<'image' | 'video' | 'edit'>('image');
   const [aspectRatio, setAspectRatio] = useState('1:1');
   const [imageSize, setImageSize] = useState('1K');
-  const [generatedMedia, setGeneratedMedia] = useState<any[]>([]);
+  const [generatedMedia, setGeneratedMedia] = useState<LibraryAsset[]>([]);
+
+  // History: the Generator session being edited, autosaved to IndexedDB.
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const savedOutputsRef = useRef<SketchOutput[] | null>(null);
+  const restoredPromptRef = useRef<string | null>(null);
 
   // Live API
   const [isLiveActive, setIsLiveActive] = useState(false);
+  const [isLiveConnecting, setIsLiveConnecting] = useState(false);
+  const [liveVoice, setLiveVoice] = useState(() => localStorage.getItem('liveVoice') || DEFAULT_VOICE);
+  const [transcript, setTranscript] = useState<TranscriptTurn[]>([]);
   const liveSessionRef = useRef<any>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const micRef = useRef<MicrophoneCapture | null>(null);
+  const playerRef = useRef<AudioPlayer | null>(null);
+  // Voice tool calls outlive the render that received them, so they read and
+  // write the workspace through refs; a photo taken by one call is there for the next.
+  const liveToolsRef = useRef<LiveToolHandlers>({});
+  const cancelledCallsRef = useRef(new Set<string>());
+  const imagesRef = useRef(images);
+  const outputsRef = useRef(outputs);
+  const sessionIdRef = useRef(sessionId);
+  imagesRef.current = images;
+  outputsRef.current = outputs;
+  sessionIdRef.current = sessionId;
+  useEffect(() => setUsageSession(sessionId), [sessionId]);
+  const [refiningIds, setRefiningIds] = useState<number[]>([]);
+
+  // Compare mode
+  const [compareMode, setCompareMode] = useState(false);
+  const [autoScore, setAutoScore] = useState(() => localStorage.getItem('autoScore') === 'true');
+
+  // Prompt presets: the Generator's system prompt is `prompt`; Studio's is prefixed to the request.
+  const [sketchPresetId, setSketchPresetId] = useState<string | null>(null);
+  const [mediaSystemPrompt, setMediaSystemPrompt] = useState(() => localStorage.getItem(MEDIA_PROMPT_KEY) || '');
+  const [mediaPresetId, setMediaPresetId] = useState<string | null>(() => localStorage.getItem(activePresetKey(MEDIA_PROMPT_KEY)));
+  const [presetValues, setPresetValues] = useState<Record<string, string>>({});
+  const sketchMissing = missingPlaceholders(placeholderNames(prompt, userInput), presetValues);
+  const mediaMissing = missingPlaceholders(placeholderNames(mediaSystemPrompt, userInput), presetValues);
+
+  /** Expected cost of a Generator run: one call per variant, each possibly using its whole thinking budget. */
+  const codeRunEstimate = () => {
+    const model = getCodeModel();
+    const thinkingTokens = generationConfig(model).thinkingConfig?.thinkingBudget || 0;
+    return estimateRunCost('code', model, concurrentRequests, { thinkingTokens });
+  };
+  const mediaRunEstimate = () =>
+    estimateRunCost(mediaType as UsageFeature, getFeatureModel(mediaType), 1, mediaType === 'video' ? { videoSeconds: VIDEO_SECONDS } : { images: 1 });
+  const codeBudget = checkBudget(codeRunEstimate());
+  const mediaBudget = checkBudget(mediaRunEstimate());
+
+  const insertSnippet = (text: string) => setUserInput(u => (u.trim() ? `${u.trimEnd()}\n${text}` : text));
 
   useEffect(() => {
-    const defaultPrompt = `You are a world-class p5.js educator. Create high-quality, interactive, and aesthetically pleasing code sketches based on images. Ensure the code is clean, documented, and utilizes modern JavaScript.`;
-    const savedPrompt = localStorage.getItem('savedPrompt');
+    if (restoredPromptRef.current !== null) {
+      setPrompt(restoredPromptRef.current);
+      restoredPromptRef.current = null;
+      return;
+    }
+    const defaultPrompt = getTarget(targetId).systemPrompt;
+    const savedPrompt = localStorage.getItem(savedPromptKey(targetId));
     setPrompt(savedPrompt || defaultPrompt);
-  }, []);
+    setSketchPresetId(localStorage.getItem(activePresetKey(savedPromptKey(targetId))));
+  }, [targetId]);
+
+  const changeSketchPrompt = (text: string) => {
+    setPrompt(text);
+    localStorage.setItem(savedPromptKey(targetId), text);
+  };
+
+  const changeSketchPreset = (id: string | null) => {
+    setSketchPresetId(id);
+    const key = activePresetKey(savedPromptKey(targetId));
+    if (id) localStorage.setItem(key, id);
+    else localStorage.removeItem(key);
+  };
 
+  const changeMediaPrompt = (text: string) => {
+    setMediaSystemPrompt(text);
+    localStorage.setItem(MEDIA_PROMPT_KEY, text);
+  };
+
+  const changeMediaPreset = (id: string | null) => {
+    setMediaPresetId(id);
+    if (id) localStorage.setItem(activePresetKey(MEDIA_PROMPT_KEY), id);
+    else localStorage.removeItem(activePresetKey(MEDIA_PROMPT_KEY));
+  };
+
+  const restoreSession = (session: Session) => {
+    if (session.targetId !== targetId) restoredPromptRef.current = session.prompt;
+    setPrompt(session.prompt);
+    setSketchPresetId(session.preset?.id || null);
+    if (session.placeholders) setPresetValues(v => ({ ...v, ...session.placeholders }));
+    setTargetId(session.targetId);
+    setImages(session.images || (session.imageBase64 ? [legacyImage(session.imageBase64)] : []));
+    setUserInput(session.directives);
+    // A model that has since left the catalog is dropped and the current choice kept.
+    const modelFeature = session.performanceMode === 'pro' ? 'code' : 'codeLite';
+    updateSettings({
+      models: { ...getSettings().models, [modelFeature]: session.model },
+      performanceMode: session.performanceMode,
+      thinking: session.thinking,
+      temperature: session.temperature,
+      topK: session.topK,
+      topP: session.topP,
+      concurrentRequests: session.concurrentRequests,
+    });
+    savedOutputsRef.current = session.outputs;
+    setOutputs(session.outputs);
+    setSessionId(session.id);
+  };
+
+  /** Storage failures are shown rather than logged, since they silently lose history otherwise. */
+  const reportHistoryError = (e: unknown) => reportError(e, { feature: 'history' });
+  const onHistoryError = useEffectEvent(reportHistoryError);
+
+  // Bring back the last session and the Studio assets after a reload.
+  const restoreLastWork = useEffectEvent(() => {
+    latestSession()
+      .then((session) => session && restoreSession(session))
+      .catch(reportHistoryError);
+    listAssets()
+      .then((assets) => setGeneratedMedia(assets.map((a) => ({ ...a, url: URL.createObjectURL(a.blob) }))))
+      .catch(reportHistoryError);
+  });
+  useEffect(() => restoreLastWork(), []);
+
+  // Autosave variant edits, stars and version changes into the current session.
   useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatMessages]);
+    if (!sessionId || outputs === savedOutputsRef.current) return;
+    const timer = setTimeout(() => {
+      savedOutputsRef.current = outputs;
+      updateSession(sessionId, { outputs }).catch((e) => onHistoryError(e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [outputs, sessionId]);
+
+  /** Preprocesses dropped or captured images and appends them to the references. */
+  const addImages = async (blobs: Blob[]) => {
+    try {
+      const processed = await Promise.all(blobs.map(blob => processImage(blob)));
+      setImages(prev => [...prev, ...processed]);
+      return processed;
+    } catch (e) {
+      reportError(e);
+      return [];
+    }
+  };
+
+  const moveImage = (id: string, offset: number) =>
+    setImages(prev => {
+      const from = prev.findIndex(x => x.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
 
+  const cropImage = async (id: string, crop: CropAspect) => {
+    const image = images.find(x => x.id === id);
+    if (!image) return;
+    try {
+      const cropped = await recropImage(image, crop);
+      setImages(prev => prev.map(x => x.id === id ? cropped : x));
+    } catch (e) {
+      reportError(e);
+    }
+  };
+
+  // The drop handler stays stable while still reaching the current addImages.
+  const addImagesRef = useRef(addImages);
+  addImagesRef.current = addImages;
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      if (event.target && typeof event.target.result === 'string') {
-        setImageBase64(event.target.result);
-      }
-    };
-    reader.readAsDataURL(file);
+    const video = acceptedFiles.find(f => f.type.startsWith('video/'));
+    if (video) setPendingVideo(video);
+    addImagesRef.current(acceptedFiles.filter(f => f.type.startsWith('image/')));
   }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: { 'image/*': [] },
+    accept: { 'image/*': [], 'video/*': [] },
   });
 
   const startCamera = async () => {
@@ -127,195 +390,480 @@ export default function Home() {
         setIsCameraOpen(true);
       }
     } catch (err) {
-      setErrorInfo({ message: "Camera access denied. Please check permissions." });
+      reportError(new AppError('device', 'Camera access denied. Please check permissions.', { context: { feature: 'camera' } }));
     }
   };
 
-  const capturePhoto = () => {
+  const closeCamera = () => {
+    if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
+    setIsCameraOpen(false);
+  };
+
+  const capturePhoto = async () => {
     if (videoRef.current) {
-      const canvas = document.createElement('canvas');
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      canvas.getContext('2d')?.drawImage(videoRef.current, 0, 0);
-      setImageBase64(canvas.toDataURL('image/jpeg'));
-      if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
-      setIsCameraOpen(false);
+      const frame = await grabFrame(videoRef.current);
+      closeCamera();
+      await addImages([frame]);
     }
   };
 
-  const getModel = () => (performanceMode === 'pro' ? MODEL_PRO : MODEL_LITE);
-
-  const generateCode = async () => {
-    if (!imageBase64) return;
+  /**
+   * Generates a fresh set of variants; options override the current images, directives and target.
+   * Variants that fail are left in the job list to retry; a retried one joins its session.
+   */
+  const generateCode = async ({ images: refs = images, directives = userInput, targetId: id = targetId }: GenerateOptions = {}) => {
+    if (refs.length === 0) return;
+    const ai = getProvider();
+    const target = getTarget(id);
+    const targetPrompt = id === targetId ? prompt : localStorage.getItem(savedPromptKey(id)) || target.systemPrompt;
+    const preset = presetUse(id === targetId ? sketchPresetId : localStorage.getItem(activePresetKey(savedPromptKey(id))), presetValues);
+    const names = placeholderNames(targetPrompt, directives);
+    const missing = missingPlaceholders(names, presetValues);
+    if (missing.length) throw new AppError('input', `Fill in ${missing.map(n => `{{${n}}}`).join(', ')} before generating.`);
+    const placeholders = names.length ? Object.fromEntries(names.map(n => [n, presetValues[n]])) : undefined;
+    const model = getCodeModel();
+    const { temperature, topK, topP } = getSettings();
+    const selection = getSelection(target);
+    const hint = runtimeHint(target, selection);
+    const budget = checkBudget(codeRunEstimate());
+    if (budget.blocked) throw new AppError('budget', budget.message!);
     setLoading(true);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    try {
-      const reqs = Array(concurrentRequests).fill(null).map(async () => {
-        const config: any = { temperature, topK, topP };
-        if (performanceMode === 'pro' && thinkingMode) {
-          config.thinkingConfig = { thinkingBudget: 32768 };
-        }
+    // Known up front so every variant's usage is charged to the session it will join.
+    const newSessionId = createId();
+    let session: Session | null = null;
 
-        const res = await ai.models.generateContent({
-          model: getModel(),
-          contents: {
-            parts: [
-              { text: `${prompt}\n\nInstructions: ${userInput}` },
-              { inlineData: { data: imageBase64.split(',')[1], mimeType: 'image/jpeg' } }
-            ]
-          },
-          config
-        });
-        
-        const text = res.text || '';
-        const match = /```(?:javascript|js)?\s*([\s\S]*?)```/g.exec(text);
-        return { code: match ? match[1].trim() : text, fullResponse: text };
+    const requestVariant = async (_: number, signal: AbortSignal) => {
+      const config = generationConfig(model);
+
+      const res = await ai.generateContent({
+        model,
+        contents: {
+          parts: [
+            { text: `${fillPlaceholders(targetPrompt, presetValues)}\n\nInstructions: ${fillPlaceholders(directives, presetValues)}\n\n${MULTI_FILE_HINT}${hint ? `\n\n${hint}` : ''}` },
+            ...refs.map(ref => imagePart(ref.dataUrl))
+          ]
+        },
+        config: { ...config, abortSignal: signal }
       });
+      recordUsage('code', model, usageFromResponse(res), newSessionId);
+      checkResponse(res);
 
-      const results = await Promise.all(reqs);
-      setOutputs(results.map((r, i) => ({ id: Date.now() + i, ...r })));
-    } catch (e) {
-      setErrorInfo(e);
+      const text = res.text || '';
+      return { ...extractProject(target, text), fullResponse: text };
+    };
+
+    const keepVariants = (results: Awaited<ReturnType<typeof requestVariant>>[]) => {
+      const newOutputs = results.map((r, i) => ({ ...createVersionedOutput(Date.now() + i, r), target: target.id, ...selection }));
+      if (session) {
+        if (sessionIdRef.current === session.id) setOutputs(o => [...o, ...newOutputs]);
+        else appendSessionOutputs(session.id, newOutputs).catch(reportHistoryError);
+        return newOutputs;
+      }
+      const now = Date.now();
+      session = {
+        id: newSessionId,
+        title: sessionTitle(directives, target.id),
+        createdAt: now,
+        updatedAt: now,
+        imageBase64: refs[0].dataUrl,
+        images: refs.map(toStoredImage),
+        directives,
+        prompt: targetPrompt,
+        preset,
+        placeholders,
+        targetId: target.id,
+        model,
+        performanceMode,
+        thinking: thinkingMode,
+        temperature,
+        topK,
+        topP,
+        concurrentRequests,
+        outputs: newOutputs,
+      };
+      savedOutputsRef.current = newOutputs;
+      outputsRef.current = newOutputs;
+      sessionIdRef.current = session.id;
+      setOutputs(newOutputs);
+      setSessionId(session.id);
+      saveSession(session).catch(reportHistoryError);
+      return newOutputs;
+    };
+
+    try {
+      const job = runJob({
+        kind: 'sketch',
+        label: `${target.label}: ${sessionTitle(directives, target.id)}`,
+        count: concurrentRequests,
+        run: requestVariant,
+        onRetried: (_, result) => job.then(() => keepVariants([result])),
+      });
+      const settled = await job;
+      const fulfilled = settled.flatMap(r => (r.status === 'fulfilled' ? [r.value] : []));
+      if (fulfilled.length) return keepVariants(fulfilled);
+      const failure = settled.find(r => r.status === 'rejected' && !isCancelled(r.reason));
+      if (failure?.status === 'rejected') throw failure.reason;
     } finally {
       setLoading(false);
     }
   };
 
-  const handleChat = async () => {
-    if (!userInput.trim()) return;
-    const msg = userInput.trim();
-    setChatMessages(prev => [...prev, { role: 'user', content: msg }]);
-    setUserInput('');
-    setLoading(true);
+  const generateAndReport = () =>
+    generateCode().catch(e => reportError(e, { feature: 'code', model: getCodeModel(), prompt: userInput }, generateAndReport));
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    try {
-      const tools: any[] = [];
-      if (useSearch) tools.push({ googleSearch: {} });
-      if (useMaps) tools.push({ googleMaps: {} });
+  /** Where the error dialog can take the user next, depending on what went wrong and where. */
+  const recoveryActions = (error: AppError, retry?: () => void): RecoveryAction[] => {
+    const { category } = error;
+    const feature = error.context?.feature || '';
+    const actions: RecoveryAction[] = [];
+    if (retry && !['auth', 'permission', 'budget', 'input', 'device'].includes(category)) {
+      actions.push({ label: 'Try again', run: retry });
+    }
+    if (retry && feature === 'code' && getSettings().performanceMode === 'pro' && ['rateLimit', 'server', 'truncated', 'budget'].includes(category)) {
+      actions.push({ label: 'Switch to Lite and retry', run: () => { updateSettings({ performanceMode: 'lite' }); retry(); } });
+    }
+    const promptRef = feature === 'code' ? directivesRef : ['image', 'edit', 'video'].includes(feature) ? mediaPromptRef : null;
+    if (promptRef && ['safety', 'recitation', 'invalidRequest', 'truncated', 'input'].includes(category)) {
+      actions.push({
+        label: 'Edit the prompt',
+        run: () => {
+          setActiveTab(feature === 'code' ? 'sketch' : 'media');
+          requestAnimationFrame(() => promptRef.current?.focus());
+        },
+      });
+    }
+    if (['notFound', 'permission', 'invalidRequest'].includes(category)) {
+      actions.push({ label: 'Choose another model', run: () => setShowSettings(true) });
+    }
+    if (category === 'budget') actions.push({ label: 'Adjust budgets', run: () => setActiveTab('usage') });
+    if (category === 'server') {
+      actions.push({ label: 'Check API status', run: () => window.open('https://aistudio.google.com/status', '_blank', 'noopener') });
+    }
+    actions.push({ label: 'View error log', run: () => { setHistoryView('errors'); setActiveTab('history'); } });
+    return actions;
+  };
 
-      const config: any = { 
-        temperature, topK, topP, tools: tools.length > 0 ? tools : undefined 
-      };
-      
-      if (performanceMode === 'pro' && thinkingMode && !useMaps) {
-        config.thinkingConfig = { thinkingBudget: 32768 };
-      }
+  /** Applies a code change to one variant; its fidelity score no longer applies. */
+  const changeCode = (id: number, change: (output: SketchOutput) => SketchOutput) =>
+    setOutputs(o => o.map(x => x.id === id ? { ...change(x), score: undefined } : x));
 
-      const res = await ai.models.generateContent({
-        model: useMaps ? 'gemini-2.5-flash' : getModel(),
-        contents: msg,
-        config
-      });
+  const scoreVariant = (id: number, score: number) =>
+    setOutputs(o => {
+      const scored = o.map(x => x.id === id ? { ...x, score } : x);
+      return autoScore ? [...scored].sort((a, b) => (b.score ?? -1) - (a.score ?? -1)) : scored;
+    });
 
-      const grounding = res.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((c: any) => c.web || c.maps).filter(Boolean);
-      setChatMessages(prev => [...prev, { role: 'assistant', content: res.text || '', grounding }]);
+  const moveVariant = (id: number, offset: number) =>
+    setOutputs(o => {
+      const from = o.findIndex(x => x.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= o.length) return o;
+      const next = [...o];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+
+  const toggleStar = (id: number) => setOutputs(o => o.map(x => x.id === id ? { ...x, starred: !x.starred } : x));
+
+  /** The open session was deleted from history: stop autosaving into it, keeping the variants on screen. */
+  const forgetSession = (id: string) => {
+    if (sessionIdRef.current !== id) return;
+    sessionIdRef.current = null;
+    setSessionId(null);
+  };
+
+  const keepVariant = (id: number) => {
+    setOutputs(o => o.filter(x => x.id === id));
+    setCompareMode(false);
+  };
+
+  const addMedia = (type: 'image' | 'video', blob: Blob, mediaPrompt: string, metadata: AssetMetadata) => {
+    const asset: Asset = { id: createId(), type, blob, prompt: mediaPrompt, createdAt: Date.now(), ...metadata };
+    setGeneratedMedia(prev => [{ ...asset, url: URL.createObjectURL(blob) }, ...prev]);
+    saveAsset(asset).catch(reportHistoryError);
+  };
+
+  /** Makes a Studio image the only reference, ready for the next edit or sketch. */
+  const adoptAssetImage = async (asset: LibraryAsset) => {
+    try {
+      setImages([await processImage(asset.blob)]);
+      return true;
     } catch (e) {
-      setErrorInfo(e);
-    } finally {
-      setLoading(false);
+      reportError(e);
+      return false;
+    }
+  };
+
+  const reuseAsset = async (asset: LibraryAsset) => {
+    if (asset.type === 'video') {
+      setPendingVideo(new File([asset.blob], assetFileName(asset), { type: asset.blob.type }));
+      return;
+    }
+    if (await adoptAssetImage(asset)) {
+      setMediaType('edit');
+      setUserInput('');
+      window.scrollTo({ top: 0, behavior: 'smooth' });
     }
   };
 
+  const sendAssetToGenerator = async (asset: LibraryAsset) => {
+    if (await adoptAssetImage(asset)) setActiveTab('sketch');
+  };
+
+  /** Polls a Veo operation as a job; `video` is filled in by the first attempt, so a retry resumes polling. */
+  const runVideoJob = (videoPrompt: string, start: () => Promise<PendingVideo>, video?: PendingVideo) =>
+    runSingleJob({
+      kind: 'video',
+      label: videoPrompt || 'Video',
+      run: async (_, signal) => {
+        const ai = getProvider();
+        if (!video) {
+          video = await start();
+          savePendingVideo(video);
+        }
+        try {
+          const blob = await pollVideo(ai, video, signal);
+          removePendingVideo(video.id);
+          recordUsage('video', video.metadata?.model || getFeatureModel('video'), { videoSeconds: VIDEO_SECONDS }, null);
+          addMedia('video', blob, videoPrompt, video.metadata || { mode: 'video' });
+        } catch (e) {
+          if (isCancelled(e)) removePendingVideo(video.id);
+          throw e;
+        }
+      },
+    });
+
+  // Pick up Veo operations that were still running when the page was closed.
+  const resumePendingVideos = useEffectEvent(() => {
+    loadPendingVideos().forEach((video) =>
+      runVideoJob(video.prompt, async () => video, video).catch((e) => isCancelled(e) || logError(normalizeError(e, { feature: 'video', prompt: video.prompt }))),
+    );
+  });
+  useEffect(() => resumePendingVideos(), []);
+
   const generateMedia = async () => {
+    const budget = checkBudget(mediaRunEstimate());
+    if (budget.blocked) return reportError(new AppError('budget', budget.message!, { context: { feature: mediaType, model: getFeatureModel(mediaType) } }));
     setLoading(true);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = getProvider();
+    const request = fillPlaceholders(userInput, presetValues);
+    const system = fillPlaceholders(mediaSystemPrompt, presetValues).trim();
+    const mediaPrompt = system ? `${system}\n\n${request}` : request;
+    const preset = presetUse(mediaPresetId, presetValues)?.name;
+    const model = getFeatureModel(mediaType);
     try {
       if (mediaType === 'image') {
-        const res = await ai.models.generateContent({
-          model: MODEL_IMAGE_PRO,
-          contents: {
-            parts: [
-              { text: userInput },
-              ...(imageBase64 ? [{ inlineData: { data: imageBase64.split(',')[1], mimeType: 'image/jpeg' } }] : [])
-            ]
+        await runSingleJob({
+          kind: 'image',
+          label: request || 'Image',
+          run: async (_, signal) => {
+            const res = await ai.generateContent({
+              model,
+              contents: {
+                parts: [
+                  { text: mediaPrompt },
+                  ...images.map(image => imagePart(image.dataUrl))
+                ]
+              },
+              config: { imageConfig: { aspectRatio: aspectRatio as any, imageSize: imageSize as any }, abortSignal: signal }
+            });
+            recordUsage('image', model, usageFromResponse(res), null);
+            addMedia('image', await imageFromResponse(checkResponse(res)), request, { mode: 'image', model, aspectRatio, imageSize, references: images.length, preset });
           },
-          config: { imageConfig: { aspectRatio: aspectRatio as any, imageSize: imageSize as any } }
         });
-        const part = res.candidates?.[0]?.content?.parts.find(p => p.inlineData);
-        if (part?.inlineData) setGeneratedMedia(prev => [{ type: 'image', url: `data:image/png;base64,${part.inlineData?.data}` }, ...prev]);
       } else if (mediaType === 'edit') {
-        const res = await ai.models.generateContent({
-          model: MODEL_IMAGE_EDIT,
-          contents: {
-            parts: [
-              { inlineData: { data: imageBase64.split(',')[1], mimeType: 'image/jpeg' } },
-              { text: userInput }
-            ]
-          }
+        await runSingleJob({
+          kind: 'edit',
+          label: request || 'Edit',
+          run: async (_, signal) => {
+            const res = await ai.generateContent({
+              model,
+              contents: {
+                parts: [
+                  ...images.map(image => imagePart(image.dataUrl)),
+                  { text: mediaPrompt }
+                ]
+              },
+              config: { abortSignal: signal }
+            });
+            recordUsage('edit', model, usageFromResponse(res), null);
+            addMedia('image', await imageFromResponse(checkResponse(res)), request, { mode: 'edit', model, references: images.length, preset });
+          },
         });
-        const part = res.candidates?.[0]?.content?.parts.find(p => p.inlineData);
-        if (part?.inlineData) setGeneratedMedia(prev => [{ type: 'image', url: `data:image/png;base64,${part.inlineData?.data}` }, ...prev]);
       } else {
-        const op = await ai.models.generateVideos({
-          model: MODEL_VEO,
-          prompt: userInput,
-          config: { aspectRatio: aspectRatio as any, resolution: '720p' }
-        });
-        let res = op;
-        while (!res.done) {
-          await new Promise(r => setTimeout(r, 5000));
-          res = await ai.operations.getVideosOperation({ operation: res });
-        }
-        const uri = res.response?.generatedVideos?.[0]?.video?.uri;
-        const vid = await fetch(`${uri}&key=${process.env.API_KEY}`);
-        const blob = await vid.blob();
-        setGeneratedMedia(prev => [{ type: 'video', url: URL.createObjectURL(blob) }, ...prev]);
+        await runVideoJob(request, async () => ({
+          id: createId(),
+          operation: await ai.generateVideos({
+            model,
+            prompt: mediaPrompt,
+            config: { aspectRatio: aspectRatio as any, resolution: '720p' }
+          }),
+          prompt: request,
+          startedAt: Date.now(),
+          metadata: { mode: 'video', model, aspectRatio, resolution: '720p', preset },
+        }));
       }
     } catch (e) {
-      setErrorInfo(e);
+      reportError(e, { feature: mediaType, model, prompt: request }, generateMedia);
     } finally {
       setLoading(false);
     }
   };
 
+  /** Releases the session, the microphone and the playback context. Safe to call twice. */
+  const stopLive = () => {
+    const session = liveSessionRef.current;
+    liveSessionRef.current = null;
+    micRef.current?.stop();
+    micRef.current = null;
+    playerRef.current?.close();
+    playerRef.current = null;
+    session?.close();
+    setIsLiveActive(false);
+    setIsLiveConnecting(false);
+    setTranscript(t => finishTurns(t));
+  };
+
+  useEffect(() => stopLive, []);
+
+  liveToolsRef.current = {
+    capture_camera_photo: async () => {
+      const frame = isCameraOpen && videoRef.current ? await grabFrame(videoRef.current) : await grabCameraFrame();
+      if (isCameraOpen) closeCamera();
+      const image = await processImage(frame);
+      imagesRef.current = [...imagesRef.current, image];
+      setImages(prev => [...prev, image]);
+      return { captured: true };
+    },
+    generate_sketch: async ({ directives, target }) => {
+      const refs = imagesRef.current;
+      if (refs.length === 0) throw new Error('There is no source image yet. Upload one or capture a photo first.');
+      const id: TargetId = TARGETS.some(t => t.id === target) ? target : targetId;
+      if (typeof directives === 'string') setUserInput(directives);
+      setTargetId(id);
+      setActiveTab('sketch');
+      const variants = await generateCode({ images: refs, directives: typeof directives === 'string' ? directives : userInput, targetId: id });
+      return { variants: variants?.length ?? 0, target: getTarget(id).label };
+    },
+    refine_variant: async ({ variant = 1, instruction }) => {
+      const current = outputsRef.current;
+      const output = current[variant - 1];
+      if (!output) throw new Error(current.length ? `There are only ${current.length} variants.` : 'There are no sketches yet.');
+      setActiveTab('sketch');
+      setRefiningIds(ids => [...ids, output.id]);
+      try {
+        const result = await runSingleJob({
+          kind: 'refine',
+          label: `Variant ${variant}: ${instruction}`,
+          run: async (_, signal) => {
+            const result = await refineSketch({
+              target: getTarget(output.target),
+              model: getCodeModel(),
+              code: output.code,
+              files: output.files,
+              selection: outputSelection(output),
+              instruction,
+              imageBase64: imagesRef.current[0]?.dataUrl,
+              signal,
+            });
+            changeCode(output.id, x => commitVersion(x, result.code, 'refine', instruction, result.files));
+            return result;
+          },
+        });
+        return { variant, summary: replySummary(result.fullResponse) };
+      } finally {
+        setRefiningIds(ids => ids.filter(i => i !== output.id));
+      }
+    },
+  };
+
+  const handleLiveMessage = (m: LiveServerMessage) => {
+    m.toolCallCancellation?.ids?.forEach(id => cancelledCallsRef.current.add(id));
+    if (m.toolCall?.functionCalls?.length) {
+      runToolCalls(m.toolCall.functionCalls, liveToolsRef.current, cancelledCallsRef.current).then(functionResponses => {
+        if (functionResponses.length) liveSessionRef.current?.sendToolResponse({ functionResponses });
+      });
+    }
+    // Transcription fields postdate the SDK's typings.
+    const content: any = m.serverContent;
+    if (!content) return;
+    if (content.interrupted) {
+      // The user talked over the model: drop the queued reply.
+      playerRef.current?.interrupt();
+      setTranscript(t => finishTurns(t, true));
+    }
+    if (content.inputTranscription?.text) setTranscript(t => appendTranscript(t, 'user', content.inputTranscription.text));
+    if (content.outputTranscription?.text) setTranscript(t => appendTranscript(t, 'model', content.outputTranscription.text));
+    content.modelTurn?.parts?.forEach((part: any) => {
+      const { data, mimeType } = part.inlineData || {};
+      if (data && (!mimeType || mimeType.startsWith('audio/'))) playerRef.current?.enqueue(data, mimeType);
+    });
+    if (content.turnComplete) setTranscript(t => finishTurns(t));
+  };
+
   const toggleLive = async () => {
-    if (isLiveActive) {
-      liveSessionRef.current?.close();
-      setIsLiveActive(false);
+    if (isLiveActive || isLiveConnecting) {
+      stopLive();
       return;
     }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = getProvider();
+    setIsLiveConnecting(true);
+    setTranscript([]);
+    cancelledCallsRef.current = new Set();
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      audioContextRef.current = new AudioContext({ sampleRate: 24000 });
-      const session = await ai.live.connect({
-        model: MODEL_LIVE,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } }
-        },
+      const player = createPlayer();
+      playerRef.current = player;
+      const mic = await startMicrophone((data) =>
+        liveSessionRef.current?.sendRealtimeInput({ media: { data, mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}` } }),
+      );
+      // Ended while waiting for microphone permission.
+      if (playerRef.current !== player) return mic.stop();
+      micRef.current = mic;
+      const config: any = {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: liveVoice } } },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        systemInstruction: LIVE_INSTRUCTION,
+        tools: [{ functionDeclarations: LIVE_TOOLS }],
+      };
+      const session = await ai.connectLive({
+        model: getFeatureModel('live'),
+        config,
         callbacks: {
-          onopen: () => setIsLiveActive(true),
-          onmessage: async (m) => {
-            const data = m.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (data && audioContextRef.current) {
-              const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
-              const int16 = new Int16Array(bytes.buffer);
-              const buffer = audioContextRef.current.createBuffer(1, int16.length, 24000);
-              const channel = buffer.getChannelData(0);
-              for (let i = 0; i < int16.length; i++) channel[i] = int16[i] / 32768.0;
-              const source = audioContextRef.current.createBufferSource();
-              source.buffer = buffer;
-              source.connect(audioContextRef.current.destination);
-              source.start();
-            }
+          onopen: () => {
+            setIsLiveConnecting(false);
+            setIsLiveActive(true);
           },
-          onclose: () => setIsLiveActive(false),
-          onerror: (e) => setErrorInfo(e)
-        }
+          onmessage: handleLiveMessage,
+          onclose: () => stopLive(),
+          onerror: (e) => {
+            reportError(e, { feature: 'live', model: getFeatureModel('live') });
+            stopLive();
+          },
+        },
       });
+      if (micRef.current !== mic) return session.close();
       liveSessionRef.current = session;
     } catch (e) {
-      setErrorInfo(e);
+      stopLive();
+      reportError(e, { feature: 'live', model: getFeatureModel('live') });
     }
   };
 
   return (
     <div className="flex flex-col h-screen overflow-hidden">
       <Header />
-      <ErrorModal isOpen={!!errorInfo} onClose={() => setErrorInfo(null)} errorInfo={errorInfo} />
+      <ErrorModal isOpen={!!errorInfo} onClose={() => setErrorInfo(null)} error={errorInfo?.error} actions={errorInfo ? recoveryActions(errorInfo.error, errorInfo.retry) : []} />
+      <JobsPanel />
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} onError={reportError} />}
+      {pendingVideo && (
+        <VideoFramePicker
+          file={pendingVideo}
+          onPick={(frame) => { setPendingVideo(null); addImages([frame]); }}
+          onCancel={() => setPendingVideo(null)}
+        />
+      )}
 
       <div className="flex flex-1 overflow-hidden">
         {/* Navigation Sidebar */}
@@ -326,6 +874,8 @@ export default function Home() {
               { id: 'chat', icon: MessageSquare, label: 'Intelligence' },
               { id: 'media', icon: ImageIcon, label: 'Studio' },
               { id: 'live', icon: Mic, label: 'Voice' },
+              { id: 'history', icon: HistoryIcon, label: 'History' },
+              { id: 'usage', icon: Gauge, label: 'Usage' },
             ].map(t => (
               <button
                 key={t.id}
@@ -341,16 +891,18 @@ export default function Home() {
           </div>
 
           <div className="mt-auto space-y-6 pt-6 border-t">
+            <ProviderSwitcher onError={reportError} />
+
             <div className="bg-slate-50 p-2 rounded-2xl flex">
               <button 
-                onClick={() => setPerformanceMode('lite')}
+                onClick={() => updateSettings({ performanceMode: 'lite' })}
                 className={`flex-1 flex flex-col items-center py-2 rounded-xl transition-all ${performanceMode === 'lite' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400'}`}
               >
                 <Zap size={14} />
                 <span className="text-[10px] font-black uppercase">Lite</span>
               </button>
               <button 
-                onClick={() => setPerformanceMode('pro')}
+                onClick={() => updateSettings({ performanceMode: 'pro' })}
                 className={`flex-1 flex flex-col items-center py-2 rounded-xl transition-all ${performanceMode === 'pro' ? 'bg-white text-purple-600 shadow-sm' : 'text-slate-400'}`}
               >
                 <Sparkles size={14} />
@@ -359,10 +911,10 @@ export default function Home() {
             </div>
 
             <button
-              onClick={() => setThinkingMode(!thinkingMode)}
-              disabled={performanceMode === 'lite'}
+              onClick={() => updateSettings({ thinking: !thinkingMode })}
+              disabled={!canThink}
               className={`w-full flex items-center gap-3 p-3 rounded-2xl border transition-all ${
-                thinkingMode && performanceMode === 'pro' ? 'border-purple-200 bg-purple-50 text-purple-700' : 'border-transparent text-slate-400 opacity-50'
+                thinkingMode && canThink ? 'border-purple-200 bg-purple-50 text-purple-700' : 'border-transparent text-slate-400 opacity-50'
               }`}
             >
               <BrainCircuit size={20} className={thinkingMode ? 'animate-pulse' : ''} />
@@ -371,6 +923,14 @@ export default function Home() {
                 <p className="text-[9px] font-bold opacity-70 leading-none">{thinkingMode ? 'High Precision' : 'Standard'}</p>
               </div>
             </button>
+
+            <button
+              onClick={() => setShowSettings(true)}
+              className="w-full flex items-center gap-3 p-3 rounded-2xl text-slate-400 hover:text-black hover:bg-slate-50 transition-all"
+            >
+              <Settings size={20} />
+              <span className="hidden md:block text-[10px] font-black uppercase tracking-wider">Settings</span>
+            </button>
           </div>
         </nav>
 
@@ -380,6 +940,13 @@ export default function Home() {
             {activeTab === 'sketch' && (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-10 animate-in fade-in slide-in-from-bottom-6 duration-700">
                 <section className="space-y-8">
+                  {(isLiveActive || isLiveConnecting) && (
+                    <div className="flex items-center gap-3 px-5 py-3 bg-blue-600 text-white rounded-[24px] shadow-lg shadow-blue-500/20">
+                      <Mic size={16} className="shrink-0 animate-pulse" />
+                      <p className="flex-1 min-w-0 truncate text-xs font-bold">{transcript[transcript.length - 1]?.text || 'Voice session active'}</p>
+                      <button onClick={toggleLive} className="px-3 py-1 rounded-full bg-white/20 hover:bg-white/30 text-[10px] font-black uppercase">End</button>
+                    </div>
+                  )}
                   <div className="group relative">
                     <div 
                       {...getRootProps()}
@@ -393,7 +960,7 @@ export default function Home() {
                           <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover" />
                           <div className="absolute bottom-8 flex gap-6">
                             <button onClick={e => { e.stopPropagation(); capturePhoto(); }} className="w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-2xl transition-transform hover:scale-110"><Camera size={30} /></button>
-                            <button onClick={e => { e.stopPropagation(); setIsCameraOpen(false); }} className="w-16 h-16 bg-red-500 text-white rounded-full flex items-center justify-center shadow-2xl transition-transform hover:scale-110"><X size={30} /></button>
+                            <button onClick={e => { e.stopPropagation(); closeCamera(); }} className="w-16 h-16 bg-red-500 text-white rounded-full flex items-center justify-center shadow-2xl transition-transform hover:scale-110"><X size={30} /></button>
                           </div>
                         </div>
                       ) : imageBase64 ? (
@@ -402,35 +969,117 @@ export default function Home() {
                         <div className="text-center px-10">
                           <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mx-auto mb-6"><Upload className="text-slate-300" size={32} /></div>
                           <h2 className="text-xl font-black mb-2 tracking-tight">Drop your vision here</h2>
-                          <p className="text-slate-400 text-sm mb-8 font-medium">Upload an image to transform it into a p5.js sketch</p>
+                          <p className="text-slate-400 text-sm mb-8 font-medium">Drop images or a video to transform into {getTarget(targetId).label} code</p>
                           <button onClick={e => { e.stopPropagation(); startCamera(); }} className="px-8 py-3 bg-black text-white rounded-full font-bold text-sm transition-all hover:scale-105 shadow-xl">Use Camera</button>
                         </div>
                       )}
                     </div>
                   </div>
+                  {images.length > 0 && (
+                    <ImageStrip
+                        images={images}
+                        onMove={moveImage}
+                        onRemove={(id) => setImages(prev => prev.filter(x => x.id !== id))}
+                        onCrop={cropImage}
+                      />
+                  )}
 
                   <div className="space-y-6">
+                    <div className="flex flex-wrap gap-1 p-1.5 bg-white border border-slate-100 rounded-[24px] shadow-sm">
+                      {TARGETS.map(t => (
+                        <button
+                          key={t.id}
+                          onClick={() => setTargetId(t.id)}
+                          className={`flex-1 whitespace-nowrap px-3 py-2.5 rounded-[18px] text-[10px] font-black uppercase transition-all ${targetId === t.id ? 'bg-black text-white shadow-lg' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                          {t.label}
+                        </button>
+                      ))}
+                    </div>
+
+                    <PromptManager
+                      scope="sketch"
+                      targetId={targetId}
+                      systemPrompt={prompt}
+                      defaultSystemPrompt={getTarget(targetId).systemPrompt}
+                      onSystemPromptChange={changeSketchPrompt}
+                      activePresetId={sketchPresetId}
+                      onActivePresetChange={p => changeSketchPreset(p?.id || null)}
+                      values={presetValues}
+                      onValuesChange={setPresetValues}
+                      directives={userInput}
+                      onInsertSnippet={insertSnippet}
+                      onError={reportError}
+                    />
+
+                    <LibraryBar
+                      target={getTarget(targetId)}
+                      selection={getSelection(getTarget(targetId))}
+                      onChange={selection => setSelection(targetId, selection)}
+                      onError={reportError}
+                    />
+
                     <textarea 
+                      ref={directivesRef}
                       value={userInput}
                       onChange={e => setUserInput(e.target.value)}
                       placeholder="Add specific directives (e.g., 'Make it reactive to sound')"
                       className="w-full p-6 bg-white border border-slate-100 rounded-[32px] shadow-sm focus:ring-4 focus:ring-blue-50 focus:border-blue-400 transition-all outline-none min-h-[140px] text-sm font-medium"
                     />
                     
+                    <BudgetNotice check={codeBudget} />
+
                     <button
-                      onClick={generateCode}
-                      disabled={loading || !imageBase64}
+                      onClick={generateAndReport}
+                      disabled={loading || !imageBase64 || sketchMissing.length > 0 || codeBudget.blocked}
+                      title={sketchMissing.length ? `Fill in ${sketchMissing.join(', ')}` : undefined}
                       className="w-full h-16 bg-black text-white rounded-[24px] font-black text-lg transition-all hover:bg-slate-800 disabled:opacity-20 shadow-2xl shadow-black/10 flex items-center justify-center gap-3"
                     >
                       {loading ? <Loader2 className="animate-spin" /> : <Plus size={24} />}
-                      {loading ? 'Thinking...' : 'Generate Code Sketch'}
+                      {loading ? 'Thinking...' : `Generate ${getTarget(targetId).label}`}
                     </button>
                   </div>
                 </section>
 
-                <section className="space-y-8">
-                  {outputs.length > 0 ? outputs.map(out => (
-                    <CodePreview key={out.id} output={out} onCodeChange={(id, code) => setOutputs(o => o.map(x => x.id === id ? {...x, code} : x))} fullResponse={out.fullResponse} />
+                <section className={`space-y-8 ${compareMode && outputs.length > 1 ? 'lg:col-span-2' : ''}`}>
+                  {outputs.length > 1 && (
+                    <div className="flex p-1.5 bg-white border border-slate-100 rounded-[24px] shadow-sm w-fit">
+                      {([['stack', Rows3, 'Stack'], ['compare', Columns2, 'Compare']] as const).map(([mode, Icon, label]) => (
+                        <button
+                          key={mode}
+                          onClick={() => setCompareMode(mode === 'compare')}
+                          className={`flex items-center gap-2 px-5 py-2.5 rounded-[18px] text-[10px] font-black uppercase transition-all ${compareMode === (mode === 'compare') ? 'bg-black text-white shadow-lg' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                          <Icon size={14} /> {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {compareMode && outputs.length > 1 ? (
+                    <CompareView
+                      outputs={outputs}
+                      imageBase64={imageBase64}
+                      autoScore={autoScore}
+                      onAutoScoreChange={(on) => { setAutoScore(on); localStorage.setItem('autoScore', String(on)); }}
+                      onScore={scoreVariant}
+                      onMove={moveVariant}
+                      onDiscard={(id) => setOutputs(o => o.filter(x => x.id !== id))}
+                      onKeep={keepVariant}
+                    />
+                  ) : outputs.length > 0 ? outputs.map(out => (
+                    <CodePreview
+                      key={out.id}
+                      output={out}
+                      onCodeChange={(id: number, code: string, source: VersionSource = 'manual', note?: string, files?: SketchFile[]) => changeCode(id, x => commitVersion(x, code, source, note, files))}
+                      onCheckoutVersion={(id: number, versionId: number) => changeCode(id, x => checkoutVersion(x, versionId))}
+                      onToggleStar={toggleStar}
+                      onRuntimeChange={(id: number, selection: RuntimeSelection) => setOutputs(o => o.map(x => x.id === id ? { ...x, ...selection } : x))}
+                      fullResponse={out.fullResponse}
+                      imageBase64={imageBase64}
+                      model={getCodeModel()}
+                      refining={refiningIds.includes(out.id)}
+                      onError={reportError}
+                    />
                   )) : (
                     <div className="h-full min-h-[600px] border-4 border-dashed border-slate-100 rounded-[40px] flex flex-col items-center justify-center text-slate-200">
                       <Code size={64} className="mb-6 opacity-20" />
@@ -442,62 +1091,7 @@ export default function Home() {
             )}
 
             {activeTab === 'chat' && (
-              <div className="flex flex-col h-[calc(100vh-200px)] bg-white rounded-[40px] shadow-2xl border border-slate-100 overflow-hidden animate-in zoom-in-95 duration-500">
-                <div className="flex-1 overflow-y-auto p-8 space-y-6">
-                  {chatMessages.length === 0 && (
-                    <div className="h-full flex flex-col items-center justify-center text-slate-200">
-                      <MessageSquare size={64} className="mb-4 opacity-10" />
-                      <p className="font-bold uppercase tracking-widest text-xs">Awaiting input</p>
-                    </div>
-                  )}
-                  {chatMessages.map((m, i) => (
-                    <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
-                      <div className={`max-w-[85%] p-5 rounded-[28px] ${m.role === 'user' ? 'bg-black text-white rounded-tr-none' : 'bg-slate-50 text-slate-800 border border-slate-100 rounded-tl-none'}`}>
-                        <p className="text-sm font-medium leading-relaxed">{m.content}</p>
-                        {m.grounding && m.grounding.length > 0 && (
-                          <div className="mt-4 pt-4 border-t border-slate-200/50 flex flex-wrap gap-2">
-                            {m.grounding.map((g, idx) => (
-                              <a key={idx} href={g.uri} target="_blank" rel="noreferrer" className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white border border-slate-100 text-[10px] font-black uppercase text-blue-600 hover:shadow-sm transition-all">
-                                <Globe size={10} /> {g.title || 'Source'}
-                              </a>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                  <div ref={chatEndRef} />
-                </div>
-
-                <div className="p-6 border-t border-slate-50 bg-white">
-                  <div className="flex items-center gap-3 mb-4 bg-slate-50 p-2 rounded-2xl w-fit">
-                    <button onClick={() => setUseSearch(!useSearch)} className={`px-4 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${useSearch ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>Search</button>
-                    <button onClick={() => setUseMaps(!useMaps)} className={`px-4 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${useMaps ? 'bg-green-600 text-white' : 'text-slate-400'}`}>Maps</button>
-                  </div>
-                  <div className="flex gap-4">
-                    <textarea 
-                      value={userInput}
-                      onChange={e => setUserInput(e.target.value)}
-                      onKeyDown={e => { 
-                        // Submit on Enter, Shift+Enter for new line
-                        if (e.key === 'Enter' && !e.shiftKey) { 
-                          e.preventDefault(); 
-                          handleChat(); 
-                        } 
-                      }}
-                      placeholder="Consult Gemini..."
-                      rows={1}
-                      className="flex-1 p-5 bg-slate-50 rounded-[24px] outline-none focus:bg-white focus:ring-2 focus:ring-black/5 transition-all text-sm font-medium resize-none min-h-[64px] max-h-40"
-                    />
-                    <button onClick={handleChat} disabled={loading || !userInput.trim()} className="w-14 h-14 bg-black text-white rounded-2xl flex items-center justify-center shadow-xl hover:scale-105 active:scale-95 transition-all">
-                      {loading ? <Loader2 className="animate-spin" /> : <Send size={20} />}
-                    </button>
-                  </div>
-                  <div className="flex justify-end px-2 mt-2">
-                    <span className="text-[9px] font-black uppercase text-slate-300 tracking-[0.2em]">{userInput.length} Characters</span>
-                  </div>
-                </div>
-              </div>
+              <ChatPanel imageBase64={imageBase64} onError={reportError} />
             )}
 
             {activeTab === 'media' && (
@@ -509,8 +1103,22 @@ export default function Home() {
                         <button key={t} onClick={() => setMediaType(t as any)} className={`flex-1 py-4 rounded-[22px] text-xs font-black uppercase transition-all ${mediaType === t ? 'bg-white text-black shadow-lg' : 'text-slate-400 hover:text-slate-600'}`}>{t}</button>
                       ))}
                     </div>
-                    <textarea value={userInput} onChange={e => setUserInput(e.target.value)} placeholder="Describe your creation..." className="w-full p-6 bg-slate-50 rounded-[32px] outline-none min-h-[140px] text-sm font-medium" />
-                    <button onClick={generateMedia} disabled={loading} className="w-full h-16 bg-black text-white rounded-[24px] font-black text-lg transition-all hover:scale-[1.01] shadow-xl">{loading ? 'Synthesizing...' : 'Generate Asset'}</button>
+                    <PromptManager
+                      scope="media"
+                      systemPrompt={mediaSystemPrompt}
+                      defaultSystemPrompt=""
+                      onSystemPromptChange={changeMediaPrompt}
+                      activePresetId={mediaPresetId}
+                      onActivePresetChange={p => changeMediaPreset(p?.id || null)}
+                      values={presetValues}
+                      onValuesChange={setPresetValues}
+                      directives={userInput}
+                      onInsertSnippet={insertSnippet}
+                      onError={reportError}
+                    />
+                    <textarea ref={mediaPromptRef} value={userInput} onChange={e => setUserInput(e.target.value)} placeholder="Describe your creation..." className="w-full p-6 bg-slate-50 rounded-[32px] outline-none min-h-[140px] text-sm font-medium" />
+                    <BudgetNotice check={mediaBudget} />
+                    <button onClick={generateMedia} disabled={loading || mediaMissing.length > 0 || mediaBudget.blocked} title={mediaMissing.length ? `Fill in ${mediaMissing.join(', ')}` : undefined} className="w-full h-16 bg-black text-white rounded-[24px] font-black text-lg transition-all hover:scale-[1.01] shadow-xl disabled:opacity-20">{loading ? 'Synthesizing...' : 'Generate Asset'}</button>
                   </div>
                   <div className="w-full lg:w-72 space-y-4">
                     <p className="text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] text-center">Reference Frame</p>
@@ -518,30 +1126,59 @@ export default function Home() {
                       <input {...getInputProps()} />
                       {imageBase64 ? <img src={imageBase64} className="w-full h-full object-cover" /> : <ImageIcon size={40} className="text-slate-200" />}
                     </div>
+                    {images.length > 0 && (
+                      <ImageStrip
+                          images={images}
+                          onMove={moveImage}
+                          onRemove={(id) => setImages(prev => prev.filter(x => x.id !== id))}
+                          onCrop={cropImage}
+                        />
+                    )}
                   </div>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                  {generatedMedia.map((m, i) => (
-                    <div key={i} className="bg-white p-4 rounded-[40px] shadow-lg border border-slate-50 animate-in zoom-in-95">
-                      {m.type === 'image' ? <img src={m.url} className="w-full h-[400px] object-cover rounded-[32px]" /> : <video src={m.url} controls className="w-full h-[400px] object-cover rounded-[32px]" />}
-                    </div>
-                  ))}
-                </div>
+                <AssetLibrary assets={generatedMedia} onUseAsReference={reuseAsset} onSendToGenerator={sendAssetToGenerator} />
               </div>
             )}
 
+            {activeTab === 'history' && (
+              <HistoryPanel
+                view={historyView}
+                onViewChange={setHistoryView}
+                onRestore={(session) => { restoreSession(session); setActiveTab('sketch'); }}
+                onAssetDeleted={(id) => setGeneratedMedia(m => m.filter(x => x.id !== id))}
+                openSessionId={sessionId}
+                onToggleOpenStar={toggleStar}
+                onSessionDeleted={forgetSession}
+                onError={reportHistoryError}
+              />
+            )}
+
+            {activeTab === 'usage' && <UsagePanel onError={reportError} />}
+
             {activeTab === 'live' && (
-              <div className="flex flex-col items-center justify-center min-h-[600px] space-y-12 animate-in fade-in duration-1000">
-                <div className={`w-80 h-80 rounded-[100px] flex items-center justify-center transition-all duration-700 shadow-2xl relative ${isLiveActive ? 'bg-blue-600 scale-110 shadow-blue-500/40' : 'bg-white'}`}>
-                  <Mic size={100} className={`z-10 transition-colors ${isLiveActive ? 'text-white' : 'text-slate-100'}`} />
-                  {isLiveActive && <div className="absolute inset-0 rounded-[100px] border-4 border-blue-400 animate-ping opacity-20" />}
+              <div className="flex flex-col items-center justify-center min-h-[600px] space-y-10 animate-in fade-in duration-1000">
+                <div className={`w-64 h-64 rounded-[90px] flex items-center justify-center transition-all duration-700 shadow-2xl relative ${isLiveActive ? 'bg-blue-600 scale-110 shadow-blue-500/40' : 'bg-white'}`}>
+                  <Mic size={84} className={`z-10 transition-colors ${isLiveActive ? 'text-white' : 'text-slate-100'}`} />
+                  {isLiveActive && <div className="absolute inset-0 rounded-[90px] border-4 border-blue-400 animate-ping opacity-20" />}
                 </div>
                 <div className="text-center">
-                  <h2 className="text-4xl font-black mb-4 tracking-tighter">{isLiveActive ? 'Listening...' : 'Native Audio'}</h2>
-                  <p className="text-slate-400 max-w-sm mx-auto mb-10 font-medium">Real-time voice synthesis and comprehension for an immersive AI dialogue.</p>
-                  <button onClick={toggleLive} className={`px-20 py-5 rounded-[24px] font-black text-xl transition-all ${isLiveActive ? 'bg-red-500 text-white' : 'bg-black text-white shadow-2xl hover:scale-105'}`}>{isLiveActive ? 'End Session' : 'Start Dialogue'}</button>
+                  <h2 className="text-4xl font-black mb-4 tracking-tighter">{isLiveActive ? 'Listening...' : isLiveConnecting ? 'Connecting...' : 'Native Audio'}</h2>
+                  <p className="text-slate-400 max-w-sm mx-auto mb-8 font-medium">Talk through a sketch: ask for a photo, a new sketch or a change and watch the Generator update.</p>
+                  <div className="flex items-center justify-center gap-3">
+                    <select
+                      value={liveVoice}
+                      onChange={e => { setLiveVoice(e.target.value); localStorage.setItem('liveVoice', e.target.value); }}
+                      disabled={isLiveActive || isLiveConnecting}
+                      title="Voice"
+                      className="h-[68px] px-5 rounded-[24px] bg-white border border-slate-100 shadow-sm font-bold text-sm outline-none disabled:opacity-40"
+                    >
+                      {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                    </select>
+                    <button onClick={toggleLive} className={`px-16 py-5 rounded-[24px] font-black text-xl transition-all ${isLiveActive || isLiveConnecting ? 'bg-red-500 text-white' : 'bg-black text-white shadow-2xl hover:scale-105'}`}>{isLiveActive || isLiveConnecting ? 'End Session' : 'Start Dialogue'}</button>
+                  </div>
                 </div>
+                <LiveTranscript turns={transcript} />
               </div>
             )}
           </div>
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { Code, Download, Film, ImagePlus } from 'lucide-react';
+import { Asset, assetFileName, downloadBlob } from '../services/history';
+
+export type LibraryAsset = Asset & { url: string };
+
+interface AssetLibraryProps {
+  assets: LibraryAsset[];
+  /** Makes an image the reference for the next edit; for a video, picks a frame first. */
+  onUseAsReference: (asset: LibraryAsset) => void;
+  onSendToGenerator: (asset: LibraryAsset) => void;
+}
+
+const details = (asset: Asset) =>
+  [asset.mode, asset.model, asset.aspectRatio, asset.imageSize || asset.resolution, asset.references ? `${asset.references} ref` : '', asset.preset]
+    .filter(Boolean) as string[];
+
+const AssetLibrary: React.FC<AssetLibraryProps> = ({ assets, onUseAsReference, onSendToGenerator }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+    {assets.map((asset) => (
+      <div key={asset.id} className="bg-white p-4 rounded-[40px] shadow-lg border border-slate-50 animate-in zoom-in-95">
+        {asset.type === 'image' ? (
+          <img src={asset.url} alt={asset.prompt} className="w-full h-[400px] object-cover rounded-[32px]" />
+        ) : (
+          <video src={asset.url} controls className="w-full h-[400px] object-cover rounded-[32px]" />
+        )}
+        <div className="px-3 pt-4 space-y-3">
+          <p className="text-sm font-medium text-slate-600 line-clamp-2" title={asset.prompt}>{asset.prompt || 'Untitled'}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {details(asset).map((detail) => (
+              <span key={detail} className="px-2.5 py-1 rounded-full bg-slate-50 text-[10px] font-bold text-slate-500">{detail}</span>
+            ))}
+            <span className="px-2.5 py-1 text-[10px] font-bold text-slate-300">{new Date(asset.createdAt).toLocaleString()}</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => downloadBlob(asset.blob, assetFileName(asset))}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-full border border-slate-100 text-[10px] font-black uppercase text-slate-500 hover:text-black"
+            >
+              <Download size={12} /> Download
+            </button>
+            <button
+              onClick={() => onUseAsReference(asset)}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-full border border-slate-100 text-[10px] font-black uppercase text-slate-500 hover:text-black"
+            >
+              {asset.type === 'image' ? <ImagePlus size={12} /> : <Film size={12} />} {asset.type === 'image' ? 'Edit this' : 'Pick frame'}
+            </button>
+            {asset.type === 'image' && (
+              <button
+                onClick={() => onSendToGenerator(asset)}
+                className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-black text-white text-[10px] font-black uppercase"
+              >
+                <Code size={12} /> Send to Generator
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default AssetLibrary;
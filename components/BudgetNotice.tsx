@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { AlertTriangle, Ban } from 'lucide-react';
+import type { BudgetCheck } from '../services/usage';
+
+/** Shown before a run that would go over a budget; nothing otherwise. */
+const BudgetNotice: React.FC<{ check: BudgetCheck }> = ({ check }) =>
+  check.message ? (
+    <div
+      className={`flex items-start gap-2 px-4 py-3 rounded-[20px] text-xs font-bold ${
+        check.blocked ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-700'
+      }`}
+    >
+      {check.blocked ? <Ban size={14} className="shrink-0 mt-0.5" /> : <AlertTriangle size={14} className="shrink-0 mt-0.5" />}
+      <span>
+        {check.message} {check.blocked ? 'Raise the budget on the Usage tab to continue.' : ''}
+      </span>
+    </div>
+  ) : null;
+
+export default BudgetNotice;
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useState } from 'react';
+import { Camera, Circle, Loader2 } from 'lucide-react';
+import {
+  CAPTURE_FPS,
+  CAPTURE_WIDTHS,
+  CaptureFormat,
+  CaptureOptions,
+  MAX_GIF_FRAMES,
+  MAX_GIF_WIDTH,
+  MAX_RECORD_SECONDS,
+  capturePreview,
+  gifWidth,
+  loadCaptureOptions,
+  saveCaptureOptions,
+} from '../services/capture';
+import { downloadBlob } from '../services/history';
+import type { PreviewConnection } from '../services/previewChannel';
+
+interface CaptureBarProps {
+  /** The running preview's connection, read when a capture starts. */
+  getConnection: () => PreviewConnection | null;
+  /** File name without extension. */
+  fileName: string;
+  disabled?: boolean;
+  onError: (e: unknown, context?: { feature: string }, retry?: () => void) => void;
+}
+
+const FORMATS: { id: CaptureFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'webm', label: 'WebM' },
+  { id: 'gif', label: 'GIF' },
+];
+
+/** Saves the preview's current frame, or records its canvas for a few seconds. */
+const CaptureBar: React.FC<CaptureBarProps> = ({ getConnection, fileName, disabled, onError }) => {
+  const [options, setOptions] = useState<CaptureOptions>(loadCaptureOptions);
+  const [busy, setBusy] = useState(false);
+  const [remaining, setRemaining] = useState(0);
+
+  useEffect(() => {
+    if (remaining <= 0) return;
+    const timer = setTimeout(() => setRemaining((r) => r - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [remaining]);
+
+  const change = (patch: Partial<CaptureOptions>) => {
+    const next = { ...options, ...patch };
+    setOptions(next);
+    saveCaptureOptions(next);
+  };
+
+  const recording = options.format !== 'png';
+  const gif = options.format === 'gif';
+  // GIFs are recorded at most MAX_GIF_WIDTH wide, so wider choices aren't offered.
+  const widths = gif ? CAPTURE_WIDTHS.filter((w) => w && w <= MAX_GIF_WIDTH) : CAPTURE_WIDTHS;
+  const maxSeconds = gif ? Math.min(MAX_RECORD_SECONDS, Math.floor(MAX_GIF_FRAMES / options.fps)) : MAX_RECORD_SECONDS;
+
+  const capture = async () => {
+    const connection = getConnection();
+    if (!connection) return;
+    setBusy(true);
+    if (recording) setRemaining(options.seconds);
+    try {
+      const blob = await capturePreview(connection, options);
+      downloadBlob(blob, `${fileName}.${options.format}`);
+    } catch (e) {
+      onError(e, { feature: 'capture' }, capture);
+    } finally {
+      setBusy(false);
+      setRemaining(0);
+    }
+  };
+
+  const select = 'px-2 py-1 rounded-full text-[11px] font-bold border border-gray-200 bg-white outline-none';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white/50 p-2 rounded-2xl border border-gray-200">
+      <div className="flex rounded-full bg-gray-200 p-0.5">
+        {FORMATS.map((f) => (
+          <button
+            key={f.id}
+            onClick={() => change({ format: f.id })}
+            className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all ${
+              options.format === f.id ? 'bg-black text-white' : 'text-gray-500 hover:text-black'
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+      <select value={gif ? gifWidth(options.width) : options.width} onChange={(e) => change({ width: Number(e.target.value) })} title="Width" className={select}>
+        {widths.map((w) => (
+          <option key={w} value={w}>{w ? `${w}px wide` : 'Canvas size'}</option>
+        ))}
+      </select>
+      {recording && (
+        <>
+          <label className="inline-flex items-center gap-1 text-[11px] font-bold text-gray-500">
+            <input
+              type="number"
+              min={1}
+              max={maxSeconds}
+              value={options.seconds}
+              onChange={(e) => change({ seconds: Math.min(maxSeconds, Math.max(1, Number(e.target.value) || 1)) })}
+              className={`${select} w-14`}
+            />
+            s
+          </label>
+          <select value={options.fps} onChange={(e) => change({ fps: Number(e.target.value) })} title="Frame rate" className={select}>
+            {CAPTURE_FPS.map((fps) => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+        </>
+      )}
+      <button
+        onClick={capture}
+        disabled={disabled || busy}
+        className="ml-auto px-3 py-1 rounded-full text-[11px] font-bold border bg-black text-white border-black inline-flex items-center gap-1.5 disabled:opacity-30"
+      >
+        {busy ? <Loader2 size={10} className="animate-spin" /> : recording ? <Circle size={10} className="fill-red-500 text-red-500" /> : <Camera size={10} />}
+        {busy ? (remaining > 0 ? `Recording… ${remaining}s` : 'Saving…') : recording ? `Record ${options.seconds}s` : 'Save frame'}
+      </button>
+    </div>
+  );
+};
+
+export default CaptureBar;
@@ -0,0 +1,434 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Loader2, Square, Plus, Pencil, Trash2, Check, Paperclip, LocateFixed } from 'lucide-react';
+import type { GenerateContentResponse } from '@google/genai';
+import BudgetNotice from './BudgetNotice';
+import GroundingSources from './GroundingSources';
+import Markdown from './Markdown';
+import PromptManager from './PromptManager';
+import { getProvider } from '../services/providers';
+import {
+  ChatMessage,
+  Conversation,
+  deleteConversation,
+  loadConversations,
+  renameConversation,
+  saveConversation,
+  titleFromMessages,
+} from '../services/conversations';
+import { ErrorContext, checkResponse, normalizeError } from '../services/errors';
+import { ChatGrounding, citeAnswer, citedSource, readGrounding } from '../services/grounding';
+import { imagePart } from '../services/images';
+import { isCancelled } from '../services/jobs';
+import {
+  LatLng,
+  LocationMode,
+  LocationSetting,
+  browserLocation,
+  loadLocationSetting,
+  resolveLocation,
+  saveLocationSetting,
+} from '../services/location';
+import { hasCapability } from '../services/models';
+import { generationConfig, getFeatureModel, getModelInfo } from '../services/settings';
+import { checkBudget, estimateRunCost, recordUsage, usageFromResponse } from '../services/usage';
+import { fillPlaceholders, loadPresets, missingPlaceholders, placeholderNames } from '../services/presets';
+
+const SYSTEM_PROMPT_KEY = 'savedPrompt:chat';
+const PRESET_KEY = `${SYSTEM_PROMPT_KEY}:preset`;
+
+interface ChatPanelProps {
+  /** The Generator's current upload, which a turn can attach to ask about it. */
+  imageBase64?: string;
+  onError: (e: unknown, context?: ErrorContext) => void;
+}
+
+const LOCATION_MODES: { id: LocationMode; label: string }[] = [
+  { id: 'browser', label: 'My location' },
+  { id: 'manual', label: 'Custom' },
+  { id: 'off', label: 'Anywhere' },
+];
+
+/** Citation markers from citeAnswer, shown as superscript links to their source. */
+const citationLinks = (grounding?: ChatGrounding) => ({
+  a: ({ children, href }: { children?: React.ReactNode; href?: string }) => {
+    const source = grounding?.sources[citedSource(href)];
+    if (!source) {
+      return (
+        <a href={href} target="_blank" rel="noreferrer" className="text-blue-600 underline underline-offset-2">
+          {children}
+        </a>
+      );
+    }
+    return (
+      <a href={source.uri} target="_blank" rel="noreferrer" title={source.title} className="no-underline">
+        <sup className={`ml-0.5 px-1 rounded text-[9px] font-black ${source.kind === 'maps' ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-600'}`}>
+          {children}
+        </sup>
+      </a>
+    );
+  },
+});
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ imageBase64, onError }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>(loadConversations);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [input, setInput] = useState('');
+  const [streaming, setStreaming] = useState(false);
+  const [useSearch, setUseSearch] = useState(false);
+  const [useMaps, setUseMaps] = useState(false);
+  const [location, setLocation] = useState<LocationSetting>(loadLocationSetting);
+  const [locating, setLocating] = useState(false);
+  // Set when the browser wouldn't share its position and Maps searched without one.
+  const [locationNotice, setLocationNotice] = useState('');
+  const [attachImage, setAttachImage] = useState(false);
+  const [systemPrompt, setSystemPrompt] = useState(() => localStorage.getItem(SYSTEM_PROMPT_KEY) || '');
+  const [presetId, setPresetId] = useState<string | null>(() => localStorage.getItem(PRESET_KEY));
+  const [presetValues, setPresetValues] = useState<Record<string, string>>({});
+  // Maps grounding needs a model that supports it, picked separately in settings.
+  const replyModel = getFeatureModel(useMaps ? 'maps' : 'chat');
+  const canSearch = hasCapability(getModelInfo(replyModel), 'search');
+  const budget = checkBudget(
+    estimateRunCost('chat', replyModel, 1, { thinkingTokens: generationConfig(replyModel).thinkingConfig?.thinkingBudget || 0 }),
+  );
+  const missing = missingPlaceholders(placeholderNames(systemPrompt, input), presetValues);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set when the conversation whose reply is streaming is deleted, so the reply isn't saved back.
+  const deletedRef = useRef<string | null>(null);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const changeSystemPrompt = (text: string) => {
+    setSystemPrompt(text);
+    localStorage.setItem(SYSTEM_PROMPT_KEY, text);
+  };
+
+  const changePreset = (id: string | null) => {
+    setPresetId(id);
+    if (id) localStorage.setItem(PRESET_KEY, id);
+    else localStorage.removeItem(PRESET_KEY);
+  };
+
+  const changeLocation = (next: LocationSetting) => {
+    setLocation(next);
+    saveLocationSetting(next);
+  };
+
+  /** Fills the custom location from the browser, as a starting point to adjust. */
+  const locateMe = async () => {
+    setLocating(true);
+    try {
+      changeLocation({ mode: 'manual', manual: await browserLocation() });
+    } catch (e) {
+      onError(e, { feature: 'location' });
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const persist = (id: string, next: ChatMessage[]) => {
+    // Read from storage, not state: the conversation may have been renamed while the reply streamed.
+    const existing = loadConversations().find(c => c.id === id);
+    const preset = presetId ? loadPresets().find(p => p.id === presetId) : undefined;
+    setConversations(saveConversation({
+      id,
+      title: existing?.title || titleFromMessages(next),
+      messages: next,
+      updatedAt: Date.now(),
+      preset: preset ? { id: preset.id, name: preset.name, values: presetValues } : existing?.preset,
+    }));
+  };
+
+  const handleSend = async () => {
+    const msg = fillPlaceholders(input, presetValues).trim();
+    if (!msg || streaming || missing.length > 0 || budget.blocked) return;
+    const id = conversationId || `chat-${Date.now()}`;
+    setConversationId(id);
+
+    const image = attachImage && imageBase64 ? imageBase64 : undefined;
+    const history: ChatMessage[] = [...messages, { role: 'user', content: msg, image }];
+    setMessages([...history, { role: 'assistant', content: '' }]);
+    setInput('');
+    setAttachImage(false);
+    setStreaming(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let content = '';
+    let grounding: ChatGrounding | undefined;
+    // Streams report cumulative usage, so the last chunk that has it counts.
+    let usage: GenerateContentResponse | undefined;
+    try {
+      const tools: any[] = [];
+      if (useSearch && canSearch) tools.push({ googleSearch: {} });
+      if (useMaps) tools.push({ googleMaps: {} });
+
+      const config: any = { ...generationConfig(replyModel), tools: tools.length > 0 ? tools : undefined };
+      const system = fillPlaceholders(systemPrompt, presetValues).trim();
+      if (system) config.systemInstruction = system;
+      if (useMaps) {
+        let latLng: LatLng | null = null;
+        try {
+          latLng = await resolveLocation(location);
+          setLocationNotice('');
+        } catch (e) {
+          // A denied or missing browser location shouldn't cost the answer; a bad custom one is the user's to fix.
+          if (location.mode !== 'browser') throw e;
+          setLocationNotice(`${normalizeError(e).message} Searched without a location.`);
+        }
+        if (latLng) config.toolConfig = { retrievalConfig: { latLng } };
+      }
+
+      const stream = await getProvider().generateContentStream({
+        model: replyModel,
+        contents: history.map(m => ({
+          role: m.role === 'user' ? 'user' : 'model',
+          parts: [...(m.image ? [imagePart(m.image)] : []), { text: m.content }],
+        })),
+        config: { ...config, abortSignal: controller.signal },
+      });
+
+      for await (const chunk of stream) {
+        if (chunk.usageMetadata) usage = chunk;
+        checkResponse(chunk);
+        content += chunk.text || '';
+        grounding = readGrounding(chunk.candidates?.[0]?.groundingMetadata, grounding);
+        setMessages([...history, { role: 'assistant', content, grounding }]);
+      }
+    } catch (e) {
+      if (!isCancelled(e)) onError(e, { feature: 'chat', model: replyModel, prompt: msg });
+    } finally {
+      if (usage) recordUsage('chat', replyModel, usageFromResponse(usage), null);
+      const final: ChatMessage[] = content
+        ? [...history, { role: 'assistant', content, grounding, stopped: controller.signal.aborted || undefined }]
+        : history;
+      if (deletedRef.current === id) {
+        deletedRef.current = null;
+        setConversationId(null);
+        setMessages([]);
+      } else {
+        setMessages(final);
+        persist(id, final);
+      }
+      abortRef.current = null;
+      setStreaming(false);
+    }
+  };
+
+  const startNew = () => {
+    if (streaming) return;
+    setConversationId(null);
+    setMessages([]);
+  };
+
+  const open = (c: Conversation) => {
+    if (streaming) return;
+    setConversationId(c.id);
+    setMessages(c.messages);
+  };
+
+  const remove = (id: string) => {
+    if (streaming && id === conversationId) {
+      deletedRef.current = id;
+      abortRef.current?.abort();
+    }
+    setConversations(deleteConversation(id));
+    if (id === conversationId) startNew();
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) setConversations(renameConversation(renamingId, renameValue.trim()));
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="flex h-[calc(100vh-200px)] bg-white rounded-[40px] shadow-2xl border border-slate-100 overflow-hidden animate-in zoom-in-95 duration-500">
+      {/* Saved conversations */}
+      <aside className="hidden md:flex w-60 flex-col border-r border-slate-50 bg-slate-50/50">
+        <div className="p-4">
+          <button onClick={startNew} disabled={streaming} className="w-full flex items-center justify-center gap-2 py-3 rounded-2xl bg-black text-white text-xs font-black uppercase disabled:opacity-20">
+            <Plus size={14} /> New chat
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto px-3 pb-4 space-y-1">
+          {conversations.map(c => (
+            <div key={c.id} className={`group flex items-center gap-1 px-3 py-2.5 rounded-xl text-xs font-bold transition-all ${c.id === conversationId ? 'bg-white shadow-sm text-black' : 'text-slate-500 hover:bg-white/70'}`}>
+              {renamingId === c.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={e => setRenameValue(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                    onBlur={commitRename}
+                    className="flex-1 min-w-0 bg-transparent outline-none border-b border-slate-300"
+                  />
+                  <button onMouseDown={commitRename} className="text-slate-400 hover:text-black"><Check size={12} /></button>
+                </>
+              ) : (
+                <>
+                  <button onClick={() => open(c)} className="flex-1 min-w-0 text-left truncate">{c.title}</button>
+                  <button onClick={() => { setRenamingId(c.id); setRenameValue(c.title); }} title="Rename" className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-black"><Pencil size={12} /></button>
+                  <button onClick={() => remove(c.id)} title="Delete" className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500"><Trash2 size={12} /></button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </aside>
+
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="px-8 pt-6">
+          <PromptManager
+            scope="chat"
+            systemPrompt={systemPrompt}
+            defaultSystemPrompt=""
+            onSystemPromptChange={changeSystemPrompt}
+            activePresetId={presetId}
+            onActivePresetChange={p => changePreset(p?.id || null)}
+            values={presetValues}
+            onValuesChange={setPresetValues}
+            directives={input}
+            onInsertSnippet={text => setInput(i => (i.trim() ? `${i.trimEnd()}\n${text}` : text))}
+            onError={onError}
+          />
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          {messages.length === 0 && (
+            <div className="h-full flex flex-col items-center justify-center text-slate-200">
+              <MessageSquare size={64} className="mb-4 opacity-10" />
+              <p className="font-bold uppercase tracking-widest text-xs">Awaiting input</p>
+            </div>
+          )}
+          {messages.map((m, i) => (
+            <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
+              <div className={`max-w-[85%] p-5 rounded-[28px] ${m.role === 'user' ? 'bg-black text-white rounded-tr-none' : 'bg-slate-50 text-slate-800 border border-slate-100 rounded-tl-none'}`}>
+                {m.role === 'user' ? (
+                  <>
+                    {m.image && <img src={m.image} alt="Attached" className="mb-3 max-h-40 rounded-2xl" />}
+                    <p className="text-sm font-medium leading-relaxed whitespace-pre-wrap">{m.content}</p>
+                  </>
+                ) : m.content ? (
+                  <div className="text-sm font-medium">
+                    <Markdown overrides={citationLinks(m.grounding)}>{citeAnswer(m.content, m.grounding)}</Markdown>
+                  </div>
+                ) : (
+                  <Loader2 className="animate-spin text-slate-300" size={16} />
+                )}
+                {m.stopped && <p className="mt-2 text-[10px] font-black uppercase text-slate-300 tracking-wider">Stopped</p>}
+                {m.grounding && <GroundingSources grounding={m.grounding} />}
+              </div>
+            </div>
+          ))}
+          <div ref={chatEndRef} />
+        </div>
+
+        <div className="p-6 border-t border-slate-50 bg-white">
+          <div className="flex items-center gap-3 mb-4 bg-slate-50 p-2 rounded-2xl w-fit">
+            <button onClick={() => setUseSearch(!useSearch)} disabled={!canSearch} title={canSearch ? undefined : 'The selected chat model has no Search grounding'} className={`px-4 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all disabled:opacity-30 ${useSearch && canSearch ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>Search</button>
+            <button onClick={() => setUseMaps(!useMaps)} className={`px-4 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${useMaps ? 'bg-green-600 text-white' : 'text-slate-400'}`}>Maps</button>
+            {imageBase64 && (
+              <button
+                onClick={() => setAttachImage(!attachImage)}
+                title="Send the uploaded image with the next message"
+                className={`flex items-center gap-1.5 px-4 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${attachImage ? 'bg-black text-white' : 'text-slate-400'}`}
+              >
+                <Paperclip size={10} /> Image
+              </button>
+            )}
+          </div>
+          {useMaps && (
+            <div className="flex flex-wrap items-center gap-2 mb-4 -mt-2 text-[10px] font-black uppercase text-slate-400">
+              <span>Near</span>
+              {LOCATION_MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => changeLocation({ ...location, mode: mode.id })}
+                  className={`px-3 py-1 rounded-lg transition-all ${location.mode === mode.id ? 'bg-green-50 text-green-700' : 'hover:text-black'}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+              {location.mode === 'manual' && (
+                <>
+                  {(['latitude', 'longitude'] as const).map(axis => (
+                    <input
+                      key={axis}
+                      type="number"
+                      step="any"
+                      value={Number.isFinite(location.manual?.[axis]) ? location.manual![axis] : ''}
+                      onChange={e =>
+                        changeLocation({
+                          ...location,
+                          manual: { latitude: NaN, longitude: NaN, ...location.manual, [axis]: e.target.valueAsNumber },
+                        })
+                      }
+                      placeholder={axis === 'latitude' ? 'Latitude' : 'Longitude'}
+                      className="w-24 px-2 py-1 rounded-lg bg-slate-50 outline-none text-slate-700 font-medium normal-case"
+                    />
+                  ))}
+                  <button onClick={locateMe} disabled={locating} title="Start from where you are" className="flex items-center gap-1 hover:text-black disabled:opacity-30">
+                    {locating ? <Loader2 size={10} className="animate-spin" /> : <LocateFixed size={10} />} Locate me
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          {useMaps && locationNotice && location.mode === 'browser' && (
+            <p className="mb-4 -mt-2 text-[10px] font-bold text-amber-600">{locationNotice}</p>
+          )}
+          {attachImage && imageBase64 && (
+            <div className="mb-4 flex items-center gap-3">
+              <img src={imageBase64} alt="To attach" className="h-12 rounded-xl" />
+              <span className="text-[10px] font-black uppercase text-slate-400">Sent with your next message</span>
+            </div>
+          )}
+          {budget.message && (
+            <div className="mb-4">
+              <BudgetNotice check={budget} />
+            </div>
+          )}
+          <div className="flex gap-4">
+            <textarea
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              onKeyDown={e => {
+                // Submit on Enter, Shift+Enter for new line
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              placeholder="Consult Gemini..."
+              rows={1}
+              className="flex-1 p-5 bg-slate-50 rounded-[24px] outline-none focus:bg-white focus:ring-2 focus:ring-black/5 transition-all text-sm font-medium resize-none min-h-[64px] max-h-40"
+            />
+            {streaming ? (
+              <button onClick={() => abortRef.current?.abort()} title="Stop generating" className="w-14 h-14 bg-red-500 text-white rounded-2xl flex items-center justify-center shadow-xl hover:scale-105 active:scale-95 transition-all">
+                <Square size={18} fill="currentColor" />
+              </button>
+            ) : (
+              <button onClick={handleSend} disabled={!input.trim() || missing.length > 0 || budget.blocked} title={missing.length ? `Fill in ${missing.join(', ')}` : undefined} className="w-14 h-14 bg-black text-white rounded-2xl flex items-center justify-center shadow-xl hover:scale-105 active:scale-95 transition-all">
+                <Send size={20} />
+              </button>
+            )}
+          </div>
+          <div className="flex justify-end px-2 mt-2">
+            <span className="text-[9px] font-black uppercase text-slate-300 tracking-[0.2em]">{input.length} Characters</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
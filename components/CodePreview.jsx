@@ -19,7 +19,7 @@
  * limitations under the License.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useEffectEvent, useMemo, useRef } from 'react';
 import {
   Code2,
   Play,
@@ -33,62 +33,67 @@ import {
   Hash,
   Type,
   ExternalLink,
-  Library,
+  Wrench,
+  History,
+  Undo2,
+  Wand2,
+  RotateCw,
+  Star,
+  TextSelect,
 } from 'lucide-react';
 import Editor from '@monaco-editor/react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import ToggleButton from './ToggleButton';
-import { GoogleGenAI } from '@google/genai';
-import JSZip from 'jszip';
-
-const P5_DOCS_MAP = {
-  setup: 'https://p5js.org/reference/#/p5/setup',
-  draw: 'https://p5js.org/reference/#/p5/draw',
-  createCanvas: 'https://p5js.org/reference/#/p5/createCanvas',
-  background: 'https://p5js.org/reference/#/p5/background',
-  fill: 'https://p5js.org/reference/#/p5/fill',
-  stroke: 'https://p5js.org/reference/#/p5/stroke',
-  noStroke: 'https://p5js.org/reference/#/p5/noStroke',
-  noFill: 'https://p5js.org/reference/#/p5/noFill',
-  rect: 'https://p5js.org/reference/#/p5/rect',
-  ellipse: 'https://p5js.org/reference/#/p5/ellipse',
-  line: 'https://p5js.org/reference/#/p5/line',
-  triangle: 'https://p5js.org/reference/#/p5/triangle',
-  random: 'https://p5js.org/reference/#/p5/random',
-  noise: 'https://p5js.org/reference/#/p5/noise',
-  translate: 'https://p5js.org/reference/#/p5/translate',
-  rotate: 'https://p5js.org/reference/#/p5/rotate',
-  scale: 'https://p5js.org/reference/#/p5/scale',
-  push: 'https://p5js.org/reference/#/p5/push',
-  pop: 'https://p5js.org/reference/#/p5/pop',
-  map: 'https://p5js.org/reference/#/p5/map',
-  dist: 'https://p5js.org/reference/#/p5/dist',
-  lerp: 'https://p5js.org/reference/#/p5/lerp',
-  colorMode: 'https://p5js.org/reference/#/p5/colorMode',
-  beginShape: 'https://p5js.org/reference/#/p5/beginShape',
-  endShape: 'https://p5js.org/reference/#/p5/endShape',
-  vertex: 'https://p5js.org/reference/#/p5/vertex',
-  filter: 'https://p5js.org/reference/#/p5/filter',
-  image: 'https://p5js.org/reference/#/p5/image',
-};
+import { getFeatureModel } from '../services/settings';
+import { logError, normalizeError } from '../services/errors';
+import { isCancelled, runSingleJob } from '../services/jobs';
+import { explainSketch, linkLineReferences, refineSketch, repairSketch } from '../services/sketchOps';
+import { installTypes, referenceLinks } from '../services/apiReference';
+import { previousVersion } from '../services/versions';
+import { getTarget, languageForFile, locateInPreview } from '../services/targets';
+import {
+  HEARTBEAT_TIMEOUT_MS,
+  MAX_CONSOLE_ENTRIES,
+  PREVIEW_SANDBOX,
+  connectPreview,
+  createChannelId,
+} from '../services/previewChannel';
+import ConsolePanel from './ConsolePanel';
+import TweakPanel from './TweakPanel';
+import { applyTweaks, detectTweaks, instrumentTweaks } from '../services/tweaks';
+import VersionTimeline from './VersionTimeline';
+import LibraryBar from './LibraryBar';
+import CaptureBar from './CaptureBar';
+import { downloadBlob } from '../services/history';
+import { exportSketch, formatsFor, openInCodePen } from '../services/exports';
+import { getVendorExports, outputSelection, resolveSelection, setVendorExports } from '../services/libraries';
 
-const AVAILABLE_LIBRARIES = [
-  { id: 'p5.sound', name: 'p5.sound', url: 'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/addons/p5.sound.min.js' },
-  { id: 'p5.play', name: 'p5.play (v3)', url: 'https://cdn.jsdelivr.net/npm/p5.play@3.1.0/dist/p5.play.js' },
-  { id: 'p5.ascii', name: 'p5.ascii', url: 'https://cdn.jsdelivr.net/npm/p5.ascii@0.1.0/dist/p5.ascii.min.js' },
-];
+/** Closes a preview connection that belongs to a document which is gone or being replaced. */
+const dropConnection = (connectionRef) => {
+  connectionRef.current?.close();
+  connectionRef.current = null;
+};
 
 const CodePreview = (props) => {
-  const { output, onCodeChange, fullResponse } = props;
+  const { output, onCodeChange, onCheckoutVersion, onToggleStar, onRuntimeChange, fullResponse, imageBase64, model, refining, onError } = props;
+  const target = getTarget(output.target);
   const [showCode, setShowCode] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [showReasoning, setShowReasoning] = useState(false);
   const [showExplanation, setShowExplanation] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
   const [explanation, setExplanation] = useState('');
   const [isExplaining, setIsExplaining] = useState(false);
   const [detectedDocs, setDetectedDocs] = useState([]);
-  const [selectedLibraries, setSelectedLibraries] = useState([]);
+  // What the explanation covers: null for the whole sketch, else the selected lines of a file.
+  const [explainedRange, setExplainedRange] = useState(null);
+  const [hasSelection, setHasSelection] = useState(false);
+  const explainSelectionRef = useRef(null);
+  const selection = outputSelection(output);
+  const [vendorExports, setVendorExportsState] = useState(getVendorExports);
+  const [exportFormat, setExportFormat] = useState('zip');
+  const [isExporting, setIsExporting] = useState(false);
 
   // Editor Settings State
   const [editorSettings, setEditorSettings] = useState({
@@ -100,24 +105,275 @@ const CodePreview = (props) => {
   const [sketchStatus, setSketchStatus] = useState('idle'); // idle, loading, success, error
   const [sketchError, setSketchError] = useState('');
 
-  // Listen for messages from the iframe
-  useEffect(() => {
-    const handleMessage = (event) => {
-      if (event.data?.type === 'SKETCH_STATUS') {
-        const { status, message, id } = event.data;
-        // Ensure the message is from the correct output instance
-        if (id === output.id) {
-          setSketchStatus(status);
-          if (status === 'error') {
-            setSketchError(message || 'Unknown execution error');
-          }
-        }
+  // Self-repair state. A run starts from "Fix it" (or automatically) and keeps
+  // retrying on each new error until the sketch runs or attempts are used up.
+  const [autoRepair, setAutoRepair] = useState(false);
+  const [maxRepairAttempts, setMaxRepairAttempts] = useState(3);
+  const [repairLog, setRepairLog] = useState([]);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const repairRunRef = useRef({ active: false, attempts: 0 });
+  const [previewNonce, setPreviewNonce] = useState(0);
+
+  // Refinement state
+  const [instruction, setInstruction] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  // A refine asked for by voice runs in Home; refineBusy covers both.
+  const refineBusy = isRefining || refining;
+
+  // Multi-file projects: null means the target's entry file is open.
+  const [activeFile, setActiveFile] = useState(null);
+  const extraFiles = output.files || [];
+  const openFile = extraFiles.find((f) => f.name === activeFile);
+
+  // Sandboxed preview: each loaded document gets its own MessagePort.
+  const frameRef = useRef(null);
+  const channelRef = useRef(createChannelId());
+  const connectionRef = useRef(null);
+  // When the connected document last spoke; 0 until its first message, so the watchdog only judges documents it has heard from.
+  const lastSeenRef = useRef(0);
+  const previewHtmlRef = useRef('');
+  const [consoleEntries, setConsoleEntries] = useState([]);
+  const [halted, setHalted] = useState(false);
+
+  // Tweak panel: values changed in the panel but not yet baked into the code.
+  // Tweaks read only at start-up restart the preview with `restartValues`.
+  const tweaks = useMemo(
+    () => (target.language === 'javascript' ? detectTweaks(output.code || '') : []),
+    [output.code, target],
+  );
+  const [tweakValues, setTweakValues] = useState({});
+  const [restartValues, setRestartValues] = useState({});
+  const tweakValuesRef = useRef(tweakValues);
+  tweakValuesRef.current = tweakValues;
+  const restartTimerRef = useRef(null);
+
+  // Editor handles for runtime error markers and jump-to-line.
+  const editorRef = useRef(null);
+  const monacoRef = useRef(null);
+  const [editorMounts, setEditorMounts] = useState(0);
+  const [reveal, setReveal] = useState(null);
+
+  const handlePreviewMessage = (message, html) => {
+    lastSeenRef.current = Date.now();
+    if (message?.type === 'status') {
+      setSketchStatus(message.status);
+      if (message.status === 'error') {
+        setSketchError(message.message || 'Unknown execution error');
       }
+    } else if (message?.type === 'console') {
+      const entries = message.entries.map((entry) => {
+        const location = entry.line ? locateInPreview(html, entry.line) : null;
+        return location ? { ...entry, location: { ...location, column: entry.column } } : entry;
+      });
+      setConsoleEntries((prev) => [...prev, ...entries].slice(-MAX_CONSOLE_ENTRIES));
+    }
+  };
+
+  const handleFrameLoad = () => {
+    dropConnection(connectionRef);
+    setConsoleEntries([]);
+    lastSeenRef.current = 0;
+    const html = previewHtmlRef.current;
+    const connection = connectPreview(frameRef.current, channelRef.current, (message) =>
+      handlePreviewMessage(message, html),
+    );
+    // Re-apply live tweaks, which a reload would otherwise lose.
+    Object.entries(tweakValuesRef.current).forEach(([name, value]) => connection.send({ type: 'tweak', name, value }));
+    connectionRef.current = connection;
+  };
+
+  // The frame unmounts whenever Code, History, Reasoning or Explain replaces the preview; its connection goes with it.
+  const attachFrame = useCallback((frame) => {
+    frameRef.current = frame;
+    lastSeenRef.current = 0;
+    return () => {
+      frameRef.current = null;
+      dropConnection(connectionRef);
     };
+  }, []);
 
-    window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
-  }, [output.id]);
+  // Watchdog: a sketch stuck in a loop stops sending heartbeats, so tear its document down.
+  useEffect(() => {
+    if (halted) return;
+    const timer = setInterval(() => {
+      if (!frameRef.current || !connectionRef.current || !lastSeenRef.current) return;
+      if (document.hidden) {
+        // Background tabs throttle the preview's timers; don't mistake that for a hang.
+        lastSeenRef.current = Date.now();
+        return;
+      }
+      if (Date.now() - lastSeenRef.current < HEARTBEAT_TIMEOUT_MS) return;
+      dropConnection(connectionRef);
+      setHalted(true);
+      setSketchStatus('error');
+      setSketchError(`Preview stopped responding for ${HEARTBEAT_TIMEOUT_MS / 1000}s and was halted. Look for a loop that never ends.`);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [halted]);
+
+  const updateLastAttempt = (status) => {
+    setRepairLog((log) => log.map((entry, i) => (i === log.length - 1 ? { ...entry, status } : entry)));
+  };
+
+  const runRepair = async () => {
+    const run = repairRunRef.current;
+    if (!run.active) {
+      run.active = true;
+      run.attempts = 0;
+    }
+    run.attempts += 1;
+    const error = sketchError;
+    setIsRepairing(true);
+    setRepairLog((log) => [...log, { attempt: run.attempts, error, status: 'fixing', at: Date.now() }]);
+    try {
+      await runSingleJob({
+        kind: 'repair',
+        label: `Fix: ${error}`,
+        run: async (_, signal) => {
+          const result = await repairSketch({ target, model, code: output.code, files: extraFiles, selection, error, imageBase64, signal });
+          updateLastAttempt('applied');
+          onCodeChange(output.id, result.code, 'repair', `Fix: ${error}`, result.files);
+          // Re-run the preview even if the model returned identical code.
+          setPreviewNonce((n) => n + 1);
+        },
+      });
+    } catch (err) {
+      const failure = normalizeError(err, { feature: 'repair', model, prompt: error });
+      run.active = false;
+      if (failure.category === 'budget') {
+        // Retrying can't help until the budget changes, so automatic repairs stop and say why.
+        setAutoRepair(false);
+        updateLastAttempt('over budget');
+        onError?.(failure);
+        return;
+      }
+      // Repairs run unattended, so a failure is logged rather than shown.
+      if (!isCancelled(err)) logError(failure);
+      updateLastAttempt(isCancelled(err) ? 'cancelled' : 'failed');
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  // Drive the repair loop from the preview status reported by the iframe.
+  const continueRepair = useEffectEvent(() => {
+    if (isRepairing) return;
+    const run = repairRunRef.current;
+    if (run.active && run.attempts >= maxRepairAttempts) {
+      run.active = false;
+      updateLastAttempt('gave up');
+    } else if (run.active || autoRepair) {
+      runRepair();
+    }
+  });
+  useEffect(() => {
+    if (sketchStatus === 'error') continueRepair();
+  }, [sketchStatus, sketchError]);
+
+  // Success is reported shortly after setup(); wait a moment for draw() errors before calling it fixed.
+  useEffect(() => {
+    if (sketchStatus !== 'success' || !repairRunRef.current.active) return;
+    const timer = setTimeout(() => {
+      repairRunRef.current.active = false;
+      updateLastAttempt('resolved');
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [sketchStatus]);
+
+  // New code gets a fresh run and starts from its own values.
+  useEffect(() => {
+    setHalted(false);
+    setTweakValues({});
+    setRestartValues({});
+  }, [output.code, output.files]);
+
+  useEffect(() => () => clearTimeout(restartTimerRef.current), []);
+
+  const handleTweak = (tweak, value) => {
+    const next = { ...tweakValues, [tweak.name]: value };
+    setTweakValues(next);
+    if (tweak.live) {
+      connectionRef.current?.send({ type: 'tweak', name: tweak.name, value });
+    } else {
+      clearTimeout(restartTimerRef.current);
+      restartTimerRef.current = setTimeout(() => setRestartValues(next), 300);
+    }
+  };
+
+  const resetTweaks = () => {
+    tweaks.filter((t) => t.live).forEach((t) => connectionRef.current?.send({ type: 'tweak', name: t.name, value: t.value }));
+    clearTimeout(restartTimerRef.current);
+    setTweakValues({});
+    setRestartValues({});
+  };
+
+  const bakeTweaks = () => {
+    const note = Object.entries(tweakValues).map(([name, value]) => `${name} = ${value}`).join(', ');
+    onCodeChange(output.id, applyTweaks(output.code, tweaks, tweakValues), 'tweak', note);
+  };
+
+  // Show runtime errors from the console as markers on the open file.
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = showCode && editor?.getModel();
+    if (!model) return;
+    const file = openFile ? openFile.name : target.entryFile;
+    const markers = consoleEntries
+      .filter((entry) => entry.level === 'error' && entry.location?.file === file)
+      .map((entry) => {
+        const line = Math.min(entry.location.line, model.getLineCount());
+        return {
+          severity: monaco.MarkerSeverity.Error,
+          message: entry.text,
+          startLineNumber: line,
+          startColumn: entry.location.column || 1,
+          endLineNumber: line,
+          endColumn: model.getLineMaxColumn(line),
+        };
+      });
+    monaco.editor.setModelMarkers(model, 'sketch-runtime', markers);
+  }, [consoleEntries, showCode, openFile, target.entryFile, editorMounts]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!showCode || !model || reveal === null) return;
+    const line = Math.min(reveal.line, model.getLineCount());
+    if (reveal.endLine) {
+      // A cited range is selected, so it stays visible after the editor scrolls.
+      const endLine = Math.min(Math.max(reveal.endLine, line), model.getLineCount());
+      const range = { startLineNumber: line, startColumn: 1, endLineNumber: endLine, endColumn: model.getLineMaxColumn(endLine) };
+      editor.setSelection(range);
+      editor.revealRangeInCenter(range);
+    } else {
+      editor.revealLineInCenter(line);
+      editor.setPosition({ lineNumber: line, column: 1 });
+    }
+    editor.focus();
+    setReveal(null);
+  }, [reveal, showCode, activeFile, editorMounts]);
+
+  // The JavaScript service shares one set of declarations, so the open editor brings its runtime's.
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    if (!showCode || !editor) return;
+    const install = () =>
+      installTypes(monaco, target, selection.runtime).catch((e) => logError(normalizeError(e, { feature: 'editor types' })));
+    install();
+    const focus = editor.onDidFocusEditorText(install);
+    return () => focus.dispose();
+  }, [showCode, editorMounts, target, selection.runtime]);
+
+  const jumpToSource = (location) => {
+    setShowCode(true);
+    setShowReasoning(false);
+    setShowExplanation(false);
+    setShowHistory(false);
+    setActiveFile(location.file === target.entryFile ? null : location.file);
+    setReveal({ line: location.line, endLine: location.endLine });
+  };
 
   const handleCopy = async () => {
     try {
@@ -129,230 +385,173 @@ const CodePreview = (props) => {
     }
   };
 
-  const extractDocLinks = (text) => {
-    const found = [];
-    Object.keys(P5_DOCS_MAP).forEach((key) => {
-      // Use word boundaries to avoid partial matches
-      const regex = new RegExp(`\\b${key}\\b`, 'i');
-      if (regex.test(text) || regex.test(output.code)) {
-        found.push({ name: key, url: P5_DOCS_MAP[key] });
-      }
-    });
-    return found;
+  const openExplanation = () => {
+    setShowExplanation(true);
+    setShowCode(false);
+    setShowReasoning(false);
+    setShowHistory(false);
   };
 
-  const handleExplain = async () => {
-    if (explanation) {
-      setShowExplanation(true);
-      setShowCode(false);
-      setShowReasoning(false);
+  /** Explains the whole sketch, or only `excerpt`: the selected text of a file and the lines it spans. */
+  const handleExplain = async (excerpt) => {
+    if (!excerpt && explanation && !explainedRange) {
+      openExplanation();
       return;
     }
 
+    const code = excerpt ? excerpt.code : output.code;
+    const range = excerpt ? excerpt.range : { file: target.entryFile, startLine: 1, endLine: code.split('\n').length };
     setIsExplaining(true);
-    setShowExplanation(true);
-    setShowCode(false);
-    setShowReasoning(false);
+    setExplanation('');
+    setExplainedRange(excerpt ? range : null);
+    openExplanation();
 
+    const model = getFeatureModel('explain');
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [
-          {
-            parts: [
-              {
-                text: `You are a friendly coding teacher. Explain the following p5.js code in a simple and educational way. 
-            Break down the key concepts, algorithms, and how the interactivity works.
-            
-            CODE:
-            ${output.code}`,
-              },
-            ],
-          },
-        ],
-      });
-      const text = response.text || 'Could not generate explanation.';
+      const text = await explainSketch({ target, model, code, range, excerpt: !!excerpt });
       setExplanation(text);
-      setDetectedDocs(extractDocLinks(text));
+      setDetectedDocs(await referenceLinks(target, selection.runtime, code, text));
     } catch (error) {
-      console.error('Explanation error:', error);
-      setExplanation('Failed to generate explanation. Please try again.');
+      setExplanation('');
+      setShowExplanation(false);
+      onError?.(error, { feature: 'explain', model }, () => handleExplain(excerpt));
     } finally {
       setIsExplaining(false);
     }
   };
 
-  const toggleLibrary = (libId) => {
-    setSelectedLibraries(prev => 
-      prev.includes(libId) ? prev.filter(id => id !== libId) : [...prev, libId]
-    );
+  const explainSelection = () => {
+    const editor = editorRef.current;
+    const sel = editor?.getSelection();
+    if (!sel || sel.isEmpty()) return;
+    handleExplain({
+      code: editor.getModel().getValueInRange(sel),
+      range: { file: openFile ? openFile.name : target.entryFile, startLine: sel.startLineNumber, endLine: sel.endLineNumber },
+    });
   };
+  // The editor's context-menu action is registered once, on mount.
+  explainSelectionRef.current = explainSelection;
 
-  const handleDownload = async () => {
-    const zip = new JSZip();
-    const codeString = output?.code || '';
-
-    // sketch.js
-    zip.file('sketch.js', codeString);
-
-    // style.css
-    zip.file(
-      'style.css',
-      `
-body {
-  padding: 0;
-  margin: 0;
-  background: #f8fafc;
-  display: flex;
-  justify-content: center;
-  align-items: center;
-  min-height: 100vh;
-  overflow: hidden;
-  font-family: system-ui, -apple-system, sans-serif;
-}
-canvas {
-  display: block;
-  box-shadow: 0 25px 50px -12px rgba(0, 0, 0, 0.25);
-  border-radius: 12px;
-}
-    `,
-    );
+  const jumpToCitation = (href) => {
+    const [, start, end] = href.match(/^#L(\d+)(?:-(\d+))?$/) || [];
+    if (!start) return;
+    const file = explainedRange ? explainedRange.file : target.entryFile;
+    jumpToSource({ file, line: Number(start), endLine: Number(end || start) });
+  };
 
-    const libScripts = selectedLibraries
-      .map(id => AVAILABLE_LIBRARIES.find(l => l.id === id))
-      .filter(Boolean)
-      .map(lib => `<script src="${lib.url}"></script>`)
-      .join('\n  ');
-
-    // index.html
-    zip.file(
-      'index.html',
-      `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>p5.js Sketch</title>
-  <script src="https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/p5.js"></script>
-  ${libScripts}
-  <link rel="stylesheet" type="text/css" href="style.css">
-</head>
-<body>
-  <script src="sketch.js"></script>
-</body>
-</html>`,
-    );
+  const handleRefine = async () => {
+    const text = instruction.trim();
+    if (!text || refineBusy) return;
+    setIsRefining(true);
+    try {
+      await runSingleJob({
+        kind: 'refine',
+        label: text,
+        run: async (_, signal) => {
+          const result = await refineSketch({ target, model, code: output.code, files: extraFiles, selection, instruction: text, imageBase64, signal });
+          onCodeChange(output.id, result.code, 'refine', text, result.files);
+        },
+      });
+      setInstruction('');
+      setExplanation('');
+      setExplainedRange(null);
+    } catch (error) {
+      if (!isCancelled(error)) onError?.(error, { feature: 'refine', model, prompt: text }, handleRefine);
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const undoTarget = previousVersion(output);
+
+  const { runtime, libraries } = resolveSelection(target, selection);
+
+  const toggleVendorExports = () => {
+    setVendorExports(!vendorExports);
+    setVendorExportsState(!vendorExports);
+  };
+
+  const exportName = `${target.id}-sketch-${output.id}`;
+  const formats = formatsFor(target);
+  const format = formats.find((f) => f.id === exportFormat) || formats[0];
+  const exportSource = { code: output?.code || '', files: extraFiles, selection };
 
+  const handleDownload = async () => {
+    setIsExporting(true);
     try {
-      const content = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(content);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `p5-sketch-${output.id}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const { blob, fileName } = await exportSketch(target, exportSource, format.id, exportName);
+      downloadBlob(blob, fileName);
     } catch (error) {
-      console.error('Zip generation failed:', error);
+      onError?.(error, { feature: 'export' }, handleDownload);
+    } finally {
+      setIsExporting(false);
     }
   };
 
-  const renderSketch = (code) => {
-    const codeString = typeof code === 'string' ? code : code.toString();
-    const wrappedCode = codeString.includes('function setup()')
-      ? codeString
-      : `
-      function setup() {
-        createCanvas(500, 500);
-        ${codeString}
-      }
+  const handleOpenInCodePen = () =>
+    openInCodePen(target, exportSource, exportName).catch((error) => onError?.(error, { feature: 'export' }));
 
-      function draw() {
-        if (typeof window.draw !== 'function') {
-          window.draw = function() {};
-        }
-      }
-    `;
-
-    const libScripts = selectedLibraries
-      .map(id => AVAILABLE_LIBRARIES.find(l => l.id === id))
-      .filter(Boolean)
-      .map(lib => `<script src="${lib.url}"></script>`)
-      .join('\n        ');
-
-    const formattedCodeResponse = `
-      <!DOCTYPE html>
-      <html lang="en">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <script src="https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/p5.js"></script>
-        ${libScripts}
-        <title>p5.js Sketch</title>
-        <style>
-          body {
-            padding: 0;
-            margin: 0;
-            display: flex;
-            justify-content: center;
-            align-items: center;
-            min-height: 100vh;
-            overflow: hidden;
-          }
-          canvas {
-            max-width: 100% !important;
-            height: auto !important;
-          }
-        </style>
-      </head>
-      <body>
-        <script>
-          const postStatus = (status, message = '') => {
-            window.parent.postMessage({ type: 'SKETCH_STATUS', status, message, id: ${output.id} }, '*');
-          };
-
-          window.onerror = function(message, source, lineno, colno, error) {
-            postStatus('error', message);
-            document.body.innerHTML = '<div style="color: red; padding: 20px;"><h3>🔴 Error:</h3><pre>' + message + '</pre></div>';
-          };
-
-          try {
-            postStatus('loading');
-            ${wrappedCode}
-            if (typeof window.setup === 'function') {
-              new p5();
-              // Small delay to ensure setup completes
-              setTimeout(() => postStatus('success'), 100);
-            } else {
-               postStatus('error', 'No setup() function found.');
-            }
-          } catch (error) {
-            console.error('Sketch error:', error);
-            postStatus('error', error.message);
-            document.body.innerHTML = '<div style="color: red; padding: 20px;"><h3>🔴 Error:</h3><pre>' + error.message + '</pre></div>';
-          }
-        </script>
-      </body>
-      </html>
-    `;
-
-    return (
+  const sketchCode = output?.code || '';
+
+  const previewCode = tweaks.length > 0 ? instrumentTweaks(sketchCode, tweaks, restartValues) : sketchCode;
+  const previewHtml = target.buildPreview(previewCode, {
+    channel: channelRef.current,
+    runtime,
+    libraries,
+    files: extraFiles,
+  });
+  previewHtmlRef.current = previewHtml;
+
+  // A new srcDoc replaces the document; it connects again once it has loaded.
+  useEffect(() => {
+    dropConnection(connectionRef);
+    lastSeenRef.current = 0;
+  }, [previewHtml]);
+
+  const renderSketch = () => (
+    <>
       <div className="relative w-full h-[500px] bg-gray-50 rounded-lg overflow-hidden">
-        <iframe
-          srcDoc={formattedCodeResponse}
-          title="p5.js Sketch"
-          width="100%"
-          height="100%"
-          style={{ border: 'none' }}
-          className="absolute inset-0"
+        {halted ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-center p-6">
+            <AlertCircle className="text-red-500" size={28} />
+            <p className="text-sm font-medium text-gray-600 max-w-sm">{sketchError}</p>
+            <button
+              onClick={() => {
+                setHalted(false);
+                setPreviewNonce((n) => n + 1);
+              }}
+              className="px-3 py-1 rounded-full text-[11px] font-bold border bg-black text-white border-black inline-flex items-center gap-1.5"
+            >
+              <RotateCw size={10} /> Run again
+            </button>
+          </div>
+        ) : (
+          <iframe
+            key={previewNonce}
+            ref={attachFrame}
+            srcDoc={previewHtml}
+            sandbox={PREVIEW_SANDBOX}
+            onLoad={handleFrameLoad}
+            title={`${target.label} preview`}
+            width="100%"
+            height="100%"
+            style={{ border: 'none' }}
+            className="absolute inset-0"
+          />
+        )}
+      </div>
+      <div className="mt-2">
+        <CaptureBar
+          getConnection={() => connectionRef.current}
+          fileName={exportName}
+          disabled={halted}
+          onError={(error, context, retry) => onError?.(error, context, retry)}
         />
       </div>
-    );
-  };
+      <ConsolePanel entries={consoleEntries} onClear={() => setConsoleEntries([])} onJump={jumpToSource} />
+    </>
+  );
 
-  const sketchCode = output?.code || '';
 
   const renderStatusIndicator = () => {
     switch (sketchStatus) {
@@ -398,6 +597,15 @@ canvas {
                 <Code2 size={10} /> Monaco Editor Settings
               </div>
               <div className="flex items-center gap-4">
+                <button
+                  onClick={explainSelection}
+                  disabled={!hasSelection || isExplaining}
+                  className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded border transition-all bg-white text-gray-600 hover:bg-gray-100 border-gray-200 disabled:opacity-30"
+                  title="Explain only the highlighted code"
+                >
+                  <TextSelect size={10} />
+                  Explain selection
+                </button>
                 <button
                   onClick={() =>
                     setEditorSettings((s) => ({ ...s, lineNumbers: !s.lineNumbers }))
@@ -432,13 +640,52 @@ canvas {
                 </div>
               </div>
             </div>
+            {extraFiles.length > 0 && (
+              <div className="flex items-center gap-1 px-2 pt-1 bg-gray-50 border-b border-gray-200 overflow-x-auto">
+                {[target.entryFile, ...extraFiles.map((f) => f.name)].map((name) => {
+                  const isActive = name === (openFile ? openFile.name : target.entryFile);
+                  return (
+                    <button
+                      key={name}
+                      onClick={() => setActiveFile(name === target.entryFile ? null : name)}
+                      className={`text-[10px] font-mono px-2 py-1 rounded-t border border-b-0 whitespace-nowrap transition-all ${
+                        isActive ? 'bg-white text-black border-gray-200' : 'bg-transparent text-gray-500 border-transparent hover:text-black'
+                      }`}
+                    >
+                      {name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
             <div className="flex-1">
               <Editor
                 height="100%"
-                defaultLanguage="javascript"
-                value={sketchCode}
+                path={`${output.id}/${openFile ? openFile.name : target.entryFile}`}
+                onMount={(editor, monaco) => {
+                  editorRef.current = editor;
+                  monacoRef.current = monaco;
+                  setEditorMounts((n) => n + 1);
+                  setHasSelection(false);
+                  editor.onDidChangeCursorSelection((e) => setHasSelection(!e.selection.isEmpty()));
+                  editor.addAction({
+                    id: 'explain-selection',
+                    label: 'Explain selection',
+                    contextMenuGroupId: 'navigation',
+                    precondition: 'editorHasSelection',
+                    run: () => explainSelectionRef.current(),
+                  });
+                }}
+                language={openFile ? languageForFile(openFile.name) : target.language}
+                value={openFile ? openFile.content : sketchCode}
                 onChange={(value) => {
-                  onCodeChange(output.id, value);
+                  if (openFile) {
+                    const files = extraFiles.map((f) => (f.name === openFile.name ? { ...f, content: value } : f));
+                    onCodeChange(output.id, output.code, 'manual', undefined, files);
+                  } else {
+                    onCodeChange(output.id, value);
+                  }
+                  repairRunRef.current.active = false;
                   setSketchStatus('idle'); // Reset status when code is edited
                 }}
                 theme="light"
@@ -455,6 +702,13 @@ canvas {
               />
             </div>
           </div>
+        ) : showHistory ? (
+          <VersionTimeline
+            key={output.activeVersion}
+            output={output}
+            language={target.language}
+            onCheckout={(versionId) => onCheckoutVersion(output.id, versionId)}
+          />
         ) : showReasoning ? (
           <div className="w-full h-[500px] rounded-lg overflow-y-auto border p-4 prose prose-xs max-w-none bg-white">
             <ReactMarkdown remarkPlugins={[remarkGfm]} className="text-xs text-gray-700">
@@ -470,15 +724,49 @@ canvas {
               </div>
             ) : (
               <>
+                {explainedRange && (
+                  <div className="not-prose mb-4 flex items-center gap-2 text-[11px] font-bold text-gray-500">
+                    <TextSelect size={12} />
+                    Selection:
+                    <button
+                      onClick={() => jumpToCitation(`#L${explainedRange.startLine}-${explainedRange.endLine}`)}
+                      className="text-blue-600 hover:underline font-mono"
+                    >
+                      {explainedRange.file}:{explainedRange.startLine}–{explainedRange.endLine}
+                    </button>
+                    <button onClick={() => handleExplain()} className="ml-auto text-gray-400 hover:text-black">
+                      Explain the whole sketch
+                    </button>
+                  </div>
+                )}
                 <div className="flex-1">
-                  <ReactMarkdown remarkPlugins={[remarkGfm]} className="text-sm text-gray-700">
-                    {explanation}
+                  <ReactMarkdown
+                    remarkPlugins={[remarkGfm]}
+                    className="text-sm text-gray-700"
+                    components={{
+                      a: ({ href, children }) =>
+                        href?.startsWith('#L') ? (
+                          <button
+                            onClick={() => jumpToCitation(href)}
+                            title="Show in the code"
+                            className="text-blue-600 font-semibold hover:underline"
+                          >
+                            {children}
+                          </button>
+                        ) : (
+                          <a href={href} target="_blank" rel="noopener noreferrer">
+                            {children}
+                          </a>
+                        ),
+                    }}
+                  >
+                    {linkLineReferences(explanation)}
                   </ReactMarkdown>
                 </div>
                 {detectedDocs.length > 0 && (
                   <div className="mt-8 pt-6 border-t border-gray-100">
                     <h4 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-3 flex items-center gap-1.5">
-                      <BookOpen size={10} /> Relevant p5.js Reference
+                      <BookOpen size={10} /> Relevant {target.label} Reference
                     </h4>
                     <div className="flex flex-wrap gap-2">
                       {detectedDocs.map((doc, idx) => (
@@ -489,7 +777,8 @@ canvas {
                           rel="noopener noreferrer"
                           className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-50 text-blue-600 text-[11px] font-semibold hover:bg-blue-100 transition-colors border border-blue-100/50"
                         >
-                          {doc.name}()
+                          {doc.name}
+                          {doc.call && '()'}
                           <ExternalLink size={10} />
                         </a>
                       ))}
@@ -500,33 +789,103 @@ canvas {
             )}
           </div>
         ) : (
-          renderSketch(sketchCode)
+          renderSketch()
         )}
       </div>
 
-      {/* Library Selection Bar */}
+      {/* Refinement Bar */}
       <div className="mb-4 px-1">
-        <div className="flex items-center gap-3 bg-white/50 p-2 rounded-2xl border border-gray-200">
-          <div className="text-[10px] font-bold text-gray-400 uppercase tracking-widest flex items-center gap-1.5 px-2 border-r pr-3">
-            <Library size={12} /> Addons
-          </div>
-          <div className="flex flex-wrap gap-2">
-            {AVAILABLE_LIBRARIES.map(lib => (
+        <div className="flex items-center gap-2 bg-white/50 p-2 rounded-2xl border border-gray-200">
+          <Wand2 size={14} className="text-gray-400 ml-2 shrink-0" />
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRefine()}
+            placeholder="Refine this variant (e.g. 'make the particles follow the mouse')"
+            disabled={refineBusy}
+            className="flex-1 min-w-0 bg-transparent outline-none text-xs font-medium px-1"
+          />
+          <button
+            onClick={handleRefine}
+            disabled={refineBusy || !instruction.trim()}
+            className="px-3 py-1 rounded-full text-[11px] font-bold transition-all border bg-black text-white border-black disabled:opacity-30 inline-flex items-center gap-1.5"
+          >
+            {refineBusy && <Loader2 className="animate-spin" size={10} />}
+            {refineBusy ? 'Refining...' : 'Refine'}
+          </button>
+        </div>
+      </div>
+
+      {/* Tweak Panel */}
+      {tweaks.length > 0 && (
+        <div className="mb-4 px-1">
+          <TweakPanel tweaks={tweaks} values={tweakValues} onChange={handleTweak} onReset={resetTweaks} onBake={bakeTweaks} />
+        </div>
+      )}
+
+      {/* Self-repair Bar */}
+      {(sketchStatus === 'error' || isRepairing || repairLog.length > 0) && (
+        <div className="mb-4 px-1">
+          <div className="bg-white/50 p-3 rounded-2xl border border-gray-200 space-y-2">
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="text-[10px] font-bold text-gray-400 uppercase tracking-widest flex items-center gap-1.5 px-2 border-r pr-3">
+                <Wrench size={12} /> Repair
+              </div>
               <button
-                key={lib.id}
-                onClick={() => toggleLibrary(lib.id)}
-                className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all border ${
-                  selectedLibraries.includes(lib.id)
-                    ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
-                    : 'bg-white text-gray-500 border-gray-200 hover:border-gray-400'
-                }`}
+                onClick={runRepair}
+                disabled={isRepairing || sketchStatus !== 'error'}
+                className="px-3 py-1 rounded-full text-[11px] font-bold transition-all border bg-black text-white border-black disabled:opacity-30 inline-flex items-center gap-1.5"
               >
-                {lib.name}
+                {isRepairing ? <Loader2 className="animate-spin" size={10} /> : <Wrench size={10} />}
+                {isRepairing ? 'Fixing...' : 'Fix it'}
               </button>
-            ))}
+              <label className="flex items-center gap-1.5 text-[11px] font-bold text-gray-500 cursor-pointer">
+                <input type="checkbox" checked={autoRepair} onChange={(e) => setAutoRepair(e.target.checked)} />
+                Auto
+              </label>
+              <label className="flex items-center gap-1.5 text-[11px] font-bold text-gray-500">
+                Attempts
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={maxRepairAttempts}
+                  onChange={(e) => setMaxRepairAttempts(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="w-12 p-0.5 border rounded bg-white outline-none border-gray-200 text-center"
+                />
+              </label>
+            </div>
+            {repairLog.length > 0 && (
+              <ol className="space-y-1 max-h-32 overflow-y-auto">
+                {repairLog.map((entry, idx) => (
+                  <li key={idx} className="flex items-start gap-2 text-[11px] text-gray-600">
+                    <span className={`shrink-0 px-1.5 rounded font-bold uppercase text-[9px] ${
+                      entry.status === 'resolved' ? 'bg-green-100 text-green-700'
+                        : entry.status === 'fixing' || entry.status === 'applied' ? 'bg-blue-100 text-blue-700'
+                        : 'bg-red-100 text-red-700'
+                    }`}>
+                      #{entry.attempt} {entry.status}
+                    </span>
+                    <span className="truncate font-mono" title={entry.error}>{entry.error}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
         </div>
-      </div>
+      )}
+
+      {/* Library Selection Bar */}
+      {(target.runtimes || target.libraries) && (
+        <div className="mb-4 px-1">
+          <LibraryBar
+            target={target}
+            selection={selection}
+            onChange={(next) => onRuntimeChange(output.id, next)}
+            onError={(e) => onError?.(e)}
+          />
+        </div>
+      )}
 
       <div className="flex flex-col sm:flex-row justify-between items-center gap-3 mt-2">
         <div className="inline-flex rounded-full bg-gray-200 p-1 w-full sm:w-auto justify-center overflow-x-auto no-scrollbar">
@@ -538,11 +897,12 @@ canvas {
                 {renderStatusIndicator()}
               </div>
             }
-            isSelected={!showCode && !showReasoning && !showExplanation}
+            isSelected={!showCode && !showReasoning && !showExplanation && !showHistory}
             onClick={() => {
               setShowCode(false);
               setShowReasoning(false);
               setShowExplanation(false);
+              setShowHistory(false);
             }}
           />
           <ToggleButton
@@ -553,6 +913,7 @@ canvas {
               setShowCode(false);
               setShowReasoning(true);
               setShowExplanation(false);
+              setShowHistory(false);
             }}
           />
           <ToggleButton
@@ -563,17 +924,50 @@ canvas {
               setShowCode(true);
               setShowReasoning(false);
               setShowExplanation(false);
+              setShowHistory(false);
+            }}
+          />
+          <ToggleButton
+            icon={History}
+            label={`v${output.activeVersion}`}
+            isSelected={showHistory}
+            onClick={() => {
+              setShowCode(false);
+              setShowReasoning(false);
+              setShowExplanation(false);
+              setShowHistory(true);
             }}
           />
           <ToggleButton
             icon={BookOpen}
             label="Explain"
             isSelected={showExplanation}
-            onClick={handleExplain}
+            onClick={() => handleExplain()}
           />
         </div>
 
         <div className="flex gap-2 w-full sm:w-auto">
+          <button
+            type="button"
+            onClick={() => onToggleStar(output.id)}
+            title={output.starred ? 'Unstar variant' : 'Star variant'}
+            className={`px-3.5 py-2.5 rounded-full border transition-colors inline-flex text-sm items-center justify-center ${
+              output.starred ? 'bg-amber-50 text-amber-500 border-amber-200' : 'bg-white text-gray-700 hover:bg-gray-50 border-gray-300'
+            }`}
+          >
+            <Star size={14} fill={output.starred ? 'currentColor' : 'none'} />
+          </button>
+
+          <button
+            type="button"
+            onClick={() => onCheckoutVersion(output.id, undoTarget.id)}
+            disabled={!undoTarget}
+            title={undoTarget ? `Undo to v${undoTarget.id}` : 'Nothing to undo'}
+            className="px-3.5 py-2.5 rounded-full bg-white text-gray-700 hover:bg-gray-50 border border-gray-300 transition-colors inline-flex text-sm items-center justify-center disabled:opacity-30"
+          >
+            <Undo2 size={14} />
+          </button>
+
           <button
             type="button"
             onClick={handleCopy}
@@ -597,13 +991,44 @@ canvas {
             )}
           </button>
 
+          <select
+            value={format.id}
+            onChange={(e) => setExportFormat(e.target.value)}
+            title={format.description}
+            className="px-3 py-2.5 rounded-full bg-white text-gray-700 border border-gray-300 text-sm outline-none"
+          >
+            {formats.map((f) => (
+              <option key={f.id} value={f.id}>{f.label}</option>
+            ))}
+          </select>
+          {format.id === 'zip' && (
+            <label
+              title="Copy the runtime and add-on scripts into the ZIP so it runs without a network"
+              className="inline-flex items-center gap-1.5 px-2 text-xs font-medium text-gray-500 cursor-pointer"
+            >
+              <input type="checkbox" checked={vendorExports} onChange={toggleVendorExports} />
+              Offline
+            </label>
+          )}
+          {format.id === 'codepen' && (
+            <button
+              type="button"
+              onClick={handleOpenInCodePen}
+              title="Open as a new pen on codepen.io"
+              className="flex-1 sm:flex-none px-3.5 py-2.5 rounded-full bg-white text-gray-700 hover:bg-gray-50 border border-gray-300 transition-colors inline-flex text-sm items-center gap-1 justify-center"
+            >
+              <ExternalLink size={14} />
+              Open
+            </button>
+          )}
           <button
             type="button"
             onClick={handleDownload}
-            className="flex-1 sm:flex-none px-3.5 py-2.5 rounded-full bg-white text-gray-700 hover:bg-gray-50 border border-gray-300 transition-colors inline-flex text-sm items-center gap-1 justify-center"
+            disabled={isExporting}
+            className="flex-1 sm:flex-none px-3.5 py-2.5 rounded-full bg-white text-gray-700 hover:bg-gray-50 border border-gray-300 transition-colors inline-flex text-sm items-center gap-1 justify-center disabled:opacity-50"
           >
-            <Download size={14} />
-            Download ZIP
+            {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            Download
           </button>
         </div>
       </div>
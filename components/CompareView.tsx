@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useEffectEvent, useRef, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { ChevronLeft, ChevronRight, Crown, Gauge, Loader2, RotateCw, X } from 'lucide-react';
+import type { SketchOutput } from '../services/history';
+import { outputSelection, resolveSelection } from '../services/libraries';
+import { PREVIEW_SANDBOX, PreviewConnection, PreviewMessage, connectPreview, createChannelId } from '../services/previewChannel';
+import { scoreFrame } from '../services/similarity';
+import { formatProject, getTarget } from '../services/targets';
+
+/** Lets an animated sketch draw for a moment before its frame is scored. */
+const SCORE_SETTLE_MS = 1500;
+
+interface VariantFrameProps {
+  output: SketchOutput;
+  imageBase64: string;
+  /** Changing it reloads every frame at once, so they run in step. */
+  restartNonce: number;
+  /** Changing it captures and scores the frame again. */
+  scoreRound: number;
+  autoScore: boolean;
+  onScore: (id: number, score: number) => void;
+}
+
+const VariantFrame: React.FC<VariantFrameProps> = ({ output, imageBase64, restartNonce, scoreRound, autoScore, onScore }) => {
+  const target = getTarget(output.target);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const channelRef = useRef(createChannelId());
+  const connectionRef = useRef<PreviewConnection | null>(null);
+  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  const [scoring, setScoring] = useState(false);
+  const [scoreError, setScoreError] = useState('');
+
+  const html = target.buildPreview(output.code, {
+    channel: channelRef.current,
+    ...resolveSelection(target, outputSelection(output)),
+    files: output.files || [],
+  });
+
+  const handleMessage = (message: PreviewMessage) => {
+    if (message.type === 'status') setStatus(message.status);
+    if (message.type === 'frame') {
+      if (!message.dataUrl) {
+        setScoring(false);
+        setScoreError(message.error || 'Capture failed');
+        return;
+      }
+      scoreFrame(imageBase64, message.dataUrl)
+        .then((score) => onScore(output.id, score))
+        .catch((e) => setScoreError(e?.message || String(e)))
+        .finally(() => setScoring(false));
+    }
+  };
+  const handleMessageRef = useRef(handleMessage);
+  handleMessageRef.current = handleMessage;
+
+  const handleLoad = () => {
+    connectionRef.current?.close();
+    setStatus('loading');
+    connectionRef.current = connectPreview(frameRef.current!, channelRef.current, (m) => handleMessageRef.current(m));
+  };
+
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  const capture = useEffectEvent(() => {
+    if (!connectionRef.current || !imageBase64) return;
+    setScoring(true);
+    setScoreError('');
+    connectionRef.current.send({ type: 'capture' });
+  });
+
+  // Score once the sketch is running: on request, or automatically when it has no score yet.
+  const wantsScore = scoreRound > 0 || (autoScore && output.score === undefined);
+  useEffect(() => {
+    if (status !== 'success' || !wantsScore) return;
+    const timer = setTimeout(() => capture(), SCORE_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [status, scoreRound, wantsScore]);
+
+  return (
+    <div className="relative aspect-square bg-gray-50 rounded-2xl overflow-hidden">
+      <iframe
+        key={restartNonce}
+        ref={frameRef}
+        srcDoc={html}
+        sandbox={PREVIEW_SANDBOX}
+        onLoad={handleLoad}
+        title={`${target.label} preview`}
+        style={{ border: 'none' }}
+        className="absolute inset-0 w-full h-full"
+      />
+      <div className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 rounded-full bg-white/90 shadow-sm text-[10px] font-black">
+        {scoring ? (
+          <Loader2 size={10} className="animate-spin text-slate-400" />
+        ) : output.score !== undefined ? (
+          <span title="Similarity to the source image">{Math.round(output.score * 100)}%</span>
+        ) : status === 'error' ? (
+          <span className="text-red-500">Error</span>
+        ) : (
+          <span className="text-slate-300" title={scoreError || 'Not scored'}>{scoreError ? 'No score' : '--'}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface CompareViewProps {
+  outputs: SketchOutput[];
+  imageBase64: string;
+  autoScore: boolean;
+  onAutoScoreChange: (on: boolean) => void;
+  onScore: (id: number, score: number) => void;
+  onMove: (id: number, offset: number) => void;
+  onDiscard: (id: number) => void;
+  onKeep: (id: number) => void;
+}
+
+/** Variants side by side with previews that restart together, scores and a code diff. */
+const CompareView: React.FC<CompareViewProps> = ({ outputs, imageBase64, autoScore, onAutoScoreChange, onScore, onMove, onDiscard, onKeep }) => {
+  const [restartNonce, setRestartNonce] = useState(0);
+  const [scoreRound, setScoreRound] = useState(0);
+  const [diffIds, setDiffIds] = useState<[number, number]>([outputs[0]?.id, outputs[1]?.id]);
+
+  const diffA = outputs.find((o) => o.id === diffIds[0]) || outputs[0];
+  const diffB = outputs.find((o) => o.id === diffIds[1] && o !== diffA) || outputs.find((o) => o !== diffA);
+  const variantName = (output: SketchOutput) => `Variant ${outputs.indexOf(output) + 1}`;
+  // Cards keep their DOM position and are ranked with CSS order: moving an iframe reloads it,
+  // which would rescore it and, with auto-score on, could reorder the cards again and again.
+  const cards = [...outputs].sort((a, b) => a.id - b.id);
+  const projectText = (output: SketchOutput) => formatProject(getTarget(output.target), output.code, output.files);
+
+  const diffPicker = (index: 0 | 1, selected?: SketchOutput) => (
+    <select
+      value={selected?.id}
+      onChange={(e) => setDiffIds((ids) => (index === 0 ? [Number(e.target.value), ids[1]] : [ids[0], Number(e.target.value)]))}
+      className="px-3 py-1.5 rounded-full border border-gray-200 bg-white text-[11px] font-bold outline-none"
+    >
+      {outputs.map((o) => (
+        <option key={o.id} value={o.id}>{variantName(o)}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setRestartNonce((n) => n + 1)}
+          className="px-3 py-1.5 rounded-full text-[11px] font-bold border bg-white text-gray-600 border-gray-200 inline-flex items-center gap-1.5"
+        >
+          <RotateCw size={11} /> Restart all
+        </button>
+        <button
+          onClick={() => setScoreRound((n) => n + 1)}
+          disabled={!imageBase64}
+          className="px-3 py-1.5 rounded-full text-[11px] font-bold border bg-black text-white border-black disabled:opacity-30 inline-flex items-center gap-1.5"
+        >
+          <Gauge size={11} /> Score all
+        </button>
+        <label className="flex items-center gap-1.5 text-[11px] font-bold text-gray-500 ml-1" title="Score each variant when it runs and sort the best match first">
+          <input type="checkbox" checked={autoScore} onChange={(e) => onAutoScoreChange(e.target.checked)} />
+          Auto-score
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {cards.map((output) => {
+          const i = outputs.indexOf(output);
+          return (
+            <div key={output.id} style={{ order: i }} className="p-3 rounded-3xl bg-gray-100 border border-gray-200/50 space-y-3">
+              <VariantFrame
+                output={output}
+                imageBase64={imageBase64}
+                restartNonce={restartNonce}
+                scoreRound={scoreRound}
+                autoScore={autoScore}
+                onScore={onScore}
+              />
+              <div className="flex items-center gap-1">
+                <span className="flex-1 text-xs font-black">
+                  #{i + 1} <span className="text-gray-400 font-bold">{variantName(output)}</span>
+                </span>
+                <button onClick={() => onMove(output.id, -1)} disabled={i === 0} title="Rank higher" className="p-1.5 rounded-full text-gray-400 hover:text-black hover:bg-white disabled:opacity-20">
+                  <ChevronLeft size={14} />
+                </button>
+                <button onClick={() => onMove(output.id, 1)} disabled={i === outputs.length - 1} title="Rank lower" className="p-1.5 rounded-full text-gray-400 hover:text-black hover:bg-white disabled:opacity-20">
+                  <ChevronRight size={14} />
+                </button>
+                <button onClick={() => onDiscard(output.id)} title="Discard" className="p-1.5 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-50">
+                  <X size={14} />
+                </button>
+                <button onClick={() => onKeep(output.id)} title="Keep this one and discard the rest" className="ml-1 px-3 py-1 rounded-full bg-black text-white text-[10px] font-black uppercase inline-flex items-center gap-1">
+                  <Crown size={10} /> Keep
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {diffA && diffB && (
+        <div className="rounded-3xl bg-gray-100 border border-gray-200/50 p-3 space-y-3">
+          <div className="flex items-center gap-2 text-[10px] font-bold text-gray-400 uppercase tracking-widest px-2">
+            Diff {diffPicker(0, diffA)} against {diffPicker(1, diffB)}
+          </div>
+          <div className="h-[420px] rounded-2xl overflow-hidden border border-gray-200">
+            <DiffEditor
+              original={projectText(diffA)}
+              modified={projectText(diffB)}
+              language={getTarget(diffA.target).language}
+              options={{ readOnly: true, renderSideBySide: true, minimap: { enabled: false }, fontSize: 12, scrollBeyondLastLine: false }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronRight, Info, Terminal, Trash2 } from 'lucide-react';
+import { ConsoleLevel, LoggedEntry, SourceLocation } from '../services/previewChannel';
+
+interface ConsolePanelProps {
+  entries: LoggedEntry[];
+  onClear: () => void;
+  onJump: (location: SourceLocation) => void;
+}
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: 'text-gray-700',
+  info: 'text-blue-700',
+  debug: 'text-gray-400',
+  warn: 'text-amber-700 bg-amber-50',
+  error: 'text-red-700 bg-red-50',
+};
+
+const LevelIcon: React.FC<{ level: ConsoleLevel }> = ({ level }) => {
+  if (level === 'error') return <AlertCircle size={10} className="shrink-0 mt-0.5" />;
+  if (level === 'warn') return <AlertTriangle size={10} className="shrink-0 mt-0.5" />;
+  if (level === 'info') return <Info size={10} className="shrink-0 mt-0.5" />;
+  return <span className="w-2.5 shrink-0" />;
+};
+
+const ConsolePanel: React.FC<ConsolePanelProps> = ({ entries, onClear, onJump }) => {
+  const [open, setOpen] = useState(false);
+  const listRef = useRef<HTMLOListElement>(null);
+  const errors = entries.filter((e) => e.level === 'error').length;
+  const warnings = entries.filter((e) => e.level === 'warn').length;
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [entries, open]);
+
+  return (
+    <div className="mt-2 rounded-lg border border-gray-200 bg-white overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50">
+        <button
+          onClick={() => setOpen((o) => !o)}
+          className="flex items-center gap-1.5 text-[10px] font-bold text-gray-500 uppercase tracking-wider"
+        >
+          {open ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+          <Terminal size={10} /> Console
+          <span className="font-mono normal-case text-gray-400">({entries.length})</span>
+          {errors > 0 && <span className="px-1.5 rounded bg-red-100 text-red-700 normal-case">{errors} error{errors === 1 ? '' : 's'}</span>}
+          {warnings > 0 && <span className="px-1.5 rounded bg-amber-100 text-amber-700 normal-case">{warnings} warning{warnings === 1 ? '' : 's'}</span>}
+        </button>
+        {open && entries.length > 0 && (
+          <button onClick={onClear} title="Clear console" className="text-gray-400 hover:text-black">
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+      {open && (
+        <ol ref={listRef} className="max-h-40 overflow-y-auto font-mono text-[11px] divide-y divide-gray-100">
+          {entries.length === 0 && <li className="px-3 py-2 text-gray-400">No output yet.</li>}
+          {entries.map((entry, idx) => (
+            <li key={idx} className={`flex items-start gap-2 px-3 py-1 ${LEVEL_STYLES[entry.level]}`}>
+              <LevelIcon level={entry.level} />
+              <span className="flex-1 whitespace-pre-wrap break-all">{entry.text}</span>
+              {entry.location && (
+                <button
+                  onClick={() => onJump(entry.location!)}
+                  className="shrink-0 underline decoration-dotted text-gray-500 hover:text-black"
+                  title="Show in editor"
+                >
+                  {entry.location.file}:{entry.location.line}
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ConsolePanel;
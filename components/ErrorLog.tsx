@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useReducer, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { ERROR_INFO, ErrorLogEntry, clearErrors, listErrors, subscribeErrors } from '../services/errors';
+
+const matches = (entry: ErrorLogEntry, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [entry.message, ERROR_INFO[entry.category].title, entry.context?.feature, entry.context?.model, entry.context?.prompt]
+    .some((field) => field?.toLowerCase().includes(q));
+};
+
+/** Persisted errors, newest first, with what was being attempted when they happened. */
+const ErrorLog: React.FC<{ query: string }> = ({ query }) => {
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => subscribeErrors(refresh), []);
+
+  const entries = listErrors().filter((e) => matches(e, query));
+
+  if (listErrors().length === 0) {
+    return <p className="text-center py-24 text-slate-300 font-black uppercase tracking-[0.3em] text-[10px]">No errors logged</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        {confirmClear ? (
+          <button
+            onClick={() => { clearErrors(); setConfirmClear(false); }}
+            onBlur={() => setConfirmClear(false)}
+            autoFocus
+            className="px-4 py-2 rounded-full bg-red-500 text-white text-[10px] font-black uppercase"
+          >
+            Clear log?
+          </button>
+        ) : (
+          <button onClick={() => setConfirmClear(true)} className="flex items-center gap-1.5 px-4 py-2 rounded-full border border-slate-100 bg-white text-[10px] font-black uppercase text-slate-400 hover:text-red-500">
+            <Trash2 size={12} /> Clear log
+          </button>
+        )}
+      </div>
+      {entries.map((entry) => (
+        <div key={entry.id} className="bg-white rounded-[32px] shadow-sm border border-slate-100 p-5 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="px-2.5 py-1 rounded-full bg-red-50 text-red-600 text-[10px] font-black uppercase">{ERROR_INFO[entry.category].title}</span>
+            {[entry.context?.feature, entry.context?.model, entry.status && `HTTP ${entry.status}`, entry.finishReason]
+              .filter(Boolean)
+              .map((tag) => (
+                <span key={String(tag)} className="px-2.5 py-1 rounded-full bg-slate-50 text-[10px] font-bold text-slate-500">{tag}</span>
+              ))}
+            <span className="ml-auto text-[11px] font-medium text-slate-300">{new Date(entry.at).toLocaleString()}</span>
+          </div>
+          <p className="text-sm font-medium text-slate-700 break-words">{entry.message}</p>
+          {entry.blockedCategories?.length ? (
+            <p className="text-xs font-bold text-purple-600">Blocked for: {entry.blockedCategories.join(', ')}</p>
+          ) : null}
+          {entry.context?.prompt && (
+            <p className="text-xs text-slate-400 line-clamp-2 whitespace-pre-wrap" title={entry.context.prompt}>{entry.context.prompt}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ErrorLog;
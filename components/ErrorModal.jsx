@@ -1,58 +1,43 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import { X, Github, AlertCircle, ShieldAlert, ZapOff, Key } from 'lucide-react';
-
-const ErrorModal = ({ isOpen, onClose, errorInfo }) => {
-  if (!isOpen) return null;
-
-  const getErrorContent = () => {
-    const defaultInfo = {
-      title: "Something went wrong",
-      message: errorInfo?.message || "An unexpected error occurred during generation.",
-      advice: "Try refreshing the page or checking your connection.",
-      icon: <AlertCircle size={48} className="text-red-500 mb-4" />
-    };
+import { X, Github, AlertCircle, ShieldAlert, ZapOff, Key, ServerCrash, WifiOff, Wallet } from 'lucide-react';
+import { ERROR_INFO } from '../services/errors';
 
-    if (!errorInfo) return defaultInfo;
-
-    const msg = errorInfo.message?.toLowerCase() || "";
-    
-    if (msg.includes("429") || msg.includes("quota")) {
-      return {
-        title: "Quota Exceeded",
-        message: "You've reached the rate limit for this model.",
-        advice: "Wait a minute before trying again, or switch to a lower tier model.",
-        icon: <ZapOff size={48} className="text-amber-500 mb-4" />
-      };
-    }
+const ICONS = {
+  rateLimit: <ZapOff size={48} className="text-amber-500 mb-4" />,
+  budget: <Wallet size={48} className="text-amber-500 mb-4" />,
+  auth: <Key size={48} className="text-blue-500 mb-4" />,
+  permission: <Key size={48} className="text-blue-500 mb-4" />,
+  safety: <ShieldAlert size={48} className="text-purple-500 mb-4" />,
+  recitation: <ShieldAlert size={48} className="text-purple-500 mb-4" />,
+  server: <ServerCrash size={48} className="text-red-500 mb-4" />,
+  network: <WifiOff size={48} className="text-red-500 mb-4" />,
+};
 
-    if (msg.includes("403") || msg.includes("api_key") || msg.includes("not found")) {
-      return {
-        title: "API Key Issue",
-        message: "There was a problem with your API authentication.",
-        advice: "Ensure your API key is valid and from a project with billing enabled for advanced models.",
-        icon: <Key size={48} className="text-blue-500 mb-4" />
-      };
-    }
+/**
+ * Shows a classified error (see services/errors) with the recovery actions the
+ * caller offers for it, e.g. retry or switch to Lite.
+ */
+const ErrorModal = ({ isOpen, onClose, error, actions = [] }) => {
+  if (!isOpen || !error) return null;
 
-    if (msg.includes("safety") || msg.includes("blocked")) {
-      return {
-        title: "Content Blocked",
-        message: "The request was flagged by safety filters.",
-        advice: "Try rephrasing your prompt or using a different image that complies with safety guidelines.",
-        icon: <ShieldAlert size={48} className="text-purple-500 mb-4" />
-      };
-    }
+  const info = ERROR_INFO[error.category] || ERROR_INFO.unknown;
+  const icon = ICONS[error.category] || <AlertCircle size={48} className="text-red-500 mb-4" />;
+  const details = [
+    error.status && `HTTP ${error.status}`,
+    error.finishReason,
+    error.context?.feature,
+    error.context?.model,
+  ].filter(Boolean);
 
-    return defaultInfo;
+  const runAction = (action) => {
+    onClose();
+    action.run();
   };
 
-  const content = getErrorContent();
-
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
       <div
@@ -73,28 +58,44 @@ const ErrorModal = ({ isOpen, onClose, errorInfo }) => {
         </button>
 
         <div className="flex flex-col items-center text-center">
-          {content.icon}
+          {icon}
           <h2 className="text-2xl font-bold text-gray-900 mb-2">
-            {content.title}
+            {info.title}
           </h2>
-          <p className="text-gray-600 mb-2 font-medium">
-            {content.message}
+          <p className="text-gray-600 mb-2 font-medium break-words max-h-32 overflow-y-auto">
+            {error.message}
           </p>
+          {error.blockedCategories?.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-1.5 mb-2">
+              {error.blockedCategories.map((category) => (
+                <span key={category} className="px-2.5 py-1 rounded-full bg-purple-50 text-purple-700 text-xs font-semibold">
+                  {category}
+                </span>
+              ))}
+            </div>
+          )}
+          {details.length > 0 && (
+            <p className="text-xs text-gray-400 font-mono mb-2">{details.join(' · ')}</p>
+          )}
           <p className="text-gray-500 mb-8 text-sm italic">
-            💡 Advice: {content.advice}
+            💡 Advice: {info.advice}
           </p>
         </div>
 
         <div className="space-y-3">
-          <a
-            href="https://ai.google.dev"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="flex items-center justify-center gap-2 w-full px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-all font-semibold"
-          >
-            Check API Status at ai.google.dev
-          </a>
-          
+          {actions.map((action, i) => (
+            <button
+              key={action.label}
+              type="button"
+              onClick={() => runAction(action)}
+              className={`w-full px-6 py-3 rounded-xl font-semibold transition-all ${
+                i === 0 ? 'bg-blue-600 text-white hover:bg-blue-700' : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {action.label}
+            </button>
+          ))}
+
           <div className="flex gap-3">
             <a
               href="https://github.com/googlecreativelab/gemini-demos/tree/main/image-to-code"
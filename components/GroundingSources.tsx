@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { ExternalLink, Globe, MapPin, MessageSquareQuote } from 'lucide-react';
+import type { ChatGrounding } from '../services/grounding';
+
+/** Sources of a grounded answer: place cards for Maps results, numbered links for web pages, then Google's search suggestions. */
+const GroundingSources: React.FC<{ grounding: ChatGrounding }> = ({ grounding }) => {
+  const sources = grounding.sources.map((source, i) => ({ ...source, number: i + 1 })).filter((s) => s.uri);
+  const places = sources.filter((s) => s.kind === 'maps');
+  const pages = sources.filter((s) => s.kind === 'web');
+  if (!sources.length && !grounding.searchSuggestions) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-200/50 space-y-3">
+      {places.length > 0 && (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {places.map((place) => (
+            <div key={place.number} id={`source-${place.number}`} className="p-3 rounded-2xl bg-white border border-slate-100 space-y-1.5">
+              <div className="flex items-start gap-2">
+                <span className="mt-0.5 w-5 h-5 shrink-0 rounded-full bg-green-600 text-white text-[9px] font-black flex items-center justify-center">{place.number}</span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-black text-slate-800 truncate">{place.title || 'Place'}</p>
+                  {place.text && <p className="text-[11px] text-slate-500 line-clamp-3">{place.text}</p>}
+                </div>
+              </div>
+              <a href={place.uri} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 text-[10px] font-black uppercase text-green-700 hover:underline">
+                <MapPin size={10} /> Open in Maps <ExternalLink size={9} />
+              </a>
+              {place.reviews?.map((review, i) => (
+                <a key={i} href={review.uri} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-[10px] font-medium text-slate-500 hover:text-black truncate">
+                  <MessageSquareQuote size={10} className="shrink-0" /> {review.title || 'Review'}
+                </a>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      {pages.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {pages.map((page) => (
+            <a
+              key={page.number}
+              id={`source-${page.number}`}
+              href={page.uri}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white border border-slate-100 text-[10px] font-black uppercase text-blue-600 hover:shadow-sm transition-all"
+            >
+              <span className="text-slate-400">{page.number}</span>
+              <Globe size={10} /> {page.title || 'Source'}
+            </a>
+          ))}
+        </div>
+      )}
+      {grounding.searchSuggestions && (
+        // Google's snippet carries its own styles; a sandbox keeps them out of the app and opens its links in new tabs.
+        <iframe
+          srcDoc={`<base target="_blank">${grounding.searchSuggestions}`}
+          sandbox="allow-popups allow-popups-to-escape-sandbox"
+          title="Google Search suggestions"
+          className="w-full h-16 border-none"
+        />
+      )}
+    </div>
+  );
+};
+
+export default GroundingSources;
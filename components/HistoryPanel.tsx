@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useEffectEvent, useMemo, useState } from 'react';
+import { AlertCircle, Download, History, Image as ImageIcon, RotateCcw, Search, Star, Trash2 } from 'lucide-react';
+import ErrorLog from './ErrorLog';
+import {
+  Asset,
+  Session,
+  assetFileName,
+  deleteAsset,
+  deleteSession,
+  downloadBlob,
+  exportSession,
+  listAssets,
+  listSessions,
+  matchesSearch,
+  updateSession,
+} from '../services/history';
+import { getTarget } from '../services/targets';
+
+export type HistoryView = 'sessions' | 'gallery' | 'errors';
+
+interface HistoryPanelProps {
+  view: HistoryView;
+  onViewChange: (view: HistoryView) => void;
+  onRestore: (session: Session) => void;
+  onAssetDeleted: (id: string) => void;
+  /** The session open in the Generator. Home owns its variants, so stars on it go through `onToggleOpenStar`. */
+  openSessionId: string | null;
+  onToggleOpenStar: (outputId: number) => void;
+  onSessionDeleted: (id: string) => void;
+  onError: (error: any) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  view,
+  onViewChange: setView,
+  onRestore,
+  onAssetDeleted,
+  openSessionId,
+  onToggleOpenStar,
+  onSessionDeleted,
+  onError,
+}) => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [query, setQuery] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const loadHistory = useEffectEvent(() => {
+    listSessions().then(setSessions).catch(onError);
+    listAssets().then(setAssets).catch(onError);
+  });
+  useEffect(() => loadHistory(), []);
+
+  const assetUrls = useMemo(() => new Map(assets.map((a) => [a.id, URL.createObjectURL(a.blob)])), [assets]);
+  useEffect(() => () => assetUrls.forEach((url) => URL.revokeObjectURL(url)), [assetUrls]);
+
+  const visibleSessions = sessions.filter(
+    (s) => matchesSearch(s, query) && (!starredOnly || s.outputs.some((o) => o.starred)),
+  );
+  const visibleAssets = assets.filter((a) => a.prompt.toLowerCase().includes(query.trim().toLowerCase()));
+
+  const toggleStar = async (session: Session, outputId: number) => {
+    const outputs = session.outputs.map((o) => (o.id === outputId ? { ...o, starred: !o.starred } : o));
+    setSessions((list) => list.map((s) => (s.id === session.id ? { ...s, outputs } : s)));
+    // Writing the open session here would be undone by the Generator's next autosave.
+    if (session.id === openSessionId) onToggleOpenStar(outputId);
+    else await updateSession(session.id, { outputs }).catch(onError);
+  };
+
+  const removeSession = async (id: string) => {
+    setConfirmDeleteId(null);
+    try {
+      await deleteSession(id);
+    } catch (e) {
+      return onError(e);
+    }
+    setSessions((list) => list.filter((s) => s.id !== id));
+    onSessionDeleted(id);
+  };
+
+  const removeAsset = async (id: string) => {
+    setConfirmDeleteId(null);
+    try {
+      await deleteAsset(id);
+    } catch (e) {
+      return onError(e);
+    }
+    setAssets((list) => list.filter((a) => a.id !== id));
+    onAssetDeleted(id);
+  };
+
+  const exportOne = async (session: Session) => {
+    try {
+      downloadBlob(await exportSession(session), `session-${session.id.slice(0, 8)}.zip`);
+    } catch (e) {
+      onError(e);
+    }
+  };
+
+  const deleteButton = (id: string, onDelete: () => void) =>
+    confirmDeleteId === id ? (
+      <button onClick={onDelete} onBlur={() => setConfirmDeleteId(null)} autoFocus className="px-3 py-1.5 rounded-full bg-red-500 text-white text-[10px] font-black uppercase">
+        Delete?
+      </button>
+    ) : (
+      <button onClick={() => setConfirmDeleteId(id)} title="Delete" className="p-2 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50">
+        <Trash2 size={14} />
+      </button>
+    );
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-700">
+      <div className="flex flex-col md:flex-row gap-4 md:items-center">
+        <div className="flex p-1.5 bg-white border border-slate-100 rounded-[24px] shadow-sm">
+          {([['sessions', History, 'Sessions'], ['gallery', ImageIcon, 'Gallery'], ['errors', AlertCircle, 'Errors']] as const).map(([id, Icon, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`flex items-center gap-2 px-5 py-2.5 rounded-[18px] text-[10px] font-black uppercase transition-all ${view === id ? 'bg-black text-white shadow-lg' : 'text-slate-400 hover:text-slate-600'}`}
+            >
+              <Icon size={14} /> {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex-1 flex items-center gap-2 px-5 py-3 bg-white border border-slate-100 rounded-[24px] shadow-sm">
+          <Search size={16} className="text-slate-300" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={view === 'sessions' ? 'Search directives, targets, models...' : view === 'errors' ? 'Search errors...' : 'Search prompts...'}
+            className="flex-1 bg-transparent outline-none text-sm font-medium"
+          />
+        </div>
+        {view === 'sessions' && (
+          <button
+            onClick={() => setStarredOnly((s) => !s)}
+            className={`flex items-center gap-2 px-5 py-3 rounded-[24px] border text-[10px] font-black uppercase transition-all ${starredOnly ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-white border-slate-100 text-slate-400'}`}
+          >
+            <Star size={14} fill={starredOnly ? 'currentColor' : 'none'} /> Starred
+          </button>
+        )}
+      </div>
+
+      {view === 'errors' ? (
+        <ErrorLog query={query} />
+      ) : view === 'sessions' ? (
+        visibleSessions.length === 0 ? (
+          <p className="text-center py-24 text-slate-300 font-black uppercase tracking-[0.3em] text-[10px]">No saved sessions</p>
+        ) : (
+          <div className="space-y-4">
+            {visibleSessions.map((session) => {
+              const stars = session.outputs.filter((o) => o.starred).length;
+              return (
+                <div key={session.id} className="bg-white rounded-[32px] shadow-sm border border-slate-100 overflow-hidden">
+                  <div className="flex items-center gap-5 p-4">
+                    <button onClick={() => setExpandedId(expandedId === session.id ? null : session.id)} className="flex-1 min-w-0 flex items-center gap-5 text-left">
+                      {session.imageBase64 ? (
+                        <img src={session.imageBase64} alt="" className="w-20 h-20 rounded-2xl object-cover bg-slate-50 shrink-0" />
+                      ) : (
+                        <div className="w-20 h-20 rounded-2xl bg-slate-50 shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="font-black text-sm truncate">{session.title}</p>
+                        <p className="text-[11px] text-slate-400 font-medium mt-1">
+                          {new Date(session.updatedAt).toLocaleString()} · {getTarget(session.targetId).label} · {session.model}
+                        </p>
+                        <p className="text-[11px] text-slate-400 font-medium">
+                          {session.outputs.length} variant{session.outputs.length === 1 ? '' : 's'}
+                          {stars > 0 && <span className="text-amber-600"> · {stars} starred</span>}
+                        </p>
+                      </div>
+                    </button>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button onClick={() => onRestore(session)} className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-black text-white text-[10px] font-black uppercase">
+                        <RotateCcw size={12} /> Restore
+                      </button>
+                      <button onClick={() => exportOne(session)} title="Export as zip" className="p-2 rounded-full text-slate-400 hover:text-black hover:bg-slate-50">
+                        <Download size={14} />
+                      </button>
+                      {deleteButton(session.id, () => removeSession(session.id))}
+                    </div>
+                  </div>
+                  {expandedId === session.id && (
+                    <ul className="border-t border-slate-50 divide-y divide-slate-50">
+                      {session.directives && <li className="px-6 py-3 text-xs text-slate-500 whitespace-pre-wrap">{session.directives}</li>}
+                      {session.outputs.map((output, i) => (
+                        <li key={output.id} className="flex items-center gap-3 px-6 py-2.5 text-xs">
+                          <button onClick={() => toggleStar(session, output.id)} title={output.starred ? 'Unstar' : 'Star'} className={output.starred ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}>
+                            <Star size={14} fill={output.starred ? 'currentColor' : 'none'} />
+                          </button>
+                          <span className="font-bold">Variant {i + 1}</span>
+                          <span className="text-slate-400">
+                            v{output.activeVersion} of {output.versions.length} · {output.code.split('\n').length} lines
+                            {output.files?.length ? ` · ${output.files.length + 1} files` : ''}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      ) : visibleAssets.length === 0 ? (
+        <p className="text-center py-24 text-slate-300 font-black uppercase tracking-[0.3em] text-[10px]">No saved assets</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visibleAssets.map((asset) => (
+            <div key={asset.id} className="bg-white p-3 rounded-[32px] shadow-sm border border-slate-100">
+              {asset.type === 'image' ? (
+                <img src={assetUrls.get(asset.id)} alt={asset.prompt} className="w-full h-56 object-cover rounded-[24px]" />
+              ) : (
+                <video src={assetUrls.get(asset.id)} controls className="w-full h-56 object-cover rounded-[24px]" />
+              )}
+              <div className="flex items-center gap-2 pt-3 px-2">
+                <p className="flex-1 min-w-0 text-xs text-slate-500 truncate" title={asset.prompt}>{asset.prompt || 'Untitled'}</p>
+                <button onClick={() => downloadBlob(asset.blob, assetFileName(asset))} title="Download" className="p-2 rounded-full text-slate-400 hover:text-black hover:bg-slate-50">
+                  <Download size={14} />
+                </button>
+                {deleteButton(asset.id, () => removeAsset(asset.id))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
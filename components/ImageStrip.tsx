@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { CROP_ASPECTS, CropAspect, SourceImage } from '../services/images';
+
+interface ImageStripProps {
+  images: SourceImage[];
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onCrop: (id: string, crop: CropAspect) => void;
+}
+
+/** Thumbnails of the reference images in the order they are sent; the first is the primary one. */
+const ImageStrip: React.FC<ImageStripProps> = ({ images, onMove, onRemove, onCrop }) => (
+  <div className="flex gap-3 overflow-x-auto pb-1">
+    {images.map((image, i) => (
+      <div key={image.id} className="shrink-0 w-28 bg-white rounded-2xl border border-slate-100 shadow-sm p-1.5 space-y-1.5">
+        <div className="relative">
+          <img src={image.dataUrl} alt={`Reference ${i + 1}`} className="w-full h-20 object-cover rounded-xl bg-slate-50" />
+          {i === 0 && images.length > 1 && (
+            <span className="absolute top-1 left-1 px-1.5 rounded-full bg-black text-white text-[8px] font-black uppercase">Primary</span>
+          )}
+          <button
+            onClick={() => onRemove(image.id)}
+            title="Remove"
+            className="absolute top-1 right-1 w-5 h-5 rounded-full bg-white/90 text-slate-500 hover:text-red-500 flex items-center justify-center shadow-sm"
+          >
+            <X size={11} />
+          </button>
+        </div>
+        <div className="flex items-center gap-0.5">
+          <button onClick={() => onMove(image.id, -1)} disabled={i === 0} title="Move earlier" className="p-0.5 text-slate-400 hover:text-black disabled:opacity-20">
+            <ChevronLeft size={12} />
+          </button>
+          <select
+            value={image.crop}
+            onChange={(e) => onCrop(image.id, e.target.value as CropAspect)}
+            title={image.width ? `${image.width}×${image.height} ${image.mimeType}` : image.mimeType}
+            className="flex-1 min-w-0 bg-transparent text-[10px] font-bold text-slate-500 outline-none text-center"
+          >
+            {CROP_ASPECTS.map((aspect) => (
+              <option key={aspect} value={aspect}>{aspect === 'original' ? 'Full' : aspect}</option>
+            ))}
+          </select>
+          <button onClick={() => onMove(image.id, 1)} disabled={i === images.length - 1} title="Move later" className="p-0.5 text-slate-400 hover:text-black disabled:opacity-20">
+            <ChevronRight size={12} />
+          </button>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default ImageStrip;
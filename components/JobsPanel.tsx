@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useReducer } from 'react';
+import { Loader2, RotateCw, Square, X } from 'lucide-react';
+import { JobTask, cancelJob, dismissJob, listJobs, retryTask, subscribeJobs } from '../services/jobs';
+
+const TASK_STYLES: Record<JobTask['status'], string> = {
+  running: 'bg-blue-500 animate-pulse',
+  waiting: 'bg-amber-400',
+  done: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-slate-300',
+};
+
+const taskTitle = (task: JobTask, index: number) => {
+  const label = `#${index + 1} ${task.status}`;
+  if (task.status === 'waiting' && task.retryAt) {
+    return `${label}: rate limited, retrying in ${Math.max(0, Math.ceil((task.retryAt - Date.now()) / 1000))}s`;
+  }
+  return task.error ? `${label}: ${task.error}` : label;
+};
+
+/** Running and failed model requests, with cancel and per-task retry. */
+const JobsPanel: React.FC = () => {
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const jobs = listJobs();
+  const waiting = jobs.some((j) => j.tasks.some((t) => t.status === 'waiting'));
+
+  useEffect(() => subscribeJobs(refresh), []);
+
+  // Keeps the backoff countdowns current.
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(refresh, 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-80 space-y-2">
+      {jobs.map((job) => {
+        const active = job.tasks.some((t) => t.status === 'running' || t.status === 'waiting');
+        return (
+          <div key={job.id} className="bg-white rounded-2xl shadow-xl border border-slate-100 p-3 space-y-2 animate-in fade-in slide-in-from-bottom-2">
+            <div className="flex items-center gap-2">
+              {active && <Loader2 size={12} className="shrink-0 animate-spin text-slate-400" />}
+              <span className="shrink-0 text-[9px] font-black uppercase tracking-wider text-slate-400">{job.kind}</span>
+              <p className="flex-1 min-w-0 truncate text-xs font-bold" title={job.label}>{job.label}</p>
+              {active ? (
+                <button onClick={() => cancelJob(job.id)} title="Cancel" className="p-1 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50">
+                  <Square size={12} />
+                </button>
+              ) : (
+                <button onClick={() => dismissJob(job.id)} title="Dismiss" className="p-1 rounded-full text-slate-400 hover:text-black hover:bg-slate-50">
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5">
+              {job.tasks.map((task, i) =>
+                task.status === 'failed' || task.status === 'cancelled' ? (
+                  <button
+                    key={i}
+                    onClick={() => retryTask(job.id, i)}
+                    title={`${taskTitle(task, i)}. Click to retry.`}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-50 text-red-600 text-[10px] font-bold hover:bg-red-100"
+                  >
+                    <RotateCw size={9} /> {i + 1}
+                  </button>
+                ) : (
+                  <span key={i} title={taskTitle(task, i)} className={`w-2.5 h-2.5 rounded-full ${TASK_STYLES[task.status]}`} />
+                ),
+              )}
+            </div>
+            {job.tasks.some((t) => t.status === 'waiting') && (
+              <p className="text-[10px] text-amber-600 font-medium">Rate limited; backing off before retrying.</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default JobsPanel;
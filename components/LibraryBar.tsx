@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import { Library, Link2, Plus, Upload, X } from 'lucide-react';
+import {
+  RuntimeSelection,
+  availableLibraries,
+  listCustomLibraries,
+  registerLibraryFile,
+  registerLibraryUrl,
+  removeLibrary,
+  subscribeLibraries,
+} from '../services/libraries';
+import type { OutputTarget } from '../services/targets';
+
+interface LibraryBarProps {
+  target: OutputTarget;
+  selection: RuntimeSelection;
+  onChange: (selection: RuntimeSelection) => void;
+  onError: (e: unknown) => void;
+}
+
+/** Runtime version and add-on toggles for a target, with registration of extra libraries. */
+const LibraryBar: React.FC<LibraryBarProps> = ({ target, selection, onChange, onError }) => {
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const [adding, setAdding] = useState(false);
+  const [url, setUrl] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeLibraries(refresh), []);
+
+  if (!target.runtimes && !target.libraries) return null;
+
+  const libraries = availableLibraries(target, selection.runtime);
+  const customIds = new Set(listCustomLibraries(target.id).map((l) => l.id));
+
+  const toggle = (id: string) =>
+    onChange({
+      ...selection,
+      libraries: selection.libraries.includes(id) ? selection.libraries.filter((l) => l !== id) : [...selection.libraries, id],
+    });
+
+  const added = (id: string) => {
+    onChange({ ...selection, libraries: [...selection.libraries, id] });
+    setAdding(false);
+    setUrl('');
+    setName('');
+    setDescription('');
+  };
+
+  const addUrl = () => {
+    try {
+      added(registerLibraryUrl(target.id, url, { name, description }).id);
+    } catch (e) {
+      onError(e);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      added((await registerLibraryFile(target.id, file, { name, description })).id);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const input = 'px-3 py-1.5 rounded-full border border-gray-200 bg-white text-[11px] font-medium outline-none';
+
+  return (
+    <div className="bg-white/50 p-2 rounded-2xl border border-gray-200 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-[10px] font-bold text-gray-400 uppercase tracking-widest flex items-center gap-1.5 px-2 border-r pr-3">
+          <Library size={12} /> Addons
+        </div>
+        {target.runtimes && (
+          <select
+            value={selection.runtime || target.defaultRuntime}
+            onChange={(e) => onChange({ ...selection, runtime: e.target.value })}
+            title="Runtime version"
+            className="px-3 py-1 rounded-full text-[11px] font-bold border border-gray-200 bg-white outline-none"
+          >
+            {target.runtimes.map((r) => (
+              <option key={r.id} value={r.id}>{r.name}</option>
+            ))}
+          </select>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {libraries.map((lib) => (
+            <span key={lib.id} className="inline-flex items-center">
+              <button
+                onClick={() => toggle(lib.id)}
+                title={lib.description || lib.url || lib.name}
+                className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all border ${
+                  selection.libraries.includes(lib.id)
+                    ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
+                    : 'bg-white text-gray-500 border-gray-200 hover:border-gray-400'
+                }`}
+              >
+                {lib.name}
+              </button>
+              {customIds.has(lib.id) && (
+                <button onClick={() => removeLibrary(lib.id)} title="Remove this library" className="px-1 text-gray-300 hover:text-red-500">
+                  <X size={10} />
+                </button>
+              )}
+            </span>
+          ))}
+          <button
+            onClick={() => setAdding((a) => !a)}
+            className="px-3 py-1 rounded-full text-[11px] font-bold border border-dashed border-gray-300 text-gray-400 hover:text-gray-700 inline-flex items-center gap-1"
+          >
+            <Plus size={10} /> Add
+          </button>
+        </div>
+      </div>
+
+      {adding && (
+        <div className="flex flex-wrap items-center gap-2 px-2 pb-1">
+          <input
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && url.trim() && addUrl()}
+            autoFocus
+            placeholder="https://…/library.min.js"
+            className={`${input} flex-1 min-w-[200px] font-mono`}
+          />
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name (optional)" className={`${input} w-36`} />
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What it adds, for the model"
+            className={`${input} flex-1 min-w-[180px]`}
+          />
+          <button
+            onClick={addUrl}
+            disabled={!url.trim()}
+            className="px-3 py-1.5 rounded-full text-[11px] font-bold bg-black text-white inline-flex items-center gap-1 disabled:opacity-30"
+          >
+            <Link2 size={10} /> Add URL
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 rounded-full text-[11px] font-bold border border-gray-300 bg-white text-gray-700 inline-flex items-center gap-1"
+          >
+            <Upload size={10} /> Upload .js
+          </button>
+          <input ref={fileInputRef} type="file" accept=".js,.mjs,text/javascript" onChange={handleUpload} className="hidden" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryBar;
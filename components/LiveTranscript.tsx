@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useRef } from 'react';
+import { TranscriptTurn } from '../services/liveAudio';
+
+interface LiveTranscriptProps {
+  turns: TranscriptTurn[];
+}
+
+const LiveTranscript: React.FC<LiveTranscriptProps> = ({ turns }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [turns]);
+
+  return (
+    <div className="w-full max-w-2xl h-64 overflow-y-auto bg-white rounded-[32px] shadow-sm border border-slate-100 p-6 space-y-3">
+      {turns.length === 0 ? (
+        <p className="h-full flex items-center justify-center text-slate-300 font-black uppercase tracking-[0.3em] text-[10px]">Transcript</p>
+      ) : (
+        turns.map((turn, i) => (
+          <div key={i} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <p
+              className={`max-w-[85%] px-4 py-2.5 rounded-[20px] text-sm ${
+                turn.role === 'user' ? 'bg-black text-white rounded-tr-none' : 'bg-slate-50 text-slate-800 border border-slate-100 rounded-tl-none'
+              } ${turn.done ? '' : 'opacity-70'}`}
+            >
+              {turn.text}
+              {turn.interrupted && <span className="ml-1 text-[10px] font-bold uppercase text-slate-400">(interrupted)</span>}
+            </p>
+          </div>
+        ))
+      )}
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default LiveTranscript;
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+const components: Components = {
+  p: ({ children }) => <p className="mb-3 last:mb-0 leading-relaxed">{children}</p>,
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noreferrer" className="text-blue-600 underline underline-offset-2">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-3 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-3 space-y-1">{children}</ol>,
+  h1: ({ children }) => <h3 className="font-black text-base mb-2">{children}</h3>,
+  h2: ({ children }) => <h3 className="font-black text-base mb-2">{children}</h3>,
+  h3: ({ children }) => <h4 className="font-black text-sm mb-2">{children}</h4>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-slate-200 pl-3 text-slate-500 mb-3">{children}</blockquote>,
+  pre: ({ children }) => (
+    <pre className="mb-3 p-4 rounded-2xl bg-slate-900 text-slate-100 text-xs overflow-x-auto [&_code]:bg-transparent [&_code]:p-0">{children}</pre>
+  ),
+  code: ({ children, className }) => (
+    <code className={`${className || ''} font-mono text-[0.85em] px-1.5 py-0.5 rounded-md bg-slate-200/70`}>{children}</code>
+  ),
+  table: ({ children }) => <table className="mb-3 text-xs border-collapse [&_td]:border [&_th]:border [&_td]:px-2 [&_th]:px-2">{children}</table>,
+};
+
+/** Renders model output as GitHub-flavoured markdown with app styling; `overrides` replace single elements, e.g. special links. */
+const Markdown: React.FC<{ children: string; overrides?: Components }> = ({ children, overrides }) => (
+  <ReactMarkdown remarkPlugins={[remarkGfm]} components={overrides ? { ...components, ...overrides } : components}>
+    {children}
+  </ReactMarkdown>
+);
+
+export default Markdown;
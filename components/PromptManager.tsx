@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useRef, useState } from 'react';
+import { BookmarkPlus, ChevronDown, ChevronUp, Download, FolderOpen, Plus, Save, ScrollText, Trash2, X } from 'lucide-react';
+import { downloadBlob } from '../services/history';
+import {
+  Preset,
+  PresetKind,
+  PresetScope,
+  createPresetId,
+  deletePreset,
+  exportPresets,
+  importPresets,
+  loadPresets,
+  placeholderNames,
+  savePreset,
+} from '../services/presets';
+import type { TargetId } from '../services/targets';
+
+interface PromptManagerProps {
+  scope: PresetScope;
+  /** Generator presets are kept per output target. */
+  targetId?: TargetId;
+  /** The system prompt in effect; editing writes straight to it. */
+  systemPrompt: string;
+  defaultSystemPrompt: string;
+  onSystemPromptChange: (text: string) => void;
+  activePresetId: string | null;
+  onActivePresetChange: (preset: Preset | null) => void;
+  values: Record<string, string>;
+  onValuesChange: (values: Record<string, string>) => void;
+  /** Current directives: their placeholders get fields too, and they can be saved as a snippet. */
+  directives: string;
+  onInsertSnippet: (text: string) => void;
+  onError: (e: unknown) => void;
+}
+
+/** Named system prompts and directive snippets for one tab, with `{{variable}}` fields. */
+const PromptManager: React.FC<PromptManagerProps> = ({
+  scope,
+  targetId,
+  systemPrompt,
+  defaultSystemPrompt,
+  onSystemPromptChange,
+  activePresetId,
+  onActivePresetChange,
+  values,
+  onValuesChange,
+  directives,
+  onInsertSnippet,
+  onError,
+}) => {
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const [expanded, setExpanded] = useState(false);
+  const [naming, setNaming] = useState<PresetKind | null>(null);
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const inScope = presets.filter((p) => p.scope === scope && (!targetId || !p.targetId || p.targetId === targetId));
+  const systemPresets = inScope.filter((p) => p.kind === 'system');
+  const snippets = inScope.filter((p) => p.kind === 'snippet');
+  const active = systemPresets.find((p) => p.id === activePresetId) || null;
+  const edited = systemPrompt !== (active ? active.text : defaultSystemPrompt);
+  const fields = placeholderNames(systemPrompt, directives);
+
+  const select = (id: string) => {
+    const preset = systemPresets.find((p) => p.id === id) || null;
+    onActivePresetChange(preset);
+    onSystemPromptChange(preset ? preset.text : defaultSystemPrompt);
+  };
+
+  const saveNamed = () => {
+    const text = naming === 'system' ? systemPrompt : directives.trim();
+    if (!naming || !name.trim() || !text) return;
+    const preset: Preset = {
+      id: createPresetId(),
+      name: name.trim(),
+      scope,
+      kind: naming,
+      text,
+      targetId: scope === 'sketch' && naming === 'system' ? targetId : undefined,
+      updatedAt: Date.now(),
+    };
+    setPresets(savePreset(preset));
+    if (naming === 'system') onActivePresetChange(preset);
+    setNaming(null);
+    setName('');
+  };
+
+  const updateActive = () => {
+    if (active) setPresets(savePreset({ ...active, text: systemPrompt, updatedAt: Date.now() }));
+  };
+
+  const remove = (preset: Preset) => {
+    setPresets(deletePreset(preset.id));
+    if (preset.id === activePresetId) select('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPresets(importPresets(JSON.parse(await file.text())));
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(exportPresets(presets), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `prompt-presets-${Date.now()}.json`);
+  };
+
+  const iconButton = 'p-2 rounded-full text-slate-400 hover:text-black hover:bg-slate-50 disabled:opacity-30';
+  const pillButton = 'flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-slate-100 text-[10px] font-black uppercase text-slate-500 hover:text-black disabled:opacity-30';
+
+  return (
+    <div className="bg-white border border-slate-100 rounded-[32px] shadow-sm p-5 space-y-4">
+      <div className="flex items-center gap-2">
+        <button onClick={() => setExpanded((x) => !x)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+          <ScrollText size={16} className="shrink-0 text-slate-400" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">System prompt</span>
+          <span className="truncate text-xs font-bold">
+            {active ? active.name : 'Default'}
+            {edited && <span className="text-slate-400 font-medium"> (edited)</span>}
+          </span>
+          {expanded ? <ChevronUp size={14} className="text-slate-400" /> : <ChevronDown size={14} className="text-slate-400" />}
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} title="Import presets" className={iconButton}>
+          <FolderOpen size={14} />
+        </button>
+        <button onClick={handleExport} disabled={presets.length === 0} title="Export all presets" className={iconButton}>
+          <Download size={14} />
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {expanded && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={active?.id || ''}
+              onChange={(e) => select(e.target.value)}
+              className="flex-1 min-w-[140px] px-4 py-2 rounded-full border border-slate-100 bg-slate-50 text-xs font-bold outline-none"
+            >
+              <option value="">Default</option>
+              {systemPresets.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            {active && (
+              <button onClick={updateActive} disabled={!edited} title="Save the edits into this preset" className={pillButton}>
+                <Save size={12} /> Update
+              </button>
+            )}
+            <button onClick={() => setNaming('system')} disabled={!systemPrompt.trim()} className={pillButton}>
+              <BookmarkPlus size={12} /> Save as
+            </button>
+            {active && (
+              <button onClick={() => remove(active)} title="Delete this preset" className={iconButton}>
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+          <textarea
+            value={systemPrompt}
+            onChange={(e) => onSystemPromptChange(e.target.value)}
+            placeholder="No system prompt"
+            className="w-full p-4 bg-slate-50 rounded-[20px] outline-none min-h-[160px] text-xs font-mono"
+          />
+        </div>
+      )}
+
+      {naming && (
+        <div className="flex items-center gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveNamed()}
+            autoFocus
+            placeholder={naming === 'system' ? 'Preset name' : 'Snippet name'}
+            className="flex-1 px-4 py-2 rounded-full border border-slate-100 bg-slate-50 text-xs font-bold outline-none"
+          />
+          <button onClick={saveNamed} disabled={!name.trim()} className={pillButton}>
+            <Save size={12} /> Save
+          </button>
+          <button onClick={() => setNaming(null)} title="Cancel" className={iconButton}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {(snippets.length > 0 || directives.trim()) && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {snippets.map((snippet) => (
+            <span key={snippet.id} className="group inline-flex items-center rounded-full bg-slate-50 border border-slate-100">
+              <button onClick={() => onInsertSnippet(snippet.text)} title={snippet.text} className="pl-3 pr-1.5 py-1 text-[11px] font-bold text-slate-600 hover:text-black">
+                {snippet.name}
+              </button>
+              <button onClick={() => remove(snippet)} title="Delete snippet" className="pr-2 text-slate-300 hover:text-red-500">
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+          {directives.trim() && (
+            <button onClick={() => setNaming('snippet')} title="Save the current directives as a reusable snippet" className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-[11px] font-bold text-slate-400 hover:text-black">
+              <Plus size={10} /> Snippet
+            </button>
+          )}
+        </div>
+      )}
+
+      {fields.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {fields.map((field) => (
+            <label key={field} className="flex items-center gap-2 px-4 py-2 rounded-full bg-slate-50 border border-slate-100">
+              <span className="shrink-0 font-mono text-[11px] font-bold text-slate-500">{field}</span>
+              <input
+                value={values[field] || ''}
+                onChange={(e) => onValuesChange({ ...values, [field]: e.target.value })}
+                placeholder="required"
+                className="flex-1 min-w-0 bg-transparent outline-none text-xs font-medium"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptManager;
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import { Server, Download, FolderOpen, Trash2 } from 'lucide-react';
+import {
+  PROVIDERS,
+  ProviderId,
+  RecordMode,
+  clearRecording,
+  exportFixtures,
+  getFixtureStats,
+  getProviderId,
+  getRecordMode,
+  loadFixtures,
+  setProviderId,
+  setRecordMode,
+  subscribeFixtures,
+} from '../services/providers';
+import { AppError, ErrorContext } from '../services/errors';
+
+const RECORD_MODES: { id: RecordMode; label: string }[] = [
+  { id: 'off', label: 'Live' },
+  { id: 'record', label: 'Rec' },
+  { id: 'replay', label: 'Replay' },
+];
+
+interface ProviderSwitcherProps {
+  onError: (e: unknown, context?: ErrorContext) => void;
+}
+
+const ProviderSwitcher: React.FC<ProviderSwitcherProps> = ({ onError }) => {
+  const [providerId, setProviderIdState] = useState<ProviderId>(getProviderId);
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeFixtures(refresh), []);
+
+  const select = (id: ProviderId) => {
+    setProviderId(id);
+    setProviderIdState(id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(exportFixtures(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `genai-fixtures-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      let parsed;
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        throw new AppError('input', `${file.name} is not valid JSON.`);
+      }
+      loadFixtures(parsed);
+    } catch (err) {
+      onError(err, { feature: 'fixtures' });
+    }
+  };
+
+  const mode = getRecordMode();
+  const stats = getFixtureStats();
+
+  return (
+    <div className="space-y-2">
+      <p className="hidden md:flex items-center gap-1.5 px-2 text-[10px] font-black uppercase text-slate-400 tracking-wider">
+        <Server size={10} /> Provider
+      </p>
+      <div className="bg-slate-50 p-1.5 rounded-2xl flex flex-col md:flex-row gap-1">
+        {PROVIDERS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => select(p.id)}
+            className={`flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${providerId === p.id ? 'bg-white text-black shadow-sm' : 'text-slate-400'}`}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+      <div className="bg-slate-50 p-1.5 rounded-2xl flex flex-col md:flex-row gap-1">
+        {RECORD_MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => setRecordMode(m.id)}
+            className={`flex-1 py-1.5 rounded-xl text-[10px] font-black uppercase transition-all ${
+              mode === m.id ? (m.id === 'record' ? 'bg-red-500 text-white' : 'bg-white text-black shadow-sm') : 'text-slate-400'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {mode !== 'off' && (
+        <div className="hidden md:flex items-center justify-between px-2 text-[10px] font-bold text-slate-400">
+          <span>{mode === 'record' ? `${stats.recorded} recorded` : `${stats.loaded} loaded`}</span>
+          <div className="flex gap-2">
+            {mode === 'record' ? (
+              <>
+                <button onClick={handleExport} disabled={!stats.recorded} title="Export fixtures" className="hover:text-black disabled:opacity-30"><Download size={12} /></button>
+                <button onClick={clearRecording} disabled={!stats.recorded} title="Clear recording" className="hover:text-black disabled:opacity-30"><Trash2 size={12} /></button>
+              </>
+            ) : (
+              <button onClick={() => fileInputRef.current?.click()} title="Load fixture file" className="hover:text-black"><FolderOpen size={12} /></button>
+            )}
+          </div>
+          <input ref={fileInputRef} type="file" accept="application/json" className="hidden" onChange={handleLoad} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSwitcher;
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import { Download, FolderOpen, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { downloadBlob } from '../services/history';
+import { CAPABILITIES, FEATURES, ModelCapability, ModelFeature, hasCapability, modelsFor } from '../services/models';
+import {
+  LIMITS,
+  addCustomModel,
+  exportSettings,
+  getCatalog,
+  getModelInfo,
+  getSettings,
+  importSettings,
+  maxThinkingBudget,
+  removeCustomModel,
+  resetSettings,
+  setFeatureModel,
+  subscribeSettings,
+  updateSettings,
+} from '../services/settings';
+
+/** Features whose requests carry sampling and thinking settings. */
+const TEXT_FEATURES: ModelFeature[] = ['code', 'codeLite', 'explain', 'chat', 'maps'];
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onError: (e: unknown) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  limits: { min: number; max: number; step: number };
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, limits, onChange }) => (
+  <label className="block space-y-1">
+    <div className="flex justify-between text-[10px] font-black uppercase text-slate-400 tracking-wider">
+      <span>{label}</span>
+      <span className="text-black">{value}</span>
+    </div>
+    <input
+      type="range"
+      min={limits.min}
+      max={limits.max}
+      step={limits.step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-black"
+    />
+  </label>
+);
+
+/** Model per feature, sampling and thinking controls, and custom models. */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, onError }) => {
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const [newId, setNewId] = useState('');
+  const [newCapabilities, setNewCapabilities] = useState<ModelCapability[]>(['text', 'sampling']);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeSettings(refresh), []);
+
+  const settings = getSettings();
+  const catalog = getCatalog();
+  const labelsWith = (capability: ModelCapability) =>
+    FEATURES.filter((f) => TEXT_FEATURES.includes(f.id) && hasCapability(getModelInfo(settings.models[f.id]), capability)).map((f) => f.label);
+  const sampled = labelsWith('sampling');
+  const thinking = labelsWith('thinking');
+  const budgetMax = Math.max(0, ...TEXT_FEATURES.map((f) => maxThinkingBudget(getModelInfo(settings.models[f]))));
+
+  const toggleCapability = (capability: ModelCapability) =>
+    setNewCapabilities((c) => (c.includes(capability) ? c.filter((x) => x !== capability) : [...c, capability]));
+
+  const addModel = () => {
+    const id = newId.trim();
+    if (!id || newCapabilities.length === 0) return;
+    addCustomModel({ id, label: id, capabilities: newCapabilities, custom: true });
+    setNewId('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      importSettings(JSON.parse(await file.text()));
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(exportSettings(), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `image-to-code-settings-${Date.now()}.json`);
+  };
+
+  const sectionTitle = 'text-[10px] font-black uppercase tracking-widest text-slate-400';
+  const pillButton = 'flex items-center gap-1.5 px-4 py-2 rounded-full border border-slate-100 text-[10px] font-black uppercase text-slate-500 hover:text-black disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-[32px] shadow-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="font-black text-lg tracking-tight">Settings</h3>
+          <button onClick={onClose} title="Close" className="p-2 rounded-full text-slate-400 hover:text-black hover:bg-slate-50">
+            <X size={18} />
+          </button>
+        </div>
+
+        <section className="space-y-3">
+          <p className={sectionTitle}>Models</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {FEATURES.map((feature) => (
+              <label key={feature.id} className="block space-y-1">
+                <span className="px-1 text-[11px] font-bold text-slate-500">{feature.label}</span>
+                <select
+                  value={settings.models[feature.id]}
+                  onChange={(e) => setFeatureModel(feature.id, e.target.value)}
+                  className="w-full px-4 py-2 rounded-full border border-slate-100 bg-slate-50 text-xs font-bold outline-none"
+                >
+                  {modelsFor(catalog, feature.id).map((m) => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-4">
+          <p className={sectionTitle}>Generation</p>
+          <Slider
+            label="Variants per run"
+            value={settings.concurrentRequests}
+            limits={LIMITS.concurrentRequests}
+            onChange={(concurrentRequests) => updateSettings({ concurrentRequests })}
+          />
+          {sampled.length > 0 ? (
+            <>
+              <Slider label="Temperature" value={settings.temperature} limits={LIMITS.temperature} onChange={(temperature) => updateSettings({ temperature })} />
+              <Slider label="Top K" value={settings.topK} limits={LIMITS.topK} onChange={(topK) => updateSettings({ topK })} />
+              <Slider label="Top P" value={settings.topP} limits={LIMITS.topP} onChange={(topP) => updateSettings({ topP })} />
+              <p className="text-[11px] text-slate-400 font-medium">Sampling applies to {sampled.join(', ')}.</p>
+            </>
+          ) : (
+            <p className="text-[11px] text-slate-400 font-medium">None of the selected models take sampling settings.</p>
+          )}
+          {thinking.length > 0 && (
+            <>
+              <Slider
+                label="Thinking budget"
+                value={Math.min(settings.thinkingBudget, budgetMax)}
+                limits={{ ...LIMITS.thinkingBudget, max: budgetMax }}
+                onChange={(thinkingBudget) => updateSettings({ thinkingBudget })}
+              />
+              <p className="text-[11px] text-slate-400 font-medium">
+                Thinking applies to {thinking.join(', ')} while the Thinking toggle is on, capped at each model's limit.
+              </p>
+            </>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <p className={sectionTitle}>Custom models</p>
+          {settings.customModels.map((m) => (
+            <div key={m.id} className="flex items-center gap-2 px-4 py-2 rounded-full bg-slate-50 border border-slate-100">
+              <span className="flex-1 min-w-0 truncate font-mono text-xs font-bold">{m.id}</span>
+              <span className="truncate text-[10px] font-bold text-slate-400">
+                {m.capabilities.map((c) => CAPABILITIES.find((x) => x.id === c)?.label).join(' · ')}
+              </span>
+              <button onClick={() => removeCustomModel(m.id)} title="Remove model" className="text-slate-300 hover:text-red-500">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          <input
+            value={newId}
+            onChange={(e) => setNewId(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addModel()}
+            placeholder="Model id"
+            className="w-full px-4 py-2 rounded-full border border-slate-100 bg-slate-50 text-xs font-mono outline-none"
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {CAPABILITIES.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => toggleCapability(c.id)}
+                className={`px-3 py-1 rounded-full text-[11px] font-bold transition-all ${newCapabilities.includes(c.id) ? 'bg-black text-white' : 'bg-slate-50 text-slate-400 hover:text-black'}`}
+              >
+                {c.label}
+              </button>
+            ))}
+            <button onClick={addModel} disabled={!newId.trim() || newCapabilities.length === 0} className={pillButton}>
+              <Plus size={12} /> Add
+            </button>
+          </div>
+        </section>
+
+        <div className="flex flex-wrap gap-2 pt-4 border-t border-slate-50">
+          <button onClick={() => fileInputRef.current?.click()} className={pillButton}>
+            <FolderOpen size={12} /> Import
+          </button>
+          <button onClick={handleExport} className={pillButton}>
+            <Download size={12} /> Export
+          </button>
+          <button onClick={resetSettings} className={`${pillButton} ml-auto`}>
+            <RotateCcw size={12} /> Reset
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
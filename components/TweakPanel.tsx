@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React from 'react';
+import { RotateCcw, SlidersHorizontal, Stamp } from 'lucide-react';
+import { Tweak, TweakValue } from '../services/tweaks';
+
+interface TweakPanelProps {
+  tweaks: Tweak[];
+  values: Record<string, TweakValue>;
+  onChange: (tweak: Tweak, value: TweakValue) => void;
+  onReset: () => void;
+  onBake: () => void;
+}
+
+/** <input type="color"> only takes #rrggbb. */
+const toPickerColor = (value: string) => {
+  const hex = value.slice(1);
+  return hex.length === 3 ? `#${hex.replace(/./g, (c) => c + c)}` : `#${hex.slice(0, 6)}`;
+};
+
+/** Keeps an alpha suffix the picker cannot show. */
+const fromPickerColor = (picked: string, previous: string) => (previous.length === 9 ? picked + previous.slice(7) : picked);
+
+const TweakPanel: React.FC<TweakPanelProps> = ({ tweaks, values, onChange, onReset, onBake }) => {
+  const changed = Object.keys(values).length > 0;
+
+  return (
+    <div className="bg-white/50 p-3 rounded-2xl border border-gray-200 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-[10px] font-bold text-gray-400 uppercase tracking-widest flex items-center gap-1.5 px-2">
+          <SlidersHorizontal size={12} /> Tweak
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onReset}
+            disabled={!changed}
+            title="Back to the values in the code"
+            className="px-3 py-1 rounded-full text-[11px] font-bold transition-all border bg-white text-gray-600 border-gray-200 disabled:opacity-30 inline-flex items-center gap-1.5"
+          >
+            <RotateCcw size={10} /> Reset
+          </button>
+          <button
+            onClick={onBake}
+            disabled={!changed}
+            title="Write these values into the code as a new version"
+            className="px-3 py-1 rounded-full text-[11px] font-bold transition-all border bg-black text-white border-black disabled:opacity-30 inline-flex items-center gap-1.5"
+          >
+            <Stamp size={10} /> Bake
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1.5 px-2">
+        {tweaks.map((tweak) => {
+          const value = tweak.name in values ? values[tweak.name] : tweak.value;
+          return (
+            <label
+              key={tweak.name}
+              className="flex items-center gap-2 text-[11px] text-gray-600"
+              title={tweak.live ? 'Applies instantly' : 'Restarts the preview to apply'}
+            >
+              <span className={`w-28 shrink-0 truncate font-mono ${tweak.name in values ? 'text-black font-bold' : ''}`}>
+                {tweak.name}
+                {!tweak.live && <span className="text-gray-400">*</span>}
+              </span>
+              {tweak.kind === 'number' && (
+                <>
+                  <input
+                    type="range"
+                    min={Math.min(tweak.min!, value as number)}
+                    max={Math.max(tweak.max!, value as number)}
+                    step={tweak.step}
+                    value={value as number}
+                    onChange={(e) => onChange(tweak, parseFloat(e.target.value))}
+                    className="flex-1 min-w-0 accent-black"
+                  />
+                  <span className="w-12 text-right font-mono">{Number((value as number).toFixed(3))}</span>
+                </>
+              )}
+              {tweak.kind === 'color' && (
+                <>
+                  <input
+                    type="color"
+                    value={toPickerColor(value as string)}
+                    onChange={(e) => onChange(tweak, fromPickerColor(e.target.value, value as string))}
+                    className="w-8 h-5 p-0 border rounded cursor-pointer"
+                  />
+                  <span className="font-mono">{value as string}</span>
+                </>
+              )}
+              {tweak.kind === 'boolean' && (
+                <input type="checkbox" checked={value as boolean} onChange={(e) => onChange(tweak, e.target.checked)} />
+              )}
+            </label>
+          );
+        })}
+      </div>
+      {tweaks.some((t) => !t.live) && (
+        <p className="px-2 text-[10px] text-gray-400">* only read at start-up; changing it restarts the preview.</p>
+      )}
+    </div>
+  );
+};
+
+export default TweakPanel;
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useEffectEvent, useReducer, useState } from 'react';
+import { Gauge, RotateCcw, Trash2, ZapOff } from 'lucide-react';
+import { listSessions } from '../services/history';
+import {
+  Budgets,
+  ModelPrice,
+  UsageFeature,
+  UsageRecord,
+  UsageRow,
+  clearUsage,
+  getBudgets,
+  getPrices,
+  groupUsage,
+  listRateLimits,
+  listUsage,
+  resetPrices,
+  setBudgets,
+  setPrice,
+  spentSince,
+  startOfDay,
+  startOfMonth,
+  subscribeUsage,
+} from '../services/usage';
+
+interface UsagePanelProps {
+  onError: (e: unknown) => void;
+}
+
+type Period = 'day' | 'month' | 'all';
+type Breakdown = 'feature' | 'session' | 'model';
+
+const FEATURE_LABELS: Record<UsageFeature, string> = {
+  code: 'Generator',
+  refine: 'Refine',
+  repair: 'Repair',
+  explain: 'Explain',
+  chat: 'Chat',
+  image: 'Studio image',
+  edit: 'Studio edit',
+  video: 'Studio video',
+};
+
+const PRICE_FIELDS: { id: keyof ModelPrice; label: string }[] = [
+  { id: 'input', label: 'In / 1M' },
+  { id: 'output', label: 'Out / 1M' },
+  { id: 'image', label: 'Image' },
+  { id: 'videoSecond', label: 'Video s' },
+];
+
+const formatCost = (usd: number) => `$${usd < 10 ? usd.toFixed(3) : usd.toFixed(2)}`;
+const formatCount = (n: number) => n.toLocaleString();
+
+const since = (period: Period) => (period === 'day' ? startOfDay() : period === 'month' ? startOfMonth() : 0);
+
+/** Spending per session, feature and model, with the price table and budgets that drive it. */
+const UsagePanel: React.FC<UsagePanelProps> = ({ onError }) => {
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+  const [period, setPeriod] = useState<Period>('day');
+  const [breakdown, setBreakdown] = useState<Breakdown>('feature');
+  const [sessionTitles, setSessionTitles] = useState<Map<string, string>>(new Map());
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => subscribeUsage(refresh), []);
+  const loadSessionTitles = useEffectEvent(() => {
+    listSessions()
+      .then((sessions) => setSessionTitles(new Map(sessions.map((s) => [s.id, s.title]))))
+      .catch(onError);
+  });
+  useEffect(() => loadSessionTitles(), []);
+
+  const records = listUsage().filter((r) => r.at >= since(period));
+  const rateLimits = listRateLimits().filter((r) => r.at >= since(period));
+  const prices = getPrices();
+  const budgets = getBudgets();
+  const total = groupUsage(records, () => 'total')[0];
+  const models = [...new Set([...Object.keys(prices), ...listUsage().map((r) => r.model)])];
+
+  const keyOf: Record<Breakdown, (r: UsageRecord) => string> = {
+    feature: (r) => r.feature,
+    session: (r) => r.sessionId || '',
+    model: (r) => r.model,
+  };
+  const rowLabel = (row: UsageRow) => {
+    if (breakdown === 'feature') return FEATURE_LABELS[row.key as UsageFeature] || row.key;
+    if (breakdown === 'session') return row.key ? sessionTitles.get(row.key) || 'Deleted session' : 'No session (chat and Studio)';
+    return row.key;
+  };
+
+  const changeBudget = (patch: Partial<Budgets>) => setBudgets({ ...budgets, ...patch });
+  const parseLimit = (value: string) => (value.trim() === '' || Number(value) < 0 ? null : Number(value));
+
+  const tabButton = (active: boolean) =>
+    `px-4 py-2 rounded-[18px] text-[10px] font-black uppercase transition-all ${active ? 'bg-black text-white shadow-lg' : 'text-slate-400 hover:text-slate-600'}`;
+  const card = 'bg-white border border-slate-100 rounded-[32px] shadow-sm p-6';
+  const numberInput = 'w-full px-3 py-2 rounded-full border border-slate-100 bg-slate-50 text-xs font-bold outline-none';
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-700">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex p-1.5 bg-white border border-slate-100 rounded-[24px] shadow-sm">
+          {([['day', 'Today'], ['month', 'This month'], ['all', 'All time']] as const).map(([id, label]) => (
+            <button key={id} onClick={() => setPeriod(id)} className={tabButton(period === id)}>{label}</button>
+          ))}
+        </div>
+        <div className="ml-auto">
+          {confirmClear ? (
+            <button
+              onClick={() => { clearUsage(); setConfirmClear(false); }}
+              onBlur={() => setConfirmClear(false)}
+              autoFocus
+              className="px-4 py-2 rounded-full bg-red-500 text-white text-[10px] font-black uppercase"
+            >
+              Clear log?
+            </button>
+          ) : (
+            <button onClick={() => setConfirmClear(true)} className="flex items-center gap-1.5 px-4 py-2 rounded-full border border-slate-100 bg-white text-[10px] font-black uppercase text-slate-400 hover:text-red-500">
+              <Trash2 size={12} /> Clear log
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          ['Cost', formatCost(total?.cost || 0)],
+          ['Calls', formatCount(total?.calls || 0)],
+          ['Tokens in / out', `${formatCount(total?.promptTokens || 0)} / ${formatCount((total?.outputTokens || 0) + (total?.thinkingTokens || 0))}`],
+          ['Rate limited', formatCount(rateLimits.length)],
+        ].map(([label, value]) => (
+          <div key={label} className={card}>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{label}</p>
+            <p className="mt-2 text-xl font-black tracking-tight">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className={`${card} space-y-4`}>
+        <div className="flex flex-wrap items-center gap-4">
+          <p className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <Gauge size={14} /> Breakdown
+          </p>
+          <div className="flex p-1 bg-slate-50 rounded-[20px]">
+            {([['feature', 'Feature'], ['session', 'Session'], ['model', 'Model']] as const).map(([id, label]) => (
+              <button key={id} onClick={() => setBreakdown(id)} className={tabButton(breakdown === id)}>{label}</button>
+            ))}
+          </div>
+        </div>
+        {records.length === 0 ? (
+          <p className="py-12 text-center text-slate-300 font-black uppercase tracking-[0.3em] text-[10px]">No usage recorded</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] font-black uppercase text-slate-400">
+                  <th className="py-2 pr-4">Name</th>
+                  <th className="py-2 pr-4 text-right">Calls</th>
+                  <th className="py-2 pr-4 text-right">In</th>
+                  <th className="py-2 pr-4 text-right">Out</th>
+                  <th className="py-2 pr-4 text-right">Thinking</th>
+                  <th className="py-2 pr-4 text-right">Images</th>
+                  <th className="py-2 pr-4 text-right">Video s</th>
+                  <th className="py-2 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groupUsage(records, keyOf[breakdown]).map((row) => (
+                  <tr key={row.key} className="border-t border-slate-50 font-medium">
+                    <td className="py-2 pr-4 max-w-[240px] truncate font-bold" title={rowLabel(row)}>{rowLabel(row)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCount(row.calls)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCount(row.promptTokens)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCount(row.outputTokens)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCount(row.thinkingTokens)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCount(row.images)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCount(row.videoSeconds)}</td>
+                    <td className="py-2 text-right font-black">{formatCost(row.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className={`${card} space-y-4`}>
+          <p className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <ZapOff size={14} /> Budgets
+          </p>
+          {([['daily', 'Daily', startOfDay()], ['monthly', 'Monthly', startOfMonth()]] as const).map(([id, label, from]) => (
+            <label key={id} className="block space-y-1">
+              <div className="flex justify-between px-1 text-[11px] font-bold text-slate-500">
+                <span>{label} limit ($)</span>
+                <span className="text-slate-400">{formatCost(spentSince(from))} spent</span>
+              </div>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={budgets[id] ?? ''}
+                onChange={(e) => changeBudget({ [id]: parseLimit(e.target.value) })}
+                placeholder="No limit"
+                className={numberInput}
+              />
+            </label>
+          ))}
+          <div className="flex p-1 bg-slate-50 rounded-[20px]">
+            {([['warn', 'Warn'], ['block', 'Block']] as const).map(([id, label]) => (
+              <button key={id} onClick={() => changeBudget({ mode: id })} className={`flex-1 ${tabButton(budgets.mode === id)}`}>{label}</button>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-400 font-medium">
+            Runs are estimated from recent calls of the same kind before they start. Over budget, they are flagged or refused.
+          </p>
+        </div>
+
+        <div className={`${card} space-y-4 lg:col-span-2`}>
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Prices (USD)</p>
+            <button onClick={resetPrices} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-slate-100 text-[10px] font-black uppercase text-slate-500 hover:text-black">
+              <RotateCcw size={12} /> Defaults
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] font-black uppercase text-slate-400">
+                  <th className="py-2 pr-4">Model</th>
+                  {PRICE_FIELDS.map((f) => <th key={f.id} className="py-2 pr-2 w-24">{f.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {models.map((model) => {
+                  const price = prices[model] || { input: 0, output: 0, image: 0, videoSecond: 0 };
+                  return (
+                    <tr key={model} className="border-t border-slate-50">
+                      <td className="py-2 pr-4 font-mono font-bold truncate max-w-[220px]" title={model}>{model}</td>
+                      {PRICE_FIELDS.map((f) => (
+                        <td key={f.id} className="py-1 pr-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={price[f.id]}
+                            onChange={(e) => setPrice(model, { ...price, [f.id]: Math.max(0, Number(e.target.value) || 0) })}
+                            className={numberInput}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
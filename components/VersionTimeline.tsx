@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { RotateCcw, Check } from 'lucide-react';
+import { VersionedOutput, VersionSource, previousVersion } from '../services/versions';
+
+interface VersionTimelineProps {
+  output: VersionedOutput;
+  language: string;
+  onCheckout: (versionId: number) => void;
+}
+
+const SOURCE_STYLES: Record<VersionSource, string> = {
+  generated: 'bg-slate-100 text-slate-600',
+  refine: 'bg-purple-100 text-purple-700',
+  manual: 'bg-amber-100 text-amber-700',
+  repair: 'bg-green-100 text-green-700',
+  tweak: 'bg-sky-100 text-sky-700',
+};
+
+const VersionTimeline: React.FC<VersionTimelineProps> = ({ output, language, onCheckout }) => {
+  const [selectedId, setSelectedId] = useState(output.activeVersion);
+  const selected = output.versions.find(v => v.id === selectedId) || output.versions[output.versions.length - 1];
+  const before = previousVersion(output, selected.id);
+
+  return (
+    <div className="w-full h-[500px] rounded-lg overflow-hidden border flex bg-white">
+      <ol className="w-48 shrink-0 border-r overflow-y-auto">
+        {[...output.versions].reverse().map(v => (
+          <li key={v.id}>
+            <button
+              onClick={() => setSelectedId(v.id)}
+              className={`w-full text-left px-3 py-2.5 border-b border-gray-100 transition-colors ${v.id === selected.id ? 'bg-gray-50' : 'hover:bg-gray-50/50'}`}
+            >
+              <div className="flex items-center gap-1.5">
+                <span className="text-[11px] font-black">v{v.id}</span>
+                <span className={`px-1.5 rounded text-[9px] font-bold uppercase ${SOURCE_STYLES[v.source]}`}>{v.source}</span>
+                {v.id === output.activeVersion && <Check size={12} className="ml-auto text-green-600" strokeWidth={3} />}
+              </div>
+              {v.note && <p className="mt-1 text-[10px] text-gray-500 line-clamp-2">{v.note}</p>}
+              <p className="mt-0.5 text-[9px] text-gray-400">{new Date(v.createdAt).toLocaleTimeString()}</p>
+            </button>
+          </li>
+        ))}
+      </ol>
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50 border-b border-gray-200">
+          <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+            {before ? `v${before.id} → v${selected.id}` : `v${selected.id} (initial)`}
+          </span>
+          <button
+            onClick={() => onCheckout(selected.id)}
+            disabled={selected.id === output.activeVersion}
+            className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded border bg-white text-gray-600 hover:bg-gray-100 border-gray-200 disabled:opacity-30"
+          >
+            <RotateCcw size={10} /> Restore v{selected.id}
+          </button>
+        </div>
+        <div className="flex-1">
+          <DiffEditor
+            height="100%"
+            language={language}
+            original={before?.code ?? ''}
+            modified={selected.code}
+            theme="light"
+            options={{
+              readOnly: true,
+              renderSideBySide: false,
+              minimap: { enabled: false },
+              fontSize: 12,
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionTimeline;
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Camera, Loader2, X } from 'lucide-react';
+import { grabFrame } from '../services/images';
+
+interface VideoFramePickerProps {
+  file: File;
+  onPick: (frame: Blob) => void;
+  onCancel: () => void;
+}
+
+/** Scrub a dropped video and take the frame on screen as a reference image. */
+const VideoFramePicker: React.FC<VideoFramePickerProps> = ({ file, onPick, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const url = useMemo(() => URL.createObjectURL(file), [file]);
+  const [ready, setReady] = useState(false);
+  const [grabbing, setGrabbing] = useState(false);
+
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  const pick = async () => {
+    if (!videoRef.current) return;
+    setGrabbing(true);
+    try {
+      onPick(await grabFrame(videoRef.current));
+    } finally {
+      setGrabbing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+      <div className="bg-white rounded-[32px] shadow-2xl p-6 w-full max-w-2xl space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="font-black text-lg tracking-tight">Pick a frame</h3>
+          <button onClick={onCancel} title="Cancel" className="p-2 rounded-full text-slate-400 hover:text-black hover:bg-slate-50">
+            <X size={18} />
+          </button>
+        </div>
+        <video
+          ref={videoRef}
+          src={url}
+          controls
+          muted
+          playsInline
+          onLoadedData={() => setReady(true)}
+          className="w-full max-h-[60vh] rounded-2xl bg-black"
+        />
+        <p className="text-xs text-slate-400 font-medium">Pause or scrub to the moment you want, then use it as a reference image.</p>
+        <button
+          onClick={pick}
+          disabled={!ready || grabbing}
+          className="w-full h-12 bg-black text-white rounded-[20px] font-black text-sm flex items-center justify-center gap-2 disabled:opacity-30"
+        >
+          {grabbing ? <Loader2 size={16} className="animate-spin" /> : <Camera size={16} />} Use this frame
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoFramePicker;
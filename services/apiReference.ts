@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Monaco } from '@monaco-editor/react';
+import type { OutputTarget, TargetTypes } from './targets';
+
+export interface ReferenceLink {
+  name: string;
+  url: string;
+  /** Shown with parentheses. */
+  call: boolean;
+}
+
+const cache = new Map<string, Promise<TargetTypes>>();
+
+/** A target's declarations for a runtime version, fetched once; null for targets without any. */
+export const loadTargetTypes = (target: OutputTarget, runtime?: string): Promise<TargetTypes> | null => {
+  if (!target.loadTypes) return null;
+  const key = `${target.id}:${runtime || ''}`;
+  if (!cache.has(key)) {
+    cache.set(
+      key,
+      target.loadTypes(runtime).catch((e) => {
+        cache.delete(key);
+        throw e;
+      }),
+    );
+  }
+  return cache.get(key)!;
+};
+
+let installed: string | null = null;
+
+/**
+ * Gives Monaco's JavaScript service the declarations of a target's runtime.
+ * Extra libraries are shared by every editor on the page, so an editor
+ * installs its own whenever it is mounted or focused.
+ */
+export const installTypes = async (monaco: Monaco, target: OutputTarget, runtime?: string) => {
+  const key = target.loadTypes ? `${target.id}:${runtime || ''}` : '';
+  if (key === installed) return;
+  installed = key;
+  let types: TargetTypes | null;
+  try {
+    types = await loadTargetTypes(target, runtime);
+  } catch (e) {
+    if (installed === key) installed = null;
+    throw e;
+  }
+  // Another editor took focus while these loaded.
+  if (installed !== key) return;
+  const { typescript } = monaco.languages;
+  typescript.javascriptDefaults.setCompilerOptions({
+    ...typescript.javascriptDefaults.getCompilerOptions(),
+    target: typescript.ScriptTarget.ESNext,
+    allowJs: true,
+    allowNonTsExtensions: true,
+    // Resolves the declarations' own imports, e.g. './p5.js' to p5.d.ts.
+    moduleResolution: typescript.ModuleResolutionKind.NodeJs,
+  });
+  typescript.javascriptDefaults.setExtraLibs(
+    Object.entries(types?.files || {}).map(([path, content]) => ({ filePath: `file://${path}`, content })),
+  );
+};
+
+/**
+ * Reference pages for the API a piece of code uses, in order of first use.
+ * Targets with declarations link every global the code names; others fall
+ * back to their docsMap, matched in the code or the explanation.
+ */
+export const referenceLinks = async (target: OutputTarget, runtime: string | undefined, code: string, explanation = '') => {
+  const types = await loadTargetTypes(target, runtime)?.catch(() => null);
+  if (types && target.referenceUrl) {
+    const names = new Set(code.match(/[A-Za-z_$][\w$]*/g));
+    return [...names]
+      .filter((name) => Object.hasOwn(types.globals, name))
+      .map((name): ReferenceLink => ({ name, url: target.referenceUrl!(name), call: types.globals[name] === 'function' }));
+  }
+  return Object.entries(target.docsMap || {})
+    .filter(([key]) => {
+      // Use word boundaries to avoid partial matches
+      const regex = new RegExp(`\\b${key}\\b`, 'i');
+      return regex.test(explanation) || regex.test(code);
+    })
+    .map(([name, url]): ReferenceLink => ({ name, url, call: true }));
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { AppError } from './errors';
+import type { PreviewConnection } from './previewChannel';
+
+export type CaptureFormat = 'png' | 'webm' | 'gif';
+
+export interface CaptureOptions {
+  format: CaptureFormat;
+  /** Output width in pixels, height following the canvas; 0 keeps the canvas size. */
+  width: number;
+  /** Recording length and frame rate; unused for PNG. */
+  seconds: number;
+  fps: number;
+}
+
+export const CAPTURE_WIDTHS = [0, 1080, 720, 480, 320];
+export const CAPTURE_FPS = [10, 15, 24, 30, 60];
+export const MAX_RECORD_SECONDS = 30;
+
+/**
+ * GIF frames are held as raw pixels until encoded, so their number, their
+ * width and their pixels in total are capped: 40M pixels is 160 MB of RGBA.
+ */
+export const MAX_GIF_FRAMES = 300;
+export const MAX_GIF_WIDTH = 480;
+const MAX_GIF_PIXELS = 40_000_000;
+
+/** The width a GIF is recorded at: the chosen one, but never wider than MAX_GIF_WIDTH. */
+export const gifWidth = (width: number) => (width && width < MAX_GIF_WIDTH ? width : MAX_GIF_WIDTH);
+
+export const DEFAULT_CAPTURE: CaptureOptions = { format: 'png', width: 0, seconds: 5, fps: 15 };
+
+/** Time a recording may overrun before the preview counts as stuck. */
+const RECORD_GRACE_MS = 10000;
+
+const STORAGE_KEY = 'captureOptions';
+
+export const loadCaptureOptions = (): CaptureOptions => {
+  try {
+    return { ...DEFAULT_CAPTURE, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_CAPTURE;
+  }
+};
+
+export const saveCaptureOptions = (options: CaptureOptions) => localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+
+const scalePng = async (dataUrl: string, width: number) => {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = width || image.width;
+  canvas.height = Math.round((image.height * canvas.width) / image.width);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The frame could not be encoded as PNG.'))), 'image/png'),
+  );
+};
+
+/**
+ * Encodes RGBA frames as a looping GIF, with a palette per frame. Frames are
+ * taken off `frames` as they are encoded, and the page gets a turn between them.
+ */
+export const encodeGif = async (frames: ArrayBuffer[], width: number, height: number, fps: number) => {
+  const gif = GIFEncoder();
+  while (frames.length) {
+    const pixels = new Uint8Array(frames.shift()!);
+    const palette = quantize(pixels, 256);
+    gif.writeFrame(applyPalette(pixels, palette), width, height, { palette, delay: 1000 / fps });
+    await new Promise((resolve) => setTimeout(resolve));
+  }
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+/** Saves what a running preview shows: its current frame, or a recording of its canvas. */
+export const capturePreview = async (connection: PreviewConnection, { format, width, seconds, fps }: CaptureOptions) => {
+  if (format === 'png') {
+    const reply = await connection.request({ type: 'capture' }, 'frame', RECORD_GRACE_MS);
+    if (!reply.dataUrl) throw new Error(reply.error || 'The preview returned no frame.');
+    return scalePng(reply.dataUrl, width);
+  }
+  if (format === 'gif' && seconds * fps > MAX_GIF_FRAMES) {
+    throw new AppError('input', `A GIF can hold up to ${MAX_GIF_FRAMES} frames. Record fewer seconds or at a lower frame rate.`);
+  }
+  const gif = format === 'gif';
+  const reply = await connection.request(
+    {
+      type: 'record',
+      format,
+      seconds,
+      fps,
+      width: gif ? gifWidth(width) : width || undefined,
+      maxFramePixels: gif ? Math.floor(MAX_GIF_PIXELS / (seconds * fps)) : undefined,
+    },
+    'recording',
+    seconds * 1000 + RECORD_GRACE_MS,
+  );
+  if (reply.error) throw new Error(reply.error);
+  if (format === 'webm') return reply.blob!;
+  return encodeGif(reply.frames!, reply.width!, reply.height!, fps);
+};
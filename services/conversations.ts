@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ChatGrounding } from './grounding';
+import type { PresetUse } from './presets';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  /** An image sent with a user turn, as a data URL. */
+  image?: string;
+  grounding?: ChatGrounding;
+  /** Set when the user stopped the reply before it finished streaming. */
+  stopped?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  updatedAt: number;
+  /** The system prompt preset of the latest reply, if any. */
+  preset?: PresetUse;
+}
+
+const STORAGE_KEY = 'savedConversations';
+
+/** Replies saved before citations kept a bare list of links. */
+const upgradeGrounding = (grounding: unknown): ChatGrounding | undefined =>
+  Array.isArray(grounding)
+    ? { sources: grounding.map((g) => ({ kind: 'web', uri: g.uri, title: g.title })), segments: [] }
+    : (grounding as ChatGrounding | undefined);
+
+export const loadConversations = (): Conversation[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed)
+      ? parsed.map((c: Conversation) => ({ ...c, messages: c.messages.map((m) => ({ ...m, grounding: upgradeGrounding(m.grounding) })) }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const withoutImages = (conversations: Conversation[]) =>
+  conversations.map((c) => ({ ...c, messages: c.messages.map(({ image, ...m }) => m) }));
+
+/** Attached images fill browser storage quickly; when they no longer fit, conversations are kept without them. */
+const persist = (conversations: Conversation[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(conversations));
+  } catch {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(withoutImages(conversations)));
+  }
+  return conversations;
+};
+
+/** Inserts or replaces a conversation, keeping the list newest first. */
+export const saveConversation = (conversation: Conversation) =>
+  persist([conversation, ...loadConversations().filter((c) => c.id !== conversation.id)]);
+
+export const renameConversation = (id: string, title: string) =>
+  persist(loadConversations().map((c) => (c.id === id ? { ...c, title } : c)));
+
+export const deleteConversation = (id: string) =>
+  persist(loadConversations().filter((c) => c.id !== id));
+
+export const titleFromMessages = (messages: ChatMessage[]) => {
+  const first = messages.find((m) => m.role === 'user')?.content.trim() || 'New conversation';
+  return first.length > 48 ? `${first.slice(0, 45)}...` : first;
+};
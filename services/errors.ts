@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GenerateContentResponse, SafetyRating } from '@google/genai';
+
+export type ErrorCategory =
+  | 'rateLimit'
+  | 'auth'
+  | 'permission'
+  | 'notFound'
+  | 'invalidRequest'
+  | 'safety'
+  | 'recitation'
+  | 'truncated'
+  | 'server'
+  | 'network'
+  | 'device'
+  | 'budget'
+  | 'storage'
+  | 'input'
+  | 'unknown';
+
+/** What was being attempted, shown in the error log. */
+export interface ErrorContext {
+  feature?: string;
+  model?: string;
+  /** The prompt or instruction involved, if any. */
+  prompt?: string;
+}
+
+export interface ErrorDetails {
+  status?: number;
+  finishReason?: string;
+  /** Harm categories that blocked a prompt or candidate, e.g. "Dangerous content". */
+  blockedCategories?: string[];
+  context?: ErrorContext;
+}
+
+/** An error sorted into a category, with whatever the API said about it. */
+export class AppError extends Error implements ErrorDetails {
+  category: ErrorCategory;
+  status?: number;
+  finishReason?: string;
+  blockedCategories?: string[];
+  context?: ErrorContext;
+
+  constructor(category: ErrorCategory, message: string, details: ErrorDetails = {}) {
+    super(message);
+    this.name = 'AppError';
+    this.category = category;
+    Object.assign(this, details);
+  }
+}
+
+/** A way out of an error, offered in the error dialog. */
+export interface RecoveryAction {
+  label: string;
+  run: () => void;
+}
+
+export const ERROR_INFO: Record<ErrorCategory, { title: string; advice: string }> = {
+  rateLimit: { title: 'Quota exceeded', advice: 'Wait a minute before trying again, or switch to a lighter model.' },
+  auth: { title: 'API key problem', advice: 'Check that GEMINI_API_KEY is set and valid.' },
+  permission: { title: 'Permission denied', advice: 'Your key or project may not have access to this model; billing may be required.' },
+  notFound: { title: 'Model not found', advice: 'The selected model may be retired or misspelled. Pick another in Settings.' },
+  invalidRequest: { title: 'Request rejected', advice: 'The model refused the request as sent. Try a different model or a simpler prompt.' },
+  safety: { title: 'Content blocked', advice: 'Rephrase the prompt or use an image that complies with the safety guidelines.' },
+  recitation: { title: 'Blocked as recitation', advice: 'The reply quoted existing material too closely. Rephrase the request.' },
+  truncated: { title: 'Reply cut short', advice: 'The model ran out of output tokens. Ask for less or use a model with a larger limit.' },
+  server: { title: 'Service unavailable', advice: 'The model is overloaded or failing. Try again shortly, or switch models.' },
+  network: { title: 'Network error', advice: 'Check your connection and try again.' },
+  device: { title: 'Device unavailable', advice: 'Allow camera, microphone or location access in the browser and try again.' },
+  budget: { title: 'Over budget', advice: 'Raise or remove the budget on the Usage tab, or switch to a cheaper model.' },
+  storage: { title: 'History not saved', advice: 'The browser refused to read or write saved history. Free up disk space, or allow this site to store data, and try again.' },
+  input: { title: 'Missing input', advice: 'Fill in what the request needs and try again.' },
+  unknown: { title: 'Something went wrong', advice: 'Try again, or check the error log for details.' },
+};
+
+const SAFETY_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+/** HARM_CATEGORY_DANGEROUS_CONTENT -> "Dangerous content". */
+const harmLabel = (category: string) => {
+  const words = category.replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const blockedBy = (ratings: SafetyRating[] | undefined) => {
+  const flagged = (ratings || []).filter((r) => r.category && (r.blocked || r.probability === 'HIGH'));
+  return flagged.length ? flagged.map((r) => harmLabel(r.category!)) : undefined;
+};
+
+/**
+ * Throws when a response carries no usable answer because the prompt or the
+ * candidate was blocked, or the reply was cut off before producing anything.
+ */
+export const checkResponse = <T extends GenerateContentResponse>(res: T, context?: ErrorContext): T => {
+  const feedback = res.promptFeedback;
+  if (feedback?.blockReason) {
+    throw new AppError('safety', feedback.blockReasonMessage || `The prompt was blocked (${feedback.blockReason}).`, {
+      finishReason: feedback.blockReason,
+      blockedCategories: blockedBy(feedback.safetyRatings),
+      context,
+    });
+  }
+  const candidate = res.candidates?.[0];
+  const reason = candidate?.finishReason;
+  if (!reason) return res;
+  if (SAFETY_REASONS.includes(reason)) {
+    throw new AppError('safety', `The reply was blocked (${reason}).`, {
+      finishReason: reason,
+      blockedCategories: blockedBy(candidate.safetyRatings),
+      context,
+    });
+  }
+  if (reason === 'RECITATION') {
+    throw new AppError('recitation', 'The reply was blocked for reciting existing material.', { finishReason: reason, context });
+  }
+  const empty = !candidate.content?.parts?.some((p) => p.text || p.inlineData);
+  if (reason === 'MAX_TOKENS' && empty) {
+    throw new AppError('truncated', 'The reply hit the output token limit before producing anything.', { finishReason: reason, context });
+  }
+  return res;
+};
+
+const STATUS_CATEGORIES: Record<number, ErrorCategory> = {
+  400: 'invalidRequest',
+  401: 'auth',
+  403: 'permission',
+  404: 'notFound',
+  408: 'server',
+  429: 'rateLimit',
+};
+
+/** The HTTP status of an SDK error ("got status: 429 ...") or a local server error ("429 Too Many ..."). */
+const statusOf = (e: any): number | undefined => {
+  const direct = [e?.status, e?.code].find((x) => typeof x === 'number' && x >= 400);
+  if (direct) return direct;
+  const match = /(?:got status: |^)(\d{3})\b/.exec(e?.message || '');
+  return match ? Number(match[1]) : undefined;
+};
+
+/** The message inside the JSON body the SDK appends to its errors. */
+const apiMessage = (message: string) => {
+  const json = message.indexOf('{');
+  if (json < 0) return undefined;
+  try {
+    return JSON.parse(message.slice(json))?.error?.message as string | undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** IndexedDB failures, e.g. a full disk or storage blocked in private browsing. */
+const STORAGE_ERRORS = ['QuotaExceededError', 'InvalidStateError', 'VersionError', 'UnknownError'];
+
+const categorize = (e: any, status: number | undefined, message: string): ErrorCategory => {
+  if (STORAGE_ERRORS.includes(e?.name)) return 'storage';
+  if (/API_KEY_INVALID|API key not valid|api_key/i.test(message)) return 'auth';
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'rateLimit';
+  if (status && STATUS_CATEGORIES[status]) return STATUS_CATEGORIES[status];
+  if (status && status >= 500) return 'server';
+  if (e?.name === 'NotAllowedError' || e?.name === 'NotFoundError' || e?.name === 'NotReadableError') return 'device';
+  if (e instanceof TypeError && /fetch|network/i.test(message)) return 'network';
+  if (/timed out/i.test(message)) return 'server';
+  return 'unknown';
+};
+
+/** Sorts any thrown value into a category. An AppError keeps its own and gains missing context. */
+export const normalizeError = (e: unknown, context?: ErrorContext): AppError => {
+  if (e instanceof AppError) {
+    if (context && !e.context) e.context = context;
+    return e;
+  }
+  const raw: any = e;
+  const message: string = raw?.message || (typeof e === 'string' ? e : 'An unexpected error occurred.');
+  const status = statusOf(raw);
+  const error = new AppError(categorize(raw, status, message), apiMessage(message) || message, { status, context });
+  error.stack = raw?.stack;
+  return error;
+};
+
+export interface ErrorLogEntry extends ErrorDetails {
+  id: string;
+  at: number;
+  category: ErrorCategory;
+  message: string;
+}
+
+const STORAGE_KEY = 'errorLog';
+const MAX_ENTRIES = 200;
+
+let entries: ErrorLogEntry[] = (() => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+})();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((l) => l());
+
+export const subscribeErrors = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Newest first. */
+export const listErrors = () => entries;
+
+/**
+ * Writes the log without ever throwing: logging runs inside error handlers, so
+ * a full storage must not replace the error being logged. Prompts go first,
+ * then the oldest entries; the in-memory log stays whole either way.
+ */
+const saveEntries = () => {
+  let stored = entries;
+  for (let attempt = 0; stored.length; attempt++) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+      return;
+    } catch {
+      stored = attempt === 0
+        ? stored.map((e) => (e.context?.prompt ? { ...e, context: { ...e.context, prompt: undefined } } : e))
+        : stored.slice(0, Math.floor(stored.length / 2));
+    }
+  }
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing more to free.
+  }
+};
+
+export const logError = (error: AppError) => {
+  const { category, message, status, finishReason, blockedCategories, context } = error;
+  entries = [
+    { id: `error-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, at: Date.now(), category, message, status, finishReason, blockedCategories, context },
+    ...entries,
+  ].slice(0, MAX_ENTRIES);
+  saveEntries();
+  notify();
+};
+
+export const clearErrors = () => {
+  entries = [];
+  localStorage.removeItem(STORAGE_KEY);
+  notify();
+};
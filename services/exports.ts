@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import JSZip from 'jszip';
+import { ExportSource, buildExport } from './libraries';
+import { OutputTarget, TargetId, inlineScript, p5AssetScript } from './targets';
+
+export type ExportFormat = 'zip' | 'html' | 'p5editor' | 'codepen';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  description: string;
+  /** Targets it works for; all when absent. */
+  targets?: TargetId[];
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'zip', label: 'ZIP', description: 'A folder with index.html and the source files.' },
+  { id: 'html', label: 'Single HTML', description: 'One file with every script and stylesheet inlined; opens offline.' },
+  {
+    id: 'p5editor',
+    label: 'p5.js editor',
+    description: 'Flat files to drag into a new sketch in the p5.js web editor.',
+    targets: ['p5'],
+  },
+  {
+    id: 'codepen',
+    label: 'CodePen',
+    description: 'HTML, CSS and JS panels plus pen.json, the payload of the CodePen prefill API.',
+    // three.js sketches are ES modules behind an import map, which pens don't lay out.
+    targets: ['p5', 'canvas', 'svg', 'html'],
+  },
+];
+
+export const formatsFor = (target: OutputTarget) => EXPORT_FORMATS.filter((f) => !f.targets || f.targets.includes(target.id));
+
+const CODEPEN_DEFINE_URL = 'https://codepen.io/pen/define';
+
+/** The fields the CodePen prefill API reads. */
+export interface CodePenData {
+  title: string;
+  html: string;
+  css: string;
+  js: string;
+  /** Script URLs, separated by semicolons. */
+  js_external: string;
+  css_external: string;
+}
+
+const zipBlob = async (files: Record<string, string>) => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, content]) => zip.file(name, content));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+/** Puts a file's markup in place of the <object> that embeds it, e.g. the SVG target's drawing. */
+const inlineObjects = (doc: Document, take: (name: string | null) => string | null) =>
+  doc.querySelectorAll('object[data]').forEach((object) => {
+    const content = take(object.getAttribute('data'));
+    if (content === null) return;
+    object.insertAdjacentHTML('afterend', content);
+    object.remove();
+  });
+
+/**
+ * Folds an export's scripts, stylesheets and embedded files into its
+ * index.html. Other files are served to p5's loaders by name; for other
+ * targets anything the code fetches at runtime still needs the ZIP.
+ */
+const singleFile = (target: OutputTarget, files: Record<string, string>) => {
+  const doc = parse(files['index.html']);
+  const used = new Set(['index.html']);
+  const take = (name: string | null) => (name !== null && name in files ? (used.add(name), files[name]) : null);
+  doc.querySelectorAll('script[src]').forEach((script) => {
+    const content = take(script.getAttribute('src'));
+    if (content === null) return;
+    script.removeAttribute('src');
+    script.textContent = inlineScript(content);
+  });
+  doc.querySelectorAll('link[rel="stylesheet"][href]').forEach((link) => {
+    const content = take(link.getAttribute('href'));
+    if (content === null) return;
+    const style = doc.createElement('style');
+    style.textContent = content;
+    link.replaceWith(style);
+  });
+  inlineObjects(doc, take);
+  const rest = Object.entries(files).filter(([name]) => !used.has(name));
+  if (target.id === 'p5' && rest.length) {
+    doc.head.insertAdjacentHTML('beforeend', p5AssetScript(rest.map(([name, content]) => ({ name, content }))));
+  }
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
+
+/** Splits an export into CodePen's panels: body markup, CSS, and scripts in load order. */
+const codePenData = (files: Record<string, string>, title: string): CodePenData => {
+  const doc = parse(files['index.html']);
+  const local = (name: string | null) => (name !== null && name in files ? files[name] : null);
+  const js: string[] = [];
+  const jsExternal: string[] = [];
+  const css: string[] = [];
+  const cssExternal: string[] = [];
+  doc.querySelectorAll('script[src]').forEach((script) => {
+    const src = script.getAttribute('src')!;
+    const content = local(src);
+    if (content === null) jsExternal.push(src);
+    else js.push(content);
+    script.remove();
+  });
+  doc.querySelectorAll('link[rel="stylesheet"][href]').forEach((link) => {
+    const href = link.getAttribute('href')!;
+    const content = local(href);
+    if (content === null) cssExternal.push(href);
+    else css.push(content);
+    link.remove();
+  });
+  doc.head.querySelectorAll('style').forEach((style) => {
+    css.push(style.textContent || '');
+    style.remove();
+  });
+  inlineObjects(doc, local);
+  // Inline head scripts, e.g. a Tailwind config, have to run before the body markup.
+  const headScripts = [...doc.head.querySelectorAll('script')].map((s) => s.outerHTML);
+  return {
+    title,
+    html: [...headScripts, doc.body.innerHTML.trim()].join('\n'),
+    css: css.map((c) => c.trim()).join('\n\n'),
+    js: js.map((j) => j.trim()).join('\n\n'),
+    js_external: jsExternal.join(';'),
+    css_external: cssExternal.join(';'),
+  };
+};
+
+const CODEPEN_README = `# CodePen
+
+Open https://codepen.io/pen and paste index.html, style.css and script.js into
+the HTML, CSS and JS panels. Add the URLs in pen.json's js_external (separated
+by semicolons) under Settings > JS, in that order.
+
+pen.json is also the payload of the CodePen prefill API: POST it as the "data"
+field of a form to ${CODEPEN_DEFINE_URL}.
+`;
+
+/** Packages a sketch in the given format, ready for downloadBlob. */
+export const exportSketch = async (target: OutputTarget, source: ExportSource, format: ExportFormat, baseName: string) => {
+  switch (format) {
+    case 'html': {
+      const files = await buildExport(target, source, { vendor: true });
+      return { blob: new Blob([singleFile(target, files)], { type: 'text/html' }), fileName: `${baseName}.html` };
+    }
+    case 'p5editor': {
+      // The web editor links its runtime from a CDN and takes uploads one file at a time, without folders.
+      const files = await buildExport(target, source, { vendor: false, scriptDir: '' });
+      return { blob: await zipBlob(files), fileName: `${baseName}-p5-editor.zip` };
+    }
+    case 'codepen': {
+      const pen = codePenData(await buildExport(target, source, { vendor: false }), baseName);
+      return {
+        blob: await zipBlob({
+          'index.html': pen.html,
+          'style.css': pen.css,
+          'script.js': pen.js,
+          'pen.json': JSON.stringify(pen, null, 2),
+          'README.md': CODEPEN_README,
+        }),
+        fileName: `${baseName}-codepen.zip`,
+      };
+    }
+    default:
+      return { blob: await zipBlob(await buildExport(target, source)), fileName: `${baseName}.zip` };
+  }
+};
+
+/** Opens the sketch as a new pen in another tab, through the CodePen prefill API. */
+export const openInCodePen = async (target: OutputTarget, source: ExportSource, title: string) => {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = CODEPEN_DEFINE_URL;
+  form.target = '_blank';
+  const input = document.createElement('input');
+  input.type = 'hidden';
+  input.name = 'data';
+  input.value = JSON.stringify(codePenData(await buildExport(target, source, { vendor: false }), title));
+  form.appendChild(input);
+  document.body.appendChild(form);
+  form.submit();
+  form.remove();
+};
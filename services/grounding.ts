@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GroundingMetadata } from '@google/genai';
+
+export interface PlaceReview {
+  title?: string;
+  uri: string;
+}
+
+/** A web page or a place an answer draws on. */
+export interface GroundingSource {
+  kind: 'web' | 'maps';
+  uri: string;
+  title?: string;
+  /** Maps only: the place, a short description and review snippets that back the answer. */
+  placeId?: string;
+  text?: string;
+  reviews?: PlaceReview[];
+}
+
+/** A stretch of the answer and the sources that back it. */
+export interface GroundingSegment {
+  text: string;
+  /** UTF-8 byte offset where the segment ends, as the API reports it. */
+  endIndex: number;
+  /** Indices into ChatGrounding.sources. */
+  sources: number[];
+}
+
+export interface ChatGrounding {
+  sources: GroundingSource[];
+  segments: GroundingSegment[];
+  /** Google Search suggestions as self-contained HTML, which the API requires next to search-grounded answers. */
+  searchSuggestions?: string;
+}
+
+// The SDK's types predate Maps grounding, so its chunks are read loosely.
+interface RawChunk {
+  web?: { uri?: string; title?: string };
+  retrievedContext?: { uri?: string; title?: string };
+  maps?: {
+    uri?: string;
+    title?: string;
+    text?: string;
+    placeId?: string;
+    placeAnswerSources?: { reviewSnippets?: { googleMapsUri?: string; title?: string }[] };
+  };
+}
+
+// Sources keep their chunk's position, since supports refer to chunks by index.
+const toSource = ({ web, retrievedContext, maps }: RawChunk): GroundingSource => {
+  if (maps) {
+    return {
+      kind: 'maps',
+      uri: maps.uri || '',
+      title: maps.title,
+      placeId: maps.placeId,
+      text: maps.text,
+      reviews: maps.placeAnswerSources?.reviewSnippets
+        ?.filter((r) => r.googleMapsUri)
+        .map((r) => ({ title: r.title, uri: r.googleMapsUri! })),
+    };
+  }
+  const page = web || retrievedContext || {};
+  return { kind: 'web', uri: page.uri || '', title: page.title };
+};
+
+/** Reads a response's grounding metadata on top of what earlier chunks of the same stream carried. */
+export const readGrounding = (metadata: GroundingMetadata | undefined, previous?: ChatGrounding): ChatGrounding | undefined => {
+  if (!metadata) return previous;
+  const segments = [...(previous?.segments || [])];
+  for (const support of metadata.groundingSupports || []) {
+    const { text = '', endIndex = -1 } = support.segment || {};
+    if (!support.groundingChunkIndices?.length || segments.some((s) => s.text === text && s.endIndex === endIndex)) continue;
+    segments.push({ text, endIndex, sources: support.groundingChunkIndices });
+  }
+  const grounding: ChatGrounding = {
+    sources: metadata.groundingChunks ? (metadata.groundingChunks as RawChunk[]).map(toSource) : previous?.sources || [],
+    segments,
+    searchSuggestions: metadata.searchEntryPoint?.renderedContent || previous?.searchSuggestions,
+  };
+  return grounding.sources.length || grounding.searchSuggestions ? grounding : previous;
+};
+
+/** Character offset where a segment ends in the answer, or -1 when it can't be found. */
+const segmentEnd = (content: string, bytes: Uint8Array, { text, endIndex }: GroundingSegment) => {
+  if (endIndex >= 0 && endIndex <= bytes.length) {
+    const end = new TextDecoder().decode(bytes.subarray(0, endIndex)).length;
+    if (!text || content.slice(end - text.length, end) === text) return end;
+  }
+  // Offsets can drift, e.g. when a stream was stopped early; the segment's own text is the fallback.
+  const at = text ? content.indexOf(text) : -1;
+  return at < 0 ? -1 : at + text.length;
+};
+
+/** The source a citation marker's link points at, e.g. #source-3 -> index 2. */
+export const citedSource = (href?: string) => {
+  const match = /^#source-(\d+)$/.exec(href || '');
+  return match ? Number(match[1]) - 1 : -1;
+};
+
+/**
+ * Puts numbered citation markers after each supported segment of a markdown
+ * answer, as `[n](#source-n)` links for the renderer to pick up.
+ */
+export const citeAnswer = (content: string, grounding?: ChatGrounding) => {
+  if (!grounding?.segments.length) return content;
+  const bytes = new TextEncoder().encode(content);
+  const markers = new Map<number, Set<number>>();
+  for (const segment of grounding.segments) {
+    const end = segmentEnd(content, bytes, segment);
+    if (end < 0) continue;
+    const cited = markers.get(end) || new Set<number>();
+    segment.sources.filter((i) => grounding.sources[i]?.uri).forEach((i) => cited.add(i));
+    markers.set(end, cited);
+  }
+  let cited = content;
+  [...markers.entries()]
+    .sort(([a], [b]) => b - a)
+    .forEach(([end, sources]) => {
+      const links = [...sources].sort((a, b) => a - b).map((i) => `[${i + 1}](#source-${i + 1})`).join('');
+      cited = cited.slice(0, end) + links + cited.slice(end);
+    });
+  return cited;
+};
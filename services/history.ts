@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import JSZip from 'jszip';
+import type { StoredImage } from './images';
+import { buildExport, outputSelection } from './libraries';
+import type { PresetUse } from './presets';
+import { TargetId, getTarget } from './targets';
+import type { VersionedOutput } from './versions';
+
+export type SketchOutput = VersionedOutput & {
+  target: TargetId;
+  /** Runtime version id, e.g. p5.js "2.x"; see services/libraries. */
+  runtime?: string;
+  /** Ids of the add-on libraries loaded with the sketch. */
+  libraries?: string[];
+  starred?: boolean;
+  /** Similarity of the preview to the source image, 0 to 1; cleared when the code changes. */
+  score?: number;
+};
+
+/** One Generator run: everything needed to put the workspace back as it was. */
+export interface Session {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Primary source image as a data URL. */
+  imageBase64: string;
+  /** Every reference image in order, primary first; absent on sessions saved before multi-image input. */
+  images?: StoredImage[];
+  directives: string;
+  prompt: string;
+  targetId: TargetId;
+  model: string;
+  performanceMode: 'lite' | 'pro';
+  thinking: boolean;
+  temperature: number;
+  topK: number;
+  topP: number;
+  concurrentRequests: number;
+  outputs: SketchOutput[];
+  /** The system prompt preset this session was generated with, if any. */
+  preset?: PresetUse;
+  /** Values substituted for `{{variable}}` placeholders in the prompt and directives. */
+  placeholders?: Record<string, string>;
+}
+
+/** How a Studio asset was made. Absent on assets saved before this was recorded. */
+export interface AssetMetadata {
+  mode?: 'image' | 'edit' | 'video';
+  model?: string;
+  aspectRatio?: string;
+  imageSize?: string;
+  resolution?: string;
+  /** Number of reference images sent with the prompt. */
+  references?: number;
+  /** Name of the Studio system prompt preset in effect. */
+  preset?: string;
+}
+
+/** A Studio image or video. */
+export interface Asset extends AssetMetadata {
+  id: string;
+  type: 'image' | 'video';
+  blob: Blob;
+  prompt: string;
+  createdAt: number;
+}
+
+const DB_NAME = 'imageToCode';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const ASSETS = 'assets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSIONS, { keyPath: 'id' });
+        request.result.createObjectStore(ASSETS, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = op(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const newestFirst = <T extends { createdAt: number; updatedAt?: number }>(items: T[]) =>
+  items.sort((a, b) => (b.updatedAt ?? b.createdAt) - (a.updatedAt ?? a.createdAt));
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const listSessions = async () => newestFirst(await run<Session[]>(SESSIONS, 'readonly', (s) => s.getAll()));
+
+export const latestSession = async (): Promise<Session | undefined> => (await listSessions())[0];
+
+export const saveSession = (session: Session) => run(SESSIONS, 'readwrite', (s) => s.put(session));
+
+/** Merges changes into a stored session and bumps its timestamp. */
+export const updateSession = async (id: string, changes: Partial<Session>) => {
+  const session = await run<Session | undefined>(SESSIONS, 'readonly', (s) => s.get(id));
+  if (session) await saveSession({ ...session, ...changes, updatedAt: Date.now() });
+};
+
+/** Adds variants to a stored session, e.g. a retried one that finished after the user moved on. */
+export const appendSessionOutputs = async (id: string, outputs: SketchOutput[]) => {
+  const session = await run<Session | undefined>(SESSIONS, 'readonly', (s) => s.get(id));
+  if (session) await saveSession({ ...session, outputs: [...session.outputs, ...outputs], updatedAt: Date.now() });
+};
+
+export const deleteSession = (id: string) => run(SESSIONS, 'readwrite', (s) => s.delete(id));
+
+export const listAssets = async () => newestFirst(await run<Asset[]>(ASSETS, 'readonly', (s) => s.getAll()));
+
+export const saveAsset = (asset: Asset) => run(ASSETS, 'readwrite', (s) => s.put(asset));
+
+export const deleteAsset = (id: string) => run(ASSETS, 'readwrite', (s) => s.delete(id));
+
+export const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const sessionTitle = (directives: string, targetId: TargetId) => {
+  const text = directives.trim() || `${getTarget(targetId).label} sketch`;
+  return text.length > 48 ? `${text.slice(0, 45)}...` : text;
+};
+
+/** Case-insensitive match against the title, directives, target and model. */
+export const matchesSearch = (session: Session, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [session.title, session.directives, getTarget(session.targetId).label, session.model]
+    .some((field) => field.toLowerCase().includes(q));
+};
+
+const extensionOf = (mimeType: string) => mimeType.split('/')[1]?.split(/[+;]/)[0] || 'bin';
+
+/**
+ * Packs a session into a zip: settings as session.json, the source images,
+ * and one runnable folder per variant at its active version.
+ */
+export const exportSession = async (session: Session) => {
+  const zip = new JSZip();
+  const { imageBase64, images, outputs, ...settings } = session;
+  zip.file(
+    'session.json',
+    JSON.stringify({ ...settings, variants: outputs.map(({ fullResponse, ...rest }) => rest) }, null, 2),
+  );
+  const sources = images?.map((i) => i.dataUrl) || (imageBase64 ? [imageBase64] : []);
+  for (const [i, dataUrl] of sources.entries()) {
+    const image = await dataUrlToBlob(dataUrl);
+    zip.file(`${sources.length > 1 ? `source-${i + 1}` : 'source'}.${extensionOf(image.type)}`, image);
+  }
+  for (const [i, output] of outputs.entries()) {
+    const target = getTarget(output.target);
+    const folder = zip.folder(`variant-${i + 1}-${target.id}${output.starred ? '-starred' : ''}`)!;
+    const files = await buildExport(target, { code: output.code, files: output.files || [], selection: outputSelection(output) });
+    Object.entries(files).forEach(([name, content]) => folder.file(name, content));
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const assetFileName = (asset: Asset) => `${asset.type}-${asset.id.slice(0, 8)}.${extensionOf(asset.blob.type)}`;
+
+/** Starts a browser download of a blob. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { createId } from './history';
+
+export type CropAspect = 'original' | '1:1' | '4:3' | '3:4' | '16:9';
+
+export const CROP_ASPECTS: CropAspect[] = ['original', '1:1', '4:3', '3:4', '16:9'];
+
+/** A reference image after preprocessing, ready to send to a model. */
+export interface SourceImage {
+  id: string;
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  crop: CropAspect;
+  /** The file as dropped, kept so a new crop starts from full quality. Not persisted. */
+  original?: Blob;
+}
+
+export type StoredImage = Omit<SourceImage, 'original'>;
+
+/** Longest edge sent to a model; larger photos only cost upload time and tokens. */
+const MAX_IMAGE_EDGE = 1536;
+const JPEG_QUALITY = 0.85;
+/** Formats that may carry transparency; kept as PNG when they do. */
+const ALPHA_TYPES = ['image/png', 'image/webp', 'image/gif'];
+
+export const mimeTypeOf = (dataUrl: string) => /^data:([^;,]+)/.exec(dataUrl)?.[1] || 'image/jpeg';
+
+/** An image as a request part, with its real MIME type. */
+export const imagePart = (dataUrl: string) => ({
+  inlineData: { data: dataUrl.split(',')[1], mimeType: mimeTypeOf(dataUrl) },
+});
+
+const cropRect = (width: number, height: number, crop: CropAspect) => {
+  if (crop === 'original') return { sx: 0, sy: 0, sw: width, sh: height };
+  const [w, h] = crop.split(':').map(Number);
+  const sw = Math.min(width, (height * w) / h);
+  const sh = Math.min(height, (width * h) / w);
+  return { sx: (width - sw) / 2, sy: (height - sh) / 2, sw, sh };
+};
+
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const data = ctx.getImageData(0, 0, width, height).data;
+  for (let i = 3; i < data.length; i += 4) if (data[i] < 255) return true;
+  return false;
+};
+
+/**
+ * Decodes an image with its EXIF orientation applied, centre-crops it to
+ * `crop`, scales it down to at most MAX_IMAGE_EDGE and re-encodes it: PNG
+ * when it has transparency, JPEG otherwise.
+ */
+export const processImage = async (original: Blob, crop: CropAspect = 'original', id = createId()): Promise<SourceImage> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(original, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`Could not read this image${original.type ? ` (${original.type})` : ''}. Try a PNG, JPEG or WebP file.`);
+  }
+  const { sx, sy, sw, sh } = cropRect(bitmap.width, bitmap.height, crop);
+  const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(sw, sh));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const png = ALPHA_TYPES.includes(original.type) && hasTransparency(ctx, canvas.width, canvas.height);
+  const mimeType = png ? 'image/png' : 'image/jpeg';
+  return {
+    id,
+    dataUrl: canvas.toDataURL(mimeType, JPEG_QUALITY),
+    mimeType,
+    width: canvas.width,
+    height: canvas.height,
+    crop,
+    original,
+  };
+};
+
+/** Crops again from the original file, or from the processed image when that is all there is. */
+export const recropImage = async (image: SourceImage, crop: CropAspect) => {
+  const source = image.original || (await (await fetch(image.dataUrl)).blob());
+  return processImage(source, crop, image.id);
+};
+
+/** Wraps an image saved before preprocessing existed. */
+export const legacyImage = (dataUrl: string): StoredImage => ({
+  id: createId(),
+  dataUrl,
+  mimeType: mimeTypeOf(dataUrl),
+  width: 0,
+  height: 0,
+  crop: 'original',
+});
+
+export const toStoredImage = ({ original, ...stored }: SourceImage): StoredImage => stored;
+
+/** The current frame of a playing or paused video, e.g. the camera or a dropped clip. */
+export const grabFrame = (video: HTMLVideoElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')?.drawImage(video, 0, 0);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not capture the video frame.'))), 'image/png'),
+  );
+};
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { logError, normalizeError } from './errors';
+import { recordRateLimit } from './usage';
+
+export type JobKind = 'sketch' | 'refine' | 'repair' | 'image' | 'edit' | 'video';
+
+export type TaskStatus = 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+/** One request within a job, e.g. one Generator variant. */
+export interface JobTask {
+  status: TaskStatus;
+  attempts: number;
+  error?: string;
+  /** When a rate-limited task will try again. */
+  retryAt?: number;
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  createdAt: number;
+  tasks: JobTask[];
+}
+
+interface JobSpec<T> {
+  kind: JobKind;
+  label: string;
+  /** Number of parallel tasks, e.g. variants. */
+  count?: number;
+  /**
+   * A task retried from the job list has no caller waiting for it, so a task
+   * applies its own result here, or hands it to `onRetried`.
+   */
+  run: (index: number, signal: AbortSignal) => Promise<T>;
+  /** Receives results of tasks retried after the job first settled. */
+  onRetried?: (index: number, value: T) => void;
+}
+
+/** Rate-limited requests are retried this many times, waiting twice as long each time. */
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2000;
+/** Finished jobs with nothing left to act on drop off the list after this long. */
+const JOB_LINGER_MS = 4000;
+
+interface Entry {
+  job: Job;
+  spec: JobSpec<any>;
+  controllers: AbortController[];
+}
+
+const entries = new Map<string, Entry>();
+const listeners = new Set<() => void>();
+let snapshot: Job[] = [];
+
+const notify = () => {
+  snapshot = [...entries.values()].map((e) => e.job);
+  listeners.forEach((l) => l());
+};
+
+export const subscribeJobs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Newest last. The array identity only changes when a job does. */
+export const listJobs = () => snapshot;
+
+const cancelledError = () => new DOMException('Cancelled', 'AbortError');
+
+export const isCancelled = (e: any) => e?.name === 'AbortError';
+
+export const isRateLimited = (e: any) => normalizeError(e).category === 'rateLimit';
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    }, { once: true });
+  });
+
+/** Settles with `promise`, or rejects as cancelled as soon as `signal` aborts. */
+export const abortable = <T>(promise: Promise<T>, signal: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(cancelledError());
+    const onAbort = () => reject(cancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+const updateTask = (entry: Entry, index: number, changes: Partial<JobTask>) => {
+  const tasks = entry.job.tasks.map((t, i) => (i === index ? { ...t, ...changes } : t));
+  entry.job = { ...entry.job, tasks };
+  notify();
+};
+
+/** Finished jobs linger briefly; ones with failures stay until dismissed or retried. */
+const scheduleCleanup = (entry: Entry) => {
+  if (entry.job.tasks.some((t) => t.status === 'running' || t.status === 'waiting')) return;
+  if (entry.job.tasks.some((t) => t.status === 'failed')) return;
+  setTimeout(() => {
+    if (entries.get(entry.job.id) === entry && entry.job.tasks.every((t) => t.status === 'done' || t.status === 'cancelled')) {
+      dismissJob(entry.job.id);
+    }
+  }, JOB_LINGER_MS);
+};
+
+const runTask = async <T>(entry: Entry, index: number): Promise<T> => {
+  const controller = new AbortController();
+  entry.controllers[index] = controller;
+  const { signal } = controller;
+  for (let attempt = 1; ; attempt++) {
+    updateTask(entry, index, { status: 'running', attempts: attempt, error: undefined, retryAt: undefined });
+    try {
+      const value = await abortable(entry.spec.run(index, signal), signal);
+      updateTask(entry, index, { status: 'done' });
+      scheduleCleanup(entry);
+      return value;
+    } catch (e: any) {
+      if (!signal.aborted && isRateLimited(e) && attempt < MAX_ATTEMPTS) {
+        const wait = BASE_BACKOFF_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+        updateTask(entry, index, { status: 'waiting', error: e?.message, retryAt: Date.now() + wait });
+        recordRateLimit(entry.spec.kind);
+        try {
+          await sleep(wait, signal);
+          continue;
+        } catch (cancelled) {
+          e = cancelled;
+        }
+      }
+      updateTask(entry, index, signal.aborted ? { status: 'cancelled', retryAt: undefined } : { status: 'failed', error: e?.message || String(e) });
+      scheduleCleanup(entry);
+      throw e;
+    }
+  }
+};
+
+/**
+ * Runs `count` tasks in parallel and settles with every outcome, so one failed
+ * variant doesn't take the others down. Rate-limited tasks back off and retry
+ * on their own; failed ones can be retried from the job list later.
+ */
+export const runJob = <T>(spec: JobSpec<T>) => {
+  const count = spec.count ?? 1;
+  const job: Job = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    kind: spec.kind,
+    label: spec.label,
+    createdAt: Date.now(),
+    tasks: Array.from({ length: count }, () => ({ status: 'running', attempts: 0 })),
+  };
+  const entry: Entry = { job, spec, controllers: [] };
+  entries.set(job.id, entry);
+  notify();
+  return Promise.allSettled(Array.from({ length: count }, (_, i) => runTask<T>(entry, i)));
+};
+
+/** Runs a single request as a job and returns its result, throwing its error. */
+export const runSingleJob = async <T>(spec: Omit<JobSpec<T>, 'count'>) => {
+  const [result] = await runJob(spec);
+  if (result.status === 'rejected') throw result.reason;
+  return result.value;
+};
+
+export const cancelJob = (id: string) => {
+  entries.get(id)?.controllers.forEach((c) => c.abort());
+};
+
+export const retryTask = (id: string, index: number) => {
+  const entry = entries.get(id);
+  const task = entry?.job.tasks[index];
+  if (!entry || !task || (task.status !== 'failed' && task.status !== 'cancelled')) return;
+  runTask(entry, index).then(
+    (value) => entry.spec.onRetried?.(index, value),
+    // The task shows the failure; the error log keeps it once the job is dismissed.
+    (e) => isCancelled(e) || logError(normalizeError(e, { feature: entry.spec.kind })),
+  );
+};
+
+export const dismissJob = (id: string) => {
+  const entry = entries.get(id);
+  if (!entry) return;
+  entry.controllers.forEach((c) => c.abort());
+  entries.delete(id);
+  notify();
+};
@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { AppError } from './errors';
+import { OutputTarget, SketchFile, TargetId, TargetLibrary, getTarget } from './targets';
+
+/** A library the user registered, by URL or by uploading its script. */
+export interface CustomLibrary extends TargetLibrary {
+  targetId: TargetId;
+  source: 'url' | 'upload';
+  addedAt: number;
+}
+
+/** The runtime version and add-on ids a variant, or the next Generator run, uses. */
+export interface RuntimeSelection {
+  runtime?: string;
+  libraries: string[];
+}
+
+const LIBRARIES_KEY = 'customLibraries';
+const SELECTION_KEY = 'runtimeSelection';
+const VENDOR_KEY = 'vendorExports';
+
+/** Uploaded scripts are kept in localStorage, which only holds a few megabytes in all. */
+export const MAX_UPLOAD_BYTES = 1024 * 1024;
+
+const load = <T>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+let custom: CustomLibrary[] = load(LIBRARIES_KEY, []);
+let selections: Partial<Record<TargetId, RuntimeSelection>> = load(SELECTION_KEY, {});
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((l) => l());
+
+export const subscribeLibraries = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const persistLibraries = (next: CustomLibrary[]) => {
+  try {
+    localStorage.setItem(LIBRARIES_KEY, JSON.stringify(next));
+  } catch {
+    throw new AppError('input', 'There is no room left in browser storage for this script. Register it by URL instead.');
+  }
+  custom = next;
+  notify();
+};
+
+export const listCustomLibraries = (targetId: TargetId) => custom.filter((l) => l.targetId === targetId);
+
+const fits = (library: TargetLibrary, runtime?: string) => !library.versions || !runtime || library.versions.includes(runtime);
+
+/** Bundled and registered add-ons that work with the given runtime version. */
+export const availableLibraries = (target: OutputTarget, runtime?: string): TargetLibrary[] =>
+  [...(target.libraries || []), ...listCustomLibraries(target.id)].filter((l) => fits(l, runtime));
+
+export const runtimeFor = (target: OutputTarget, id?: string) =>
+  target.runtimes?.find((r) => r.id === id) || target.runtimes?.find((r) => r.id === target.defaultRuntime);
+
+/** The scripts behind a selection, skipping add-ons that were removed or don't fit its runtime. */
+export const resolveSelection = (target: OutputTarget, selection: RuntimeSelection) => {
+  const runtime = runtimeFor(target, selection.runtime);
+  return {
+    runtime,
+    libraries: availableLibraries(target, runtime?.id).filter((l) => selection.libraries.includes(l.id)),
+  };
+};
+
+/** What a saved variant runs on. Variants saved before this was recorded keep the runtime they were made for. */
+export const outputSelection = (output: { target?: TargetId; runtime?: string; libraries?: string[] }): RuntimeSelection => ({
+  runtime: output.runtime ?? getTarget(output.target).legacyRuntime,
+  libraries: output.libraries || [],
+});
+
+/** The runtime and add-ons the next Generator run uses for a target. */
+export const getSelection = (target: OutputTarget): RuntimeSelection =>
+  selections[target.id] || { runtime: target.defaultRuntime, libraries: [] };
+
+export const setSelection = (targetId: TargetId, selection: RuntimeSelection) => {
+  selections = { ...selections, [targetId]: selection };
+  localStorage.setItem(SELECTION_KEY, JSON.stringify(selections));
+  notify();
+};
+
+/** Tells the model which runtime version and add-ons its code will run with. */
+export const runtimeHint = (target: OutputTarget, selection: RuntimeSelection) => {
+  if (!target.runtimes && !target.libraries) return '';
+  const { runtime, libraries } = resolveSelection(target, selection);
+  return [
+    runtime && `The code runs on ${runtime.description || runtime.name}`,
+    libraries.length
+      ? `These add-on libraries are loaded and may be used: ${libraries.map((l) => l.description || `${l.name}.`).join(' ')}`
+      : `No add-on libraries are loaded, so use only the core of ${target.label}.`,
+    'Do not load any other scripts.',
+  ]
+    .filter(Boolean)
+    .join('\n');
+};
+
+const createLibraryId = () => `library-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const scriptName = (fileName: string) => fileName.replace(/(\.min)?\.m?js$/i, '');
+
+interface LibraryDetails {
+  name?: string;
+  description?: string;
+}
+
+/** Registers a script loaded from a URL, e.g. a CDN build of an add-on. */
+export const registerLibraryUrl = (targetId: TargetId, url: string, { name, description }: LibraryDetails = {}) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new AppError('input', `"${url}" is not a valid URL.`);
+  }
+  if (!/^https?:$/.test(parsed.protocol)) throw new AppError('input', 'Library URLs must start with http:// or https://.');
+  const library: CustomLibrary = {
+    id: createLibraryId(),
+    name: name?.trim() || scriptName(parsed.pathname.split('/').pop() || parsed.host),
+    url: parsed.href,
+    description: description?.trim() || undefined,
+    targetId,
+    source: 'url',
+    addedAt: Date.now(),
+  };
+  persistLibraries([...custom, library]);
+  return library;
+};
+
+/** Registers an uploaded script. It is stored in the browser and inlined wherever it is used. */
+export const registerLibraryFile = async (targetId: TargetId, file: File, { name, description }: LibraryDetails = {}) => {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new AppError('input', `${file.name} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB. Register it by URL instead.`);
+  }
+  const library: CustomLibrary = {
+    id: createLibraryId(),
+    name: name?.trim() || scriptName(file.name),
+    url: '',
+    content: await file.text(),
+    description: description?.trim() || undefined,
+    targetId,
+    source: 'upload',
+    addedAt: Date.now(),
+  };
+  persistLibraries([...custom, library]);
+  return library;
+};
+
+export const removeLibrary = (id: string) => persistLibraries(custom.filter((l) => l.id !== id));
+
+/** Whether exports include copies of their scripts so they run without a network. */
+export const getVendorExports = () => localStorage.getItem(VENDOR_KEY) === 'true';
+
+export const setVendorExports = (vendor: boolean) => {
+  localStorage.setItem(VENDOR_KEY, String(vendor));
+  notify();
+};
+
+const fetchScript = async (library: TargetLibrary) => {
+  let res: Response;
+  try {
+    res = await fetch(library.url);
+  } catch {
+    throw new AppError('network', `Couldn't download ${library.name} to include it in the export. Its server may not allow it; export without bundled scripts instead.`);
+  }
+  if (!res.ok) throw new AppError('network', `Couldn't download ${library.name} to include it in the export (HTTP ${res.status}).`, { status: res.status });
+  return res.text();
+};
+
+export interface ExportSource {
+  code: string;
+  files: SketchFile[];
+  selection: RuntimeSelection;
+}
+
+interface ScriptPlacement {
+  /** Copy every script into the export rather than linking CDN copies. */
+  vendor?: boolean;
+  /** Folder for copied scripts, with its trailing slash. */
+  scriptDir?: string;
+}
+
+/**
+ * The files of a runnable export. Scripts are linked from their CDN, or copied
+ * into `scriptDir` when `vendor` is set; uploaded scripts are always copied.
+ */
+export const buildExport = async (
+  target: OutputTarget,
+  { code, files, selection }: ExportSource,
+  { vendor = getVendorExports(), scriptDir = 'libs/' }: ScriptPlacement = {},
+) => {
+  const { runtime, libraries } = resolveSelection(target, selection);
+  const taken = new Set(files.map((f) => f.name));
+  const scripts: SketchFile[] = [];
+  const place = async (library: TargetLibrary): Promise<TargetLibrary> => {
+    if (!vendor && !library.content) return library;
+    const base = `${scriptDir}${library.name.toLowerCase().replace(/[^a-z0-9.]+/g, '-')}`;
+    let name = `${base}.js`;
+    for (let n = 2; taken.has(name); n++) name = `${base}-${n}.js`;
+    taken.add(name);
+    scripts.push({ name, content: library.content ?? (await fetchScript(library)) });
+    return { ...library, url: name, cdnUrl: undefined, content: undefined };
+  };
+  const localRuntime = runtime && (await place(runtime));
+  const localLibraries: TargetLibrary[] = [];
+  for (const library of libraries) localLibraries.push(await place(library));
+  return {
+    ...target.exportFiles(code, { runtime: localRuntime, libraries: localLibraries, files }),
+    ...Object.fromEntries(scripts.map((f) => [f.name, f.content])),
+    // Project files go in last so a model-written style.css replaces the default one.
+    ...Object.fromEntries(files.map((f) => [f.name, f.content])),
+  };
+};
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** The live API takes 16 kHz mono PCM in and speaks 24 kHz mono PCM back. */
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export const VOICES = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus'];
+export const DEFAULT_VOICE = 'Zephyr';
+
+/** Microphone audio is sent in chunks of this many milliseconds. */
+const CHUNK_MS = 100;
+
+/** Scheduling lead when playback starts from silence, so the first chunk isn't clipped. */
+const PLAYBACK_LEAD_S = 0.05;
+
+const CAPTURE_WORKLET = `
+class PcmCapture extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCapture);
+`;
+
+const int16ToBase64 = (samples: Int16Array) => {
+  const bytes = new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToInt16 = (data: string) => {
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  return new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+};
+
+/**
+ * Linear-interpolating resampler for a continuous stream: keeps the fractional
+ * read position and trailing samples between calls so chunk edges don't click.
+ */
+export const createResampler = (fromRate: number, toRate: number) => {
+  const step = fromRate / toRate;
+  let carry = new Float32Array(0);
+  let position = 0;
+  return (input: Float32Array) => {
+    const data = new Float32Array(carry.length + input.length);
+    data.set(carry);
+    data.set(input, carry.length);
+    const output = new Float32Array(Math.max(0, Math.ceil((data.length - 1 - position) / step)));
+    let n = 0;
+    for (; position + 1 < data.length && n < output.length; position += step) {
+      const i = Math.floor(position);
+      const t = position - i;
+      output[n++] = data[i] * (1 - t) + data[i + 1] * t;
+    }
+    const keep = Math.min(Math.floor(position), data.length);
+    carry = data.slice(keep);
+    position -= keep;
+    return output.subarray(0, n);
+  };
+};
+
+export interface MicrophoneCapture {
+  stop(): void;
+}
+
+/**
+ * Captures the microphone, resamples it to 16 kHz and hands base64 PCM chunks
+ * to `onChunk`. `stop()` releases the track, the worklet and the context.
+ */
+export const startMicrophone = async (onChunk: (base64: string) => void): Promise<MicrophoneCapture> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+  });
+  const context = new AudioContext();
+  const workletUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'text/javascript' }));
+  try {
+    await context.audioWorklet.addModule(workletUrl);
+  } catch (e) {
+    stream.getTracks().forEach((t) => t.stop());
+    context.close();
+    throw e;
+  } finally {
+    URL.revokeObjectURL(workletUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const capture = new AudioWorkletNode(context, 'pcm-capture');
+  // Keeps the worklet pulled by the graph without playing the mic back.
+  const mute = context.createGain();
+  mute.gain.value = 0;
+  source.connect(capture).connect(mute).connect(context.destination);
+
+  const resample = createResampler(context.sampleRate, INPUT_SAMPLE_RATE);
+  const chunkSize = (INPUT_SAMPLE_RATE * CHUNK_MS) / 1000;
+  let pending = new Int16Array(chunkSize);
+  let filled = 0;
+  capture.port.onmessage = ({ data }: MessageEvent<Float32Array>) => {
+    for (const sample of resample(data)) {
+      pending[filled++] = Math.max(-1, Math.min(1, sample)) * 0x7fff;
+      if (filled === chunkSize) {
+        onChunk(int16ToBase64(pending));
+        pending = new Int16Array(chunkSize);
+        filled = 0;
+      }
+    }
+  };
+
+  return {
+    stop: () => {
+      capture.port.onmessage = null;
+      source.disconnect();
+      capture.disconnect();
+      stream.getTracks().forEach((t) => t.stop());
+      context.close();
+    },
+  };
+};
+
+export interface AudioPlayer {
+  /** Queues a base64 PCM chunk right after whatever is already scheduled. */
+  enqueue(base64: string, mimeType?: string): void;
+  /** Drops everything queued or playing, e.g. when the user talks over the model. */
+  interrupt(): void;
+  close(): void;
+}
+
+export const createPlayer = (): AudioPlayer => {
+  const context = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextTime = 0;
+
+  const interrupt = () => {
+    sources.forEach((s) => {
+      s.onended = null;
+      s.stop();
+    });
+    sources.clear();
+    nextTime = 0;
+  };
+
+  return {
+    enqueue: (base64, mimeType = '') => {
+      const rate = Number(/rate=(\d+)/.exec(mimeType)?.[1]) || OUTPUT_SAMPLE_RATE;
+      const samples = base64ToInt16(base64);
+      if (samples.length === 0) return;
+      const buffer = context.createBuffer(1, samples.length, rate);
+      const channel = buffer.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) channel[i] = samples[i] / 32768;
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(context.destination);
+      nextTime = Math.max(nextTime, context.currentTime + PLAYBACK_LEAD_S);
+      source.start(nextTime);
+      nextTime += buffer.duration;
+      sources.add(source);
+      source.onended = () => sources.delete(source);
+    },
+    interrupt,
+    close: () => {
+      interrupt();
+      context.close();
+    },
+  };
+};
+
+export interface TranscriptTurn {
+  role: 'user' | 'model';
+  text: string;
+  done?: boolean;
+  interrupted?: boolean;
+}
+
+/** Older turns scroll off so a long session doesn't grow without bound. */
+const MAX_TURNS = 60;
+
+/** Adds streamed transcription text to the open turn of that speaker, or starts a new one. */
+export const appendTranscript = (turns: TranscriptTurn[], role: TranscriptTurn['role'], text: string) => {
+  const last = turns[turns.length - 1];
+  if (last && last.role === role && !last.done) {
+    return [...turns.slice(0, -1), { ...last, text: last.text + text }];
+  }
+  return [...turns, { role, text }].slice(-MAX_TURNS);
+};
+
+/** Closes every open turn; an interrupted model turn is marked as such. */
+export const finishTurns = (turns: TranscriptTurn[], interrupted = false) =>
+  turns.map((t) => (t.done ? t : { ...t, done: true, interrupted: interrupted && t.role === 'model' }));
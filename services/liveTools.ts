@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { TARGETS } from './targets';
+
+/** Functions a voice session may call to drive the Generator hands-free. */
+export const LIVE_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'generate_sketch',
+    description: 'Generates new sketch variants from the current source image, replacing the ones on screen.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        directives: { type: Type.STRING, description: 'Extra instructions for the sketch. Omit to keep the current ones.' },
+        target: {
+          type: Type.STRING,
+          enum: TARGETS.map((t) => t.id),
+          description: 'Output format. Omit to keep the current one.',
+        },
+      },
+    },
+  },
+  {
+    name: 'refine_variant',
+    description: 'Changes one of the sketch variants on screen as described.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        variant: { type: Type.INTEGER, description: 'Which variant to change, counting from 1. Defaults to 1.' },
+        instruction: { type: Type.STRING, description: 'The change to make, e.g. "make the circles follow the mouse".' },
+      },
+      required: ['instruction'],
+    },
+  },
+  {
+    name: 'capture_camera_photo',
+    description: 'Takes a photo with the camera and adds it to the reference images, as the capture button does.',
+    parameters: { type: Type.OBJECT, properties: {} },
+  },
+];
+
+export const LIVE_INSTRUCTION = `You help people turn images into ${TARGETS.map((t) => t.label).join(', ')} sketches by talking it through.
+Use the functions to capture a photo, generate sketches and change them; the user watches the preview update.
+Generating and changing sketches takes a while, so say what you are about to do before calling a function, and keep your replies short.`;
+
+export type LiveToolHandlers = Record<string, (args: Record<string, any>) => Promise<Record<string, unknown>>>;
+
+/**
+ * Runs a batch of calls one after another, so a photo taken by one call is
+ * there for the next, and wraps each result or error as a function response.
+ * Calls whose ids are in `cancelled` by the time they finish are dropped.
+ */
+export const runToolCalls = async (calls: FunctionCall[], handlers: LiveToolHandlers, cancelled: Set<string>) => {
+  const responses: FunctionResponse[] = [];
+  for (const { id, name = '', args = {} } of calls) {
+    if (id && cancelled.has(id)) continue;
+    let response: Record<string, unknown>;
+    try {
+      const handler = handlers[name];
+      if (!handler) throw new Error(`Unknown function ${name}`);
+      response = { output: await handler(args) };
+    } catch (e: any) {
+      response = { error: e?.message || String(e) };
+    }
+    if (!(id && cancelled.has(id))) responses.push({ id, name, response });
+  }
+  return responses;
+};
+
+/** The prose around the code blocks of a model reply, e.g. its one-line change summary. */
+export const replySummary = (text: string) => text.replace(/```[\s\S]*?(```|$)/g, ' ').replace(/\s+/g, ' ').trim();
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { AppError } from './errors';
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+/** Where Maps grounding searches around: the browser's position, a point the user entered, or nowhere in particular. */
+export type LocationMode = 'browser' | 'manual' | 'off';
+
+export interface LocationSetting {
+  mode: LocationMode;
+  manual?: LatLng;
+}
+
+const STORAGE_KEY = 'chatLocation';
+
+/** A browser fix this recent is reused rather than asking the device again. */
+const MAX_FIX_AGE_MS = 10 * 60 * 1000;
+const FIX_TIMEOUT_MS = 10000;
+
+export const DEFAULT_LOCATION: LocationSetting = { mode: 'browser' };
+
+export const loadLocationSetting = (): LocationSetting => {
+  try {
+    return { ...DEFAULT_LOCATION, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_LOCATION;
+  }
+};
+
+export const saveLocationSetting = (setting: LocationSetting) => localStorage.setItem(STORAGE_KEY, JSON.stringify(setting));
+
+export const isValidLatLng = (point?: Partial<LatLng>): point is LatLng =>
+  !!point &&
+  Number.isFinite(point.latitude) &&
+  Number.isFinite(point.longitude) &&
+  Math.abs(point.latitude!) <= 90 &&
+  Math.abs(point.longitude!) <= 180;
+
+/** The device's position, asking for permission the first time. */
+export const browserLocation = () =>
+  new Promise<LatLng>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new AppError('device', 'This browser cannot share its location. Enter one by hand instead.'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude }),
+      (e) =>
+        reject(
+          new AppError(
+            'device',
+            e.code === e.PERMISSION_DENIED
+              ? 'Location access was denied. Allow it in the browser, or enter a location by hand.'
+              : `Couldn't get your location: ${e.message || 'the position is unavailable'}.`,
+          ),
+        ),
+      { maximumAge: MAX_FIX_AGE_MS, timeout: FIX_TIMEOUT_MS },
+    );
+  });
+
+/** The point a setting stands for, or null when grounding should not be tied to a location. */
+export const resolveLocation = async (setting: LocationSetting): Promise<LatLng | null> => {
+  if (setting.mode === 'browser') return browserLocation();
+  if (setting.mode === 'manual') {
+    if (!isValidLatLng(setting.manual)) {
+      throw new AppError('input', 'Enter a latitude between -90 and 90 and a longitude between -180 and 180.');
+    }
+    return setting.manual;
+  }
+  return null;
+};
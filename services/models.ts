@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** What a model can be asked to do; the settings panel only offers models that fit a feature. */
+export type ModelCapability =
+  | 'text'
+  | 'sampling'
+  | 'thinking'
+  | 'search'
+  | 'maps'
+  | 'imageOutput'
+  | 'imageEdit'
+  | 'video'
+  | 'liveAudio';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  capabilities: ModelCapability[];
+  /** Largest thinking budget the model accepts, for models with `thinking`. */
+  maxThinkingBudget?: number;
+  /** Added by the user rather than shipped with the app. */
+  custom?: boolean;
+}
+
+export const CAPABILITIES: { id: ModelCapability; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'sampling', label: 'Sampling' },
+  { id: 'thinking', label: 'Thinking' },
+  { id: 'search', label: 'Search' },
+  { id: 'maps', label: 'Maps' },
+  { id: 'imageOutput', label: 'Image out' },
+  { id: 'imageEdit', label: 'Image edit' },
+  { id: 'video', label: 'Video' },
+  { id: 'liveAudio', label: 'Live audio' },
+];
+
+export const MODELS: ModelInfo[] = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', capabilities: ['text', 'sampling', 'thinking', 'search'], maxThinkingBudget: 32768 },
+  { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash', capabilities: ['text', 'sampling', 'thinking', 'search'], maxThinkingBudget: 24576 },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', capabilities: ['text', 'sampling', 'thinking', 'search', 'maps'], maxThinkingBudget: 32768 },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', capabilities: ['text', 'sampling', 'thinking', 'search', 'maps'], maxThinkingBudget: 24576 },
+  { id: 'gemini-2.5-flash-lite-latest', label: 'Gemini 2.5 Flash Lite', capabilities: ['text', 'sampling', 'search'] },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image', capabilities: ['imageOutput', 'imageEdit'] },
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', capabilities: ['imageOutput', 'imageEdit'] },
+  { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast', capabilities: ['video'] },
+  { id: 'veo-3.1-generate-preview', label: 'Veo 3.1', capabilities: ['video'] },
+  { id: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Gemini 2.5 Flash Native Audio', capabilities: ['liveAudio'] },
+];
+
+/** The places the app calls a model, each picked separately in settings. */
+export type ModelFeature = 'code' | 'codeLite' | 'explain' | 'chat' | 'maps' | 'image' | 'edit' | 'video' | 'live';
+
+export const FEATURES: { id: ModelFeature; label: string; requires: ModelCapability }[] = [
+  { id: 'code', label: 'Code (Pro)', requires: 'text' },
+  { id: 'codeLite', label: 'Code (Lite)', requires: 'text' },
+  { id: 'explain', label: 'Explain', requires: 'text' },
+  { id: 'chat', label: 'Chat', requires: 'text' },
+  { id: 'maps', label: 'Chat with Maps', requires: 'maps' },
+  { id: 'image', label: 'Studio image', requires: 'imageOutput' },
+  { id: 'edit', label: 'Studio edit', requires: 'imageEdit' },
+  { id: 'video', label: 'Studio video', requires: 'video' },
+  { id: 'live', label: 'Voice', requires: 'liveAudio' },
+];
+
+export const DEFAULT_MODELS: Record<ModelFeature, string> = {
+  code: 'gemini-3-pro-preview',
+  codeLite: 'gemini-2.5-flash-lite-latest',
+  explain: 'gemini-3-flash-preview',
+  chat: 'gemini-3-pro-preview',
+  maps: 'gemini-2.5-flash',
+  image: 'gemini-3-pro-image-preview',
+  edit: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+};
+
+export const hasCapability = (model: ModelInfo | undefined, capability: ModelCapability) =>
+  !!model?.capabilities.includes(capability);
+
+/** Models in `catalog` that can serve a feature. */
+export const modelsFor = (catalog: ModelInfo[], feature: ModelFeature) => {
+  const requires = FEATURES.find((f) => f.id === feature)!.requires;
+  return catalog.filter((m) => hasCapability(m, requires));
+};
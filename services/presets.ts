@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { TargetId } from './targets';
+
+/** The tab a preset belongs to: Generator, Intelligence or Studio. */
+export type PresetScope = 'sketch' | 'chat' | 'media';
+
+/** A system prompt replaces the tab's instructions; a snippet is inserted into the directives. */
+export type PresetKind = 'system' | 'snippet';
+
+export interface Preset {
+  id: string;
+  name: string;
+  scope: PresetScope;
+  kind: PresetKind;
+  text: string;
+  /** Generator system prompts are written for one output target. */
+  targetId?: TargetId;
+  updatedAt: number;
+}
+
+/** What a generation records about the system prompt preset it ran with. */
+export interface PresetUse {
+  id: string;
+  name: string;
+  values?: Record<string, string>;
+}
+
+export interface PresetFile {
+  format: 'image-to-code-presets';
+  version: 1;
+  presets: Preset[];
+}
+
+const STORAGE_KEY = 'promptPresets';
+const SCOPES: PresetScope[] = ['sketch', 'chat', 'media'];
+const KINDS: PresetKind[] = ['system', 'snippet'];
+
+export const loadPresets = (): Preset[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const persist = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+/** Inserts or replaces a preset, keeping the list sorted by name. */
+export const savePreset = (preset: Preset) =>
+  persist([...loadPresets().filter((p) => p.id !== preset.id), preset].sort((a, b) => a.name.localeCompare(b.name)));
+
+export const deletePreset = (id: string) => persist(loadPresets().filter((p) => p.id !== id));
+
+export const createPresetId = () => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Names of the `{{variable}}` placeholders in the given texts, in order of first use. */
+export const placeholderNames = (...texts: string[]) => [
+  ...new Set(texts.flatMap((text) => [...text.matchAll(PLACEHOLDER)].map((m) => m[1]))),
+];
+
+/** Substitutes placeholder values; placeholders without a value are left as written. */
+export const fillPlaceholders = (text: string, values: Record<string, string>) =>
+  text.replace(PLACEHOLDER, (match, name) => (values[name]?.trim() ? values[name] : match));
+
+export const missingPlaceholders = (names: string[], values: Record<string, string>) =>
+  names.filter((name) => !values[name]?.trim());
+
+export const exportPresets = (presets: Preset[]): PresetFile => ({ format: 'image-to-code-presets', version: 1, presets });
+
+const isPreset = (value: any): value is Preset =>
+  value &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.text === 'string' &&
+  SCOPES.includes(value.scope) &&
+  KINDS.includes(value.kind);
+
+/**
+ * Merges a shared preset file into the library. Presets with a known id are
+ * replaced, so re-importing an updated file updates them in place.
+ */
+export const importPresets = (file: unknown) => {
+  const data = file as Partial<PresetFile>;
+  if (data?.format !== 'image-to-code-presets' || !Array.isArray(data.presets)) {
+    throw new Error('Not a preset file.');
+  }
+  const incoming = data.presets.filter(isPreset);
+  const ids = new Set(incoming.map((p) => p.id));
+  return persist(
+    [...loadPresets().filter((p) => !ids.has(p.id)), ...incoming.map((p) => ({ ...p, updatedAt: p.updatedAt || Date.now() }))]
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  );
+};
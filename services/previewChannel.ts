@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Previews run model-written code, so the iframe gets scripts but not the
+ * app's origin: no cookies, storage or access to the parent DOM.
+ */
+export const PREVIEW_SANDBOX = 'allow-scripts allow-pointer-lock allow-downloads';
+
+/** A connected preview that sends no heartbeat for this long is treated as hung. */
+export const HEARTBEAT_TIMEOUT_MS = 3000;
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  text: string;
+  /** Line and column in the preview document, when the runtime could tell. */
+  line?: number;
+  column?: number;
+}
+
+export type PreviewMessage =
+  | { type: 'status'; status: 'loading' | 'success' | 'error'; message: string; line?: number; column?: number }
+  | { type: 'console'; entries: ConsoleEntry[] }
+  | { type: 'heartbeat' }
+  | { type: 'frame'; dataUrl?: string; error?: string }
+  /** A WebM recording, or raw RGBA frames of the given size for a GIF. */
+  | { type: 'recording'; blob?: Blob; frames?: ArrayBuffer[]; width?: number; height?: number; error?: string };
+
+/** Messages from the app to a running preview. */
+export type PreviewCommand =
+  | { type: 'tweak'; name: string; value: number | string | boolean }
+  | { type: 'capture' }
+  /** `width` scales the canvas; its own size is kept when absent. `maxFramePixels` scales it down further. */
+  | { type: 'record'; format: 'webm' | 'gif'; seconds: number; fps: number; width?: number; maxFramePixels?: number };
+
+type PreviewReply = Extract<PreviewMessage, { type: 'frame' | 'recording' }>;
+
+export interface PreviewConnection {
+  send: (command: PreviewCommand) => void;
+  /** Sends a command and waits for its reply, which then skips the connection's onMessage. */
+  request: <T extends PreviewReply['type']>(command: PreviewCommand, reply: T, timeoutMs: number) => Promise<Extract<PreviewReply, { type: T }>>;
+  close: () => void;
+}
+
+export const createChannelId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Hands a fresh MessagePort to the document loaded in `frame`. The sandboxed
+ * document has an opaque origin, so the handshake itself has to target '*';
+ * the port is what keeps every later message private to this one preview.
+ */
+export const connectPreview = (
+  frame: HTMLIFrameElement,
+  channel: string,
+  onMessage: (message: PreviewMessage) => void,
+): PreviewConnection => {
+  const { port1, port2 } = new MessageChannel();
+  const waiting = new Map<string, (message: PreviewMessage) => void>();
+  port1.onmessage = (event) => {
+    const resolve = waiting.get(event.data?.type);
+    if (!resolve) return onMessage(event.data);
+    waiting.delete(event.data.type);
+    resolve(event.data);
+  };
+  frame.contentWindow?.postMessage({ type: 'SKETCH_CONNECT', channel }, '*', [port2]);
+  return {
+    send: (command) => port1.postMessage(command),
+    request: (command, reply, timeoutMs) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          waiting.delete(reply);
+          reject(new Error('The preview stopped responding.'));
+        }, timeoutMs);
+        waiting.set(reply, (message) => {
+          clearTimeout(timer);
+          resolve(message as any);
+        });
+        port1.postMessage(command);
+      }),
+    close: () => {
+      port1.onmessage = null;
+      port1.close();
+    },
+  };
+};
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column?: number;
+}
+
+/** A console entry as shown in the app, with its position mapped back to a source file. */
+export interface LoggedEntry extends ConsoleEntry {
+  location?: SourceLocation;
+}
+
+/** Oldest entries are dropped past this, so a chatty draw() loop cannot grow the list forever. */
+export const MAX_CONSOLE_ENTRIES = 200;
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI } from '@google/genai';
+import { abortable } from '../jobs';
+import type { ModelProvider } from './types';
+import { abortableStream } from './utils';
+
+export const createGeminiProvider = (apiKey = process.env.API_KEY): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    // This SDK version can't cancel its request, so an aborted call is abandoned: the reply is never
+    // waited for, and a stream is no longer read.
+    generateContent: (params) => {
+      const signal = params.config?.abortSignal;
+      const res = ai.models.generateContent(params);
+      return signal ? abortable(res, signal) : res;
+    },
+    generateContentStream: async (params) => {
+      const signal = params.config?.abortSignal;
+      const stream = ai.models.generateContentStream(params);
+      return abortableStream(signal ? await abortable(stream, signal) : await stream, signal);
+    },
+    generateVideos: (params) => ai.models.generateVideos(params),
+    getVideosOperation: (operation) => ai.operations.getVideosOperation({ operation }),
+    fetchVideo: async (uri) => {
+      const res = await fetch(`${uri}&key=${apiKey}`);
+      return res.blob();
+    },
+    connectLive: (params) => ai.live.connect(params),
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import { withRecording } from './recording';
+import type { ModelProvider, ProviderId } from './types';
+
+export type { LiveSessionHandle, ModelProvider, ProviderId } from './types';
+export {
+  clearRecording,
+  exportFixtures,
+  getFixtureStats,
+  getRecordMode,
+  loadFixtures,
+  setRecordMode,
+  subscribeFixtures,
+} from './recording';
+export type { FixtureFile, RecordMode } from './recording';
+
+const STORAGE_KEY = 'modelProvider';
+
+export const PROVIDERS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'mock', label: 'Mock' },
+  { id: 'openai', label: 'Local' },
+];
+
+const factories: Record<ProviderId, () => ModelProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+  openai: createOpenAIProvider,
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in factories;
+
+export const getProviderId = (): ProviderId => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (isProviderId(saved)) return saved;
+  return isProviderId(process.env.MODEL_PROVIDER) ? process.env.MODEL_PROVIDER : 'gemini';
+};
+
+export const setProviderId = (id: ProviderId) => {
+  localStorage.setItem(STORAGE_KEY, id);
+};
+
+const cache = new Map<ProviderId, ModelProvider>();
+
+/**
+ * Returns the active provider, wrapped for record/replay. Call per request so a
+ * switch takes effect immediately.
+ */
+export const getProvider = (): ModelProvider => {
+  const id = getProviderId();
+  if (!cache.has(id)) cache.set(id, withRecording(factories[id]()));
+  return cache.get(id)!;
+};
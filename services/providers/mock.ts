@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GenerateContentParameters, LiveServerMessage } from '@google/genai';
+import { abortable } from '../jobs';
+import type { GenerateParams, LiveSessionHandle, ModelProvider } from './types';
+import { estimateTokens, hashString, toResponse, toTurns, turnsText } from './utils';
+
+const PALETTES = [
+  ['#0f172a', '#38bdf8', '#f472b6'],
+  ['#1c1917', '#facc15', '#fb923c'],
+  ['#022c22', '#34d399', '#a7f3d0'],
+  ['#1e1b4b', '#a78bfa', '#f0abfc'],
+];
+
+const delay = (ms: number, signal?: AbortSignal) => {
+  const wait = new Promise((r) => setTimeout(r, ms));
+  return signal ? abortable(wait, signal) : wait;
+};
+
+const mockSketch = (seed: number) => {
+  const [bg, a, b] = PALETTES[seed % PALETTES.length];
+  const count = 40 + (seed % 60);
+  return `Here is a sketch inspired by your image.
+
+\`\`\`javascript
+// Mock sketch #${seed % 1000}: orbiting particles
+const particles = [];
+
+function setup() {
+  createCanvas(500, 500);
+  for (let i = 0; i < ${count}; i++) {
+    particles.push({ angle: random(TWO_PI), radius: random(40, 220), speed: random(0.002, 0.02) });
+  }
+  noStroke();
+}
+
+function draw() {
+  background('${bg}');
+  translate(width / 2, height / 2);
+  for (const p of particles) {
+    p.angle += p.speed;
+    fill(lerpColor(color('${a}'), color('${b}'), p.radius / 220));
+    circle(cos(p.angle) * p.radius, sin(p.angle) * p.radius, 8);
+  }
+}
+\`\`\`
+
+The particles orbit the centre at random speeds, blending between two colours by distance.`;
+};
+
+const mockReply = (prompt: string) =>
+  `**Mock reply.** You asked:\n\n> ${prompt.split('\n').join('\n> ')}\n\nThis answer comes from the offline mock provider, so it is the same every time.`;
+
+const wantsImage = (params: GenerateContentParameters) =>
+  /image/.test(params.model) || !!(params.config as Record<string, unknown> | undefined)?.imageConfig;
+
+const hasInlineImage = (params: GenerateContentParameters) =>
+  toTurns(params.contents).some((t) => t.parts?.some((p) => p.inlineData?.mimeType?.startsWith('image/')));
+
+const drawMockFrame = (ctx: CanvasRenderingContext2D, seed: number, t: number) => {
+  const [bg, a, b] = PALETTES[seed % PALETTES.length];
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, width, height);
+  for (let i = 0; i < 12; i++) {
+    const angle = (i / 12) * Math.PI * 2 + t;
+    ctx.fillStyle = i % 2 ? a : b;
+    ctx.beginPath();
+    ctx.arc(width / 2 + Math.cos(angle) * width * 0.3, height / 2 + Math.sin(angle) * height * 0.3, width * 0.05, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+const mockImageBase64 = (seed: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 512;
+  drawMockFrame(canvas.getContext('2d')!, seed, seed % 7);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+const mockVideoBlob = (seed: number, seconds = 2) =>
+  new Promise<Blob>((resolve) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 640;
+    canvas.height = 360;
+    const ctx = canvas.getContext('2d')!;
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    const start = performance.now();
+    const tick = () => {
+      const t = (performance.now() - start) / 1000;
+      drawMockFrame(ctx, seed, t);
+      if (t < seconds) requestAnimationFrame(tick);
+      else recorder.stop();
+    };
+    recorder.start();
+    tick();
+  });
+
+/** A short 24kHz PCM16 tone, base64 encoded the way the live API sends audio. */
+const mockToneBase64 = (seconds = 0.4, frequency = 440) => {
+  const samples = Math.floor(24000 * seconds);
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / 800, (samples - i) / 800);
+    pcm[i] = Math.sin((2 * Math.PI * frequency * i) / 24000) * 8000 * envelope;
+  }
+  let binary = '';
+  new Uint8Array(pcm.buffer).forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+};
+
+/** Transcription messages; their fields are newer than the SDK's typings. */
+const transcription = (field: 'inputTranscription' | 'outputTranscription', text: string) =>
+  ({ serverContent: { [field]: { text } } }) as LiveServerMessage;
+
+/**
+ * Deterministic, offline provider. Responses are derived from a hash of the
+ * request so the same input always yields the same output.
+ */
+export const createMockProvider = (): ModelProvider => {
+  const generateText = (params: GenerateContentParameters) => {
+    const turns = toTurns(params.contents);
+    const prompt = turnsText(turns.slice(-1));
+    const seed = hashString(params.model + turnsText(turns));
+    return hasInlineImage(params) || /p5\.js|```/.test(prompt) ? mockSketch(seed) : mockReply(prompt);
+  };
+
+  const generateContent = async (params: GenerateParams) => {
+    await delay(300, params.config?.abortSignal);
+    const promptTokens = estimateTokens(turnsText(toTurns(params.contents)));
+    if (wantsImage(params)) {
+      const seed = hashString(turnsText(toTurns(params.contents)));
+      return toResponse([{ inlineData: { data: mockImageBase64(seed), mimeType: 'image/png' } }], {
+        prompt: promptTokens,
+        output: 0,
+      });
+    }
+    const text = generateText(params);
+    return toResponse([{ text }], { prompt: promptTokens, output: estimateTokens(text) });
+  };
+
+  return {
+    id: 'mock',
+    label: 'Offline mock',
+    generateContent,
+    generateContentStream: async (params) => {
+      const text = generateText(params);
+      const promptTokens = estimateTokens(turnsText(toTurns(params.contents)));
+      const words = text.split(/(?<=\s)/);
+      return (async function* () {
+        for (let i = 0; i < words.length; i += 4) {
+          await delay(40, params.config?.abortSignal);
+          const done = i + 4 >= words.length;
+          yield toResponse(
+            [{ text: words.slice(i, i + 4).join('') }],
+            done ? { prompt: promptTokens, output: estimateTokens(text) } : undefined,
+          );
+        }
+      })();
+    },
+    generateVideos: async (params) => ({
+      name: `operations/mock-${hashString(params.prompt || '')}`,
+      done: false,
+    }),
+    getVideosOperation: async (operation) => {
+      await delay(500);
+      return {
+        ...operation,
+        done: true,
+        response: { generatedVideos: [{ video: { uri: `mock://${operation.name}` } }] },
+      };
+    },
+    fetchVideo: (uri) => mockVideoBlob(hashString(uri)),
+    connectLive: async ({ callbacks }) => {
+      let open = true;
+      let pendingChunks = 0;
+      let turns = 0;
+      const respond = (heard = false) => {
+        if (!open) return;
+        turns++;
+        const messages: LiveServerMessage[] = [
+          ...(heard ? [transcription('inputTranscription', `Mock speech ${turns}.`)] : []),
+          transcription('outputTranscription', `Mock reply ${turns}.`),
+          { serverContent: { modelTurn: { parts: [{ inlineData: { data: mockToneBase64(), mimeType: 'audio/pcm;rate=24000' } }] } } },
+          { serverContent: { turnComplete: true } },
+        ];
+        messages.forEach((m, i) => setTimeout(() => open && callbacks.onmessage(m), 100 * (i + 1)));
+      };
+      const session: LiveSessionHandle = {
+        sendClientContent: ({ turnComplete }) => {
+          if (turnComplete !== false) respond();
+        },
+        sendRealtimeInput: () => {
+          // Answer roughly once per few seconds of streamed microphone audio.
+          if (++pendingChunks % 40 === 0) respond(true);
+        },
+        sendToolResponse: () => respond(),
+        close: () => {
+          open = false;
+          callbacks.onclose?.(new CloseEvent('close'));
+        },
+      };
+      setTimeout(() => {
+        callbacks.onopen?.();
+        respond();
+      }, 100);
+      return session;
+    },
+  };
+};
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GenerateContentParameters } from '@google/genai';
+import type { ModelProvider } from './types';
+import { toResponse, toTurns } from './utils';
+
+interface OpenAIOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  /** Overrides the Gemini model id sent by the app, since local servers rarely share those names. */
+  model?: string;
+}
+
+const unsupported = (what: string) => () =>
+  Promise.reject(new Error(`${what} is not supported by the OpenAI-compatible provider.`));
+
+/** Converts Gemini-style contents and system instruction into chat messages. */
+const toMessages = (params: GenerateContentParameters) => {
+  const config = (params.config || {}) as Record<string, any>;
+  const messages: Record<string, unknown>[] = [];
+  if (config.systemInstruction) {
+    const system = toTurns(config.systemInstruction);
+    messages.push({ role: 'system', content: system.flatMap((t) => t.parts || []).map((p) => p.text).join('\n') });
+  }
+  for (const turn of toTurns(params.contents)) {
+    const content = (turn.parts || []).map((p) =>
+      p.inlineData
+        ? { type: 'image_url', image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } }
+        : { type: 'text', text: p.text || '' },
+    );
+    messages.push({ role: turn.role === 'model' ? 'assistant' : 'user', content });
+  }
+  return messages;
+};
+
+export const createOpenAIProvider = ({
+  baseUrl = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  apiKey = process.env.OPENAI_API_KEY,
+  model = process.env.OPENAI_MODEL,
+}: OpenAIOptions = {}): ModelProvider => {
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(`${res.status} ${res.statusText}: ${await res.text()}`);
+    return res;
+  };
+
+  const chatBody = (params: GenerateContentParameters, stream: boolean) => {
+    const config = (params.config || {}) as Record<string, any>;
+    return {
+      model: model || params.model,
+      messages: toMessages(params),
+      temperature: config.temperature,
+      top_p: config.topP,
+      stream,
+    };
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    generateContent: async (params) => {
+      const config = (params.config || {}) as Record<string, any>;
+      if (config.imageConfig || /image/.test(params.model)) {
+        const prompt = toTurns(params.contents).flatMap((t) => t.parts || []).map((p) => p.text || '').join('\n');
+        const res = await post('/images/generations', { model: model || params.model, prompt, response_format: 'b64_json' }, config.abortSignal);
+        const json = await res.json();
+        return toResponse([{ inlineData: { data: json.data?.[0]?.b64_json, mimeType: 'image/png' } }]);
+      }
+      const res = await post('/chat/completions', chatBody(params, false), config.abortSignal);
+      const json = await res.json();
+      return toResponse(
+        [{ text: json.choices?.[0]?.message?.content || '' }],
+        json.usage ? { prompt: json.usage.prompt_tokens, output: json.usage.completion_tokens } : undefined,
+      );
+    },
+    generateContentStream: async (params) => {
+      const res = await post('/chat/completions', chatBody(params, true), params.config?.abortSignal);
+      const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+      return (async function* () {
+        let buffer = '';
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) return;
+          buffer += value;
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          for (const line of lines) {
+            // Only data lines carry chunks; comments (keep-alives), event and id lines are skipped.
+            if (!line.startsWith('data:')) continue;
+            const data = line.slice(5).trim();
+            if (data === '[DONE]') {
+              reader.cancel();
+              return;
+            }
+            if (!data) continue;
+            const json = JSON.parse(data);
+            const text = json.choices?.[0]?.delta?.content;
+            if (text) yield toResponse([{ text }]);
+          }
+        }
+      })();
+    },
+    generateVideos: unsupported('Video generation'),
+    getVideosOperation: unsupported('Video generation'),
+    fetchVideo: unsupported('Video generation'),
+    connectLive: unsupported('Live audio'),
+  };
+};
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GenerateContentResponse } from '@google/genai';
+import type { LiveServerMessage } from '@google/genai';
+import { AppError } from '../errors';
+import { abortable } from '../jobs';
+import type { LiveSessionHandle, ModelProvider } from './types';
+import { abortableStream, hashString } from './utils';
+
+export type RecordMode = 'off' | 'record' | 'replay';
+
+type FixtureMethod =
+  | 'generateContent'
+  | 'generateContentStream'
+  | 'generateVideos'
+  | 'getVideosOperation'
+  | 'fetchVideo'
+  | 'connectLive';
+
+export interface FixtureEntry {
+  key: string;
+  method: FixtureMethod;
+  request: unknown;
+  response: unknown;
+}
+
+export interface FixtureFile {
+  version: 1;
+  createdAt: string;
+  entries: FixtureEntry[];
+}
+
+interface RecordedLiveMessage {
+  at: number;
+  message: LiveServerMessage;
+}
+
+const MODE_KEY = 'genaiRecordMode';
+
+let recorded: FixtureEntry[] = [];
+let replayEntries: FixtureEntry[] | null = null;
+const cursors = new Map<string, number>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((l) => l());
+
+export const subscribeFixtures = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const isRecordMode = (value: unknown): value is RecordMode =>
+  value === 'off' || value === 'record' || value === 'replay';
+
+export const getRecordMode = (): RecordMode => {
+  const saved = localStorage.getItem(MODE_KEY);
+  if (isRecordMode(saved)) return saved;
+  return isRecordMode(process.env.GENAI_RECORD_MODE) ? process.env.GENAI_RECORD_MODE : 'off';
+};
+
+export const setRecordMode = (mode: RecordMode) => {
+  localStorage.setItem(MODE_KEY, mode);
+  cursors.clear();
+  notify();
+};
+
+export const getFixtureStats = () => ({
+  recorded: recorded.length,
+  loaded: replayEntries?.length ?? 0,
+});
+
+export const clearRecording = () => {
+  recorded = [];
+  notify();
+};
+
+export const exportFixtures = (): FixtureFile => ({
+  version: 1,
+  createdAt: new Date().toISOString(),
+  entries: recorded,
+});
+
+export const loadFixtures = (file: FixtureFile) => {
+  if (file?.version !== 1 || !Array.isArray(file.entries)) {
+    throw new AppError('input', 'Not a GenAI fixture file.');
+  }
+  replayEntries = file.entries;
+  cursors.clear();
+  notify();
+};
+
+/** Fixtures can also be served by the dev server, e.g. for CI runs. */
+const ensureReplayEntries = async () => {
+  if (replayEntries) return replayEntries;
+  if (process.env.GENAI_FIXTURES_URL) {
+    const res = await fetch(process.env.GENAI_FIXTURES_URL);
+    if (!res.ok) {
+      throw new AppError('input', `Couldn't load the fixture file at ${process.env.GENAI_FIXTURES_URL}: the server answered ${res.status} ${res.statusText}.`, { status: res.status });
+    }
+    loadFixtures(await res.json());
+  }
+  if (!replayEntries) throw new Error('Replay mode is on, but no fixture file is loaded.');
+  return replayEntries;
+};
+
+/**
+ * Reduces a request to the fields that identify it. Callbacks are dropped and
+ * inline media is replaced by a hash so keys stay short and stable.
+ */
+const sanitize = (value: unknown): unknown => {
+  if (typeof value === 'function') return undefined;
+  if (Array.isArray(value)) return value.map(sanitize);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const v = (value as Record<string, unknown>)[key];
+      if (key === 'callbacks' || key === 'abortSignal' || typeof v === 'function') continue;
+      out[key] = key === 'data' && typeof v === 'string' && v.length > 256 ? `sha:${hashString(v)}` : sanitize(v);
+    }
+    return out;
+  }
+  return value;
+};
+
+const fixtureKey = (method: FixtureMethod, request: unknown) =>
+  `${method}:${hashString(JSON.stringify(request))}`;
+
+const toPlain = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const reviveResponse = (data: unknown) => Object.assign(new GenerateContentResponse(), data);
+
+const record = (method: FixtureMethod, request: unknown, response: unknown) => {
+  recorded.push({ key: fixtureKey(method, request), method, request, response: toPlain(response) });
+  notify();
+};
+
+/**
+ * Serves recorded responses for a key in order. Once a key runs out, its last
+ * entry keeps being served, so polling loops settle on the final state.
+ */
+const replay = async (method: FixtureMethod, request: unknown) => {
+  const key = fixtureKey(method, request);
+  const matches = (await ensureReplayEntries()).filter((e) => e.key === key);
+  if (matches.length === 0) {
+    throw new Error(`No recorded fixture for ${method} (${key}).`);
+  }
+  const index = cursors.get(key) ?? 0;
+  cursors.set(key, index + 1);
+  return matches[Math.min(index, matches.length - 1)].response;
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const replayLive = (messages: RecordedLiveMessage[], callbacks: { onopen?: (() => void) | null; onmessage: (m: LiveServerMessage) => void; onclose?: ((e: CloseEvent) => void) | null }): LiveSessionHandle => {
+  const timers = messages.map(({ at, message }) => setTimeout(() => callbacks.onmessage(message), at));
+  setTimeout(() => callbacks.onopen?.(), 0);
+  const noop = () => {};
+  return {
+    sendClientContent: noop,
+    sendRealtimeInput: noop,
+    sendToolResponse: noop,
+    close: () => {
+      timers.forEach(clearTimeout);
+      callbacks.onclose?.(new CloseEvent('close'));
+    },
+  };
+};
+
+/** Wraps a provider so its traffic can be recorded to, or served from, a fixture file. */
+export const withRecording = (provider: ModelProvider): ModelProvider => ({
+  ...provider,
+  generateContent: async (params) => {
+    const request = sanitize(params);
+    const mode = getRecordMode();
+    if (mode === 'replay') {
+      // Honours the abort signal like a live provider, so cancelling works the same under replay.
+      const signal = params.config?.abortSignal;
+      const res = replay('generateContent', request);
+      return reviveResponse(await (signal ? abortable(res, signal) : res));
+    }
+    const res = await provider.generateContent(params);
+    if (mode === 'record') record('generateContent', request, res);
+    return res;
+  },
+  generateContentStream: async (params) => {
+    const request = sanitize(params);
+    const mode = getRecordMode();
+    if (mode === 'replay') {
+      const signal = params.config?.abortSignal;
+      const res = replay('generateContentStream', request);
+      const chunks = (await (signal ? abortable(res, signal) : res)) as unknown[];
+      return abortableStream(
+        (async function* () {
+          for (const chunk of chunks) yield reviveResponse(chunk);
+        })(),
+        signal,
+      );
+    }
+    const stream = await provider.generateContentStream(params);
+    if (mode !== 'record') return stream;
+    return (async function* () {
+      const chunks: GenerateContentResponse[] = [];
+      try {
+        for await (const chunk of stream) {
+          chunks.push(chunk);
+          yield chunk;
+        }
+      } finally {
+        record('generateContentStream', request, chunks);
+      }
+    })();
+  },
+  generateVideos: async (params) => {
+    const request = sanitize(params);
+    const mode = getRecordMode();
+    if (mode === 'replay') return (await replay('generateVideos', request)) as Awaited<ReturnType<ModelProvider['generateVideos']>>;
+    const op = await provider.generateVideos(params);
+    if (mode === 'record') record('generateVideos', request, op);
+    return op;
+  },
+  getVideosOperation: async (operation) => {
+    // Keyed by operation name only: every poll of one operation shares a key.
+    const request = { name: operation.name };
+    const mode = getRecordMode();
+    if (mode === 'replay') return (await replay('getVideosOperation', request)) as typeof operation;
+    const op = await provider.getVideosOperation(operation);
+    if (mode === 'record') record('getVideosOperation', request, op);
+    return op;
+  },
+  fetchVideo: async (uri) => {
+    const request = { uri };
+    const mode = getRecordMode();
+    if (mode === 'replay') {
+      const res = await fetch((await replay('fetchVideo', request)) as string);
+      return res.blob();
+    }
+    const blob = await provider.fetchVideo(uri);
+    if (mode === 'record') record('fetchVideo', request, await blobToDataUrl(blob));
+    return blob;
+  },
+  connectLive: async (params) => {
+    const request = sanitize(params);
+    const mode = getRecordMode();
+    if (mode === 'replay') {
+      return replayLive((await replay('connectLive', request)) as RecordedLiveMessage[], params.callbacks);
+    }
+    if (mode !== 'record') return provider.connectLive(params);
+
+    const start = Date.now();
+    const messages: RecordedLiveMessage[] = [];
+    let saved = false;
+    // Sessions can end from either side, or fail; whichever comes first records them once.
+    const save = () => {
+      if (!saved) record('connectLive', request, messages);
+      saved = true;
+    };
+    const session = await provider.connectLive({
+      ...params,
+      callbacks: {
+        ...params.callbacks,
+        onmessage: (message) => {
+          messages.push({ at: Date.now() - start, message: toPlain(message) });
+          params.callbacks.onmessage(message);
+        },
+        onerror: (e) => {
+          save();
+          params.callbacks.onerror?.(e);
+        },
+        onclose: (e) => {
+          save();
+          params.callbacks.onclose?.(e);
+        },
+      },
+    });
+    return {
+      sendClientContent: (p) => session.sendClientContent(p),
+      sendRealtimeInput: (p) => session.sendRealtimeInput(p),
+      sendToolResponse: (p) => session.sendToolResponse(p),
+      close: () => {
+        save();
+        session.close();
+      },
+    };
+  },
+});
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {
+  GenerateContentConfig,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateVideosOperation,
+  GenerateVideosParameters,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+
+export type ProviderId = 'gemini' | 'mock' | 'openai';
+
+/**
+ * A content request. `config.abortSignal` cancels it, the way later SDK
+ * versions accept it; providers stop waiting for, and reading, the response.
+ */
+export type GenerateParams = GenerateContentParameters & {
+  config?: GenerateContentConfig & { abortSignal?: AbortSignal };
+};
+
+/** The subset of a live session the app talks to. Mirrors the SDK `Session`. */
+export interface LiveSessionHandle {
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * A backend capable of serving the app's text, image, video and live calls.
+ * Requests and responses use the Gemini SDK shapes so features stay agnostic
+ * of which provider answers them.
+ */
+export interface ModelProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  generateContent(params: GenerateParams): Promise<GenerateContentResponse>;
+  generateContentStream(params: GenerateParams): Promise<AsyncGenerator<GenerateContentResponse>>;
+  generateVideos(params: GenerateVideosParameters): Promise<GenerateVideosOperation>;
+  getVideosOperation(operation: GenerateVideosOperation): Promise<GenerateVideosOperation>;
+  fetchVideo(uri: string): Promise<Blob>;
+  connectLive(params: LiveConnectParameters): Promise<LiveSessionHandle>;
+}
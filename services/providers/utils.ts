@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { FinishReason, GenerateContentResponse } from '@google/genai';
+import type { Content, ContentListUnion, Part } from '@google/genai';
+import { abortable } from '../jobs';
+
+/** Builds an SDK response object (with its `text` getter) from raw parts. */
+export const toResponse = (parts: Part[], usage?: { prompt: number; output: number }) =>
+  Object.assign(new GenerateContentResponse(), {
+    candidates: [{ index: 0, content: { role: 'model', parts }, finishReason: FinishReason.STOP }],
+    usageMetadata: usage
+      ? {
+          promptTokenCount: usage.prompt,
+          candidatesTokenCount: usage.output,
+          totalTokenCount: usage.prompt + usage.output,
+        }
+      : undefined,
+  });
+
+const isContent = (value: unknown): value is Content =>
+  typeof value === 'object' && value !== null && 'parts' in value;
+
+const toPart = (part: Part | string): Part => (typeof part === 'string' ? { text: part } : part);
+
+/** Normalizes every accepted `contents` shape into a list of role-tagged turns. */
+export const toTurns = (contents: ContentListUnion): Content[] => {
+  if (!Array.isArray(contents)) {
+    return isContent(contents) ? [contents] : [{ role: 'user', parts: [toPart(contents as Part | string)] }];
+  }
+  if (contents.every(isContent)) return contents as Content[];
+  return [
+    {
+      role: 'user',
+      parts: (contents as (Part | string | Content)[]).flatMap((c) =>
+        isContent(c) ? c.parts || [] : Array.isArray(c) ? c.map(toPart) : [toPart(c)],
+      ),
+    },
+  ];
+};
+
+export const turnsText = (turns: Content[]) =>
+  turns.flatMap((t) => t.parts || []).map((p) => p.text || '').join('\n');
+
+/** Rough token estimate used where a backend does not report usage. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** Small stable hash, used to seed deterministic output. */
+export const hashString = (value: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+/** Yields a stream's chunks until `signal` aborts, then stops reading it and rejects as cancelled. */
+export async function* abortableStream<T>(stream: AsyncGenerator<T>, signal?: AbortSignal): AsyncGenerator<T> {
+  if (!signal) return yield* stream;
+  try {
+    while (true) {
+      const { value, done } = await abortable(stream.next(), signal);
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    stream.return(undefined);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  CAPABILITIES,
+  DEFAULT_MODELS,
+  FEATURES,
+  MODELS,
+  ModelFeature,
+  ModelInfo,
+  hasCapability,
+  modelsFor,
+} from './models';
+
+export type PerformanceMode = 'lite' | 'pro';
+
+export interface GenerationSettings {
+  /** Model id per feature. */
+  models: Record<ModelFeature, string>;
+  /** User-added models, e.g. the names a local server exposes. */
+  customModels: ModelInfo[];
+  /** Pro and Lite pick between the `code` and `codeLite` models. */
+  performanceMode: PerformanceMode;
+  thinking: boolean;
+  thinkingBudget: number;
+  temperature: number;
+  topK: number;
+  topP: number;
+  /** Variants requested per Generator run. */
+  concurrentRequests: number;
+}
+
+export interface SettingsFile {
+  format: 'image-to-code-settings';
+  version: 1;
+  settings: GenerationSettings;
+}
+
+export const DEFAULT_SETTINGS: GenerationSettings = {
+  models: DEFAULT_MODELS,
+  customModels: [],
+  performanceMode: 'pro',
+  thinking: true,
+  thinkingBudget: 32768,
+  temperature: 1,
+  topK: 64,
+  topP: 0.95,
+  concurrentRequests: 3,
+};
+
+export const LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  topK: { min: 1, max: 100, step: 1 },
+  topP: { min: 0, max: 1, step: 0.01 },
+  thinkingBudget: { min: 1024, max: 32768, step: 1024 },
+  concurrentRequests: { min: 1, max: 6, step: 1 },
+};
+
+/** Budget for thinking models that don't state their own limit. */
+const FALLBACK_THINKING_BUDGET = 24576;
+
+const STORAGE_KEY = 'generationSettings';
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((l) => l());
+
+export const subscribeSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const isModelInfo = (value: any): value is ModelInfo =>
+  value &&
+  typeof value.id === 'string' &&
+  value.id.trim() !== '' &&
+  typeof value.label === 'string' &&
+  Array.isArray(value.capabilities) &&
+  value.capabilities.every((c: unknown) => CAPABILITIES.some((x) => x.id === c));
+
+/**
+ * Fills gaps from the defaults and drops anything that no longer fits, such as
+ * a removed custom model or a model picked for a feature it can't serve.
+ */
+const sanitize = (raw: any): GenerationSettings => {
+  const customModels: ModelInfo[] = (Array.isArray(raw?.customModels) ? raw.customModels : [])
+    .filter(isModelInfo)
+    .filter((m: ModelInfo) => !MODELS.some((x) => x.id === m.id))
+    .map((m: ModelInfo) => ({ ...m, custom: true }));
+  const catalog = [...MODELS, ...customModels];
+  const models = { ...DEFAULT_MODELS };
+  for (const { id } of FEATURES) {
+    const picked = raw?.models?.[id];
+    if (modelsFor(catalog, id).some((m) => m.id === picked)) models[id] = picked;
+  }
+  return {
+    models,
+    customModels,
+    performanceMode: raw?.performanceMode === 'lite' ? 'lite' : 'pro',
+    thinking: typeof raw?.thinking === 'boolean' ? raw.thinking : DEFAULT_SETTINGS.thinking,
+    thinkingBudget: clamp(raw?.thinkingBudget, LIMITS.thinkingBudget, DEFAULT_SETTINGS.thinkingBudget),
+    temperature: clamp(raw?.temperature, LIMITS.temperature, DEFAULT_SETTINGS.temperature),
+    topK: clamp(raw?.topK, LIMITS.topK, DEFAULT_SETTINGS.topK),
+    topP: clamp(raw?.topP, LIMITS.topP, DEFAULT_SETTINGS.topP),
+    concurrentRequests: Math.round(clamp(raw?.concurrentRequests, LIMITS.concurrentRequests, DEFAULT_SETTINGS.concurrentRequests)),
+  };
+};
+
+const load = (): GenerationSettings => {
+  try {
+    return sanitize(JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}'));
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings = load();
+
+const persist = (next: GenerationSettings) => {
+  settings = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  notify();
+  return settings;
+};
+
+export const getSettings = () => settings;
+
+export const updateSettings = (patch: Partial<GenerationSettings>) => persist(sanitize({ ...settings, ...patch }));
+
+export const setFeatureModel = (feature: ModelFeature, id: string) =>
+  updateSettings({ models: { ...settings.models, [feature]: id } });
+
+export const resetSettings = () => persist(DEFAULT_SETTINGS);
+
+/** Built-in models followed by the user's own. */
+export const getCatalog = (): ModelInfo[] => [...MODELS, ...settings.customModels];
+
+export const getModelInfo = (id: string) => getCatalog().find((m) => m.id === id);
+
+export const getFeatureModel = (feature: ModelFeature) => settings.models[feature];
+
+/** The Generator's model for the current Pro/Lite mode. */
+export const getCodeModel = () => settings.models[settings.performanceMode === 'pro' ? 'code' : 'codeLite'];
+
+export const addCustomModel = (model: ModelInfo) =>
+  updateSettings({ customModels: [...settings.customModels.filter((m) => m.id !== model.id), model] });
+
+/** Features that used the model fall back to their defaults. */
+export const removeCustomModel = (id: string) =>
+  updateSettings({ customModels: settings.customModels.filter((m) => m.id !== id) });
+
+export const maxThinkingBudget = (model: ModelInfo | undefined) =>
+  hasCapability(model, 'thinking') ? model!.maxThinkingBudget || FALLBACK_THINKING_BUDGET : 0;
+
+/**
+ * Sampling and thinking fields for a request to `modelId`, limited to what
+ * the model supports. Thinking follows the Thinking toggle unless `thinking`
+ * says otherwise.
+ */
+export const generationConfig = (modelId: string, thinking = settings.thinking) => {
+  const model = getModelInfo(modelId);
+  const config: any = {};
+  if (hasCapability(model, 'sampling')) {
+    config.temperature = settings.temperature;
+    config.topK = settings.topK;
+    config.topP = settings.topP;
+  }
+  if (thinking && hasCapability(model, 'thinking')) {
+    config.thinkingConfig = { thinkingBudget: Math.min(settings.thinkingBudget, maxThinkingBudget(model)) };
+  }
+  return config;
+};
+
+export const exportSettings = (): SettingsFile => ({ format: 'image-to-code-settings', version: 1, settings });
+
+export const importSettings = (file: unknown) => {
+  const data = file as Partial<SettingsFile>;
+  if (data?.format !== 'image-to-code-settings' || typeof data.settings !== 'object') {
+    throw new Error('Not a settings file.');
+  }
+  return persist(sanitize(data.settings));
+};
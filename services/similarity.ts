@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Both images are reduced to this many pixels a side before comparing. */
+const SIZE = 32;
+/** SSIM is averaged over square windows of this size. */
+const WINDOW = 8;
+/** Colour histogram bins per channel. */
+const BINS = 4;
+/** Share of the score from structure; the rest comes from colour. */
+const STRUCTURE_WEIGHT = 0.6;
+
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+const loadPixels = async (dataUrl: string) => {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+  const canvas = document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  // Transparent previews are judged against white, like the page they sit on.
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, SIZE, SIZE);
+  ctx.drawImage(image, 0, 0, SIZE, SIZE);
+  return ctx.getImageData(0, 0, SIZE, SIZE).data;
+};
+
+const luminance = (rgba: Uint8ClampedArray) => {
+  const out = new Float32Array(SIZE * SIZE);
+  for (let i = 0; i < out.length; i++) out[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  return out;
+};
+
+/** Mean structural similarity over non-overlapping windows, in [-1, 1]. */
+const ssim = (a: Float32Array, b: Float32Array) => {
+  let total = 0;
+  let windows = 0;
+  const n = WINDOW * WINDOW;
+  for (let wy = 0; wy < SIZE; wy += WINDOW) {
+    for (let wx = 0; wx < SIZE; wx += WINDOW) {
+      let sa = 0, sb = 0, saa = 0, sbb = 0, sab = 0;
+      for (let y = wy; y < wy + WINDOW; y++) {
+        for (let x = wx; x < wx + WINDOW; x++) {
+          const va = a[y * SIZE + x];
+          const vb = b[y * SIZE + x];
+          sa += va;
+          sb += vb;
+          saa += va * va;
+          sbb += vb * vb;
+          sab += va * vb;
+        }
+      }
+      const ma = sa / n;
+      const mb = sb / n;
+      const va = saa / n - ma * ma;
+      const vb = sbb / n - mb * mb;
+      const cov = sab / n - ma * mb;
+      total += ((2 * ma * mb + C1) * (2 * cov + C2)) / ((ma * ma + mb * mb + C1) * (va + vb + C2));
+      windows++;
+    }
+  }
+  return total / windows;
+};
+
+const histogram = (rgba: Uint8ClampedArray) => {
+  const bins = new Float32Array(BINS ** 3);
+  const shift = 8 - Math.log2(BINS);
+  for (let i = 0; i < rgba.length; i += 4) {
+    bins[((rgba[i] >> shift) * BINS + (rgba[i + 1] >> shift)) * BINS + (rgba[i + 2] >> shift)]++;
+  }
+  return bins.map((v) => v / (SIZE * SIZE));
+};
+
+/** Histogram intersection, in [0, 1]. */
+const colourOverlap = (a: Float32Array, b: Float32Array) => a.reduce((sum, v, i) => sum + Math.min(v, b[i]), 0);
+
+let sourceCache: { url: string; pixels: Promise<Uint8ClampedArray> } | null = null;
+
+/**
+ * How closely a rendered frame resembles the source image, from 0 to 1: a
+ * blend of structural similarity on a small greyscale thumbnail and colour
+ * histogram overlap. Cheap and rough, but good enough to rank variants.
+ */
+export const scoreFrame = async (sourceUrl: string, frameUrl: string) => {
+  if (sourceCache?.url !== sourceUrl) {
+    const pixels = loadPixels(sourceUrl).catch((e) => {
+      sourceCache = null;
+      throw e;
+    });
+    sourceCache = { url: sourceUrl, pixels };
+  }
+  const [source, frame] = await Promise.all([sourceCache.pixels, loadPixels(frameUrl)]);
+  const structure = (ssim(luminance(source), luminance(frame)) + 1) / 2;
+  const colour = colourOverlap(histogram(source), histogram(frame));
+  return STRUCTURE_WEIGHT * structure + (1 - STRUCTURE_WEIGHT) * colour;
+};
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { AppError, ErrorContext, checkResponse } from './errors';
+import { imagePart } from './images';
+import { RuntimeSelection, runtimeHint } from './libraries';
+import { getProvider } from './providers';
+import { OutputTarget, SketchFile, extractProject, formatProject, mergeFiles } from './targets';
+import { UsageFeature, checkBudget, estimateRunCost, recordUsage, usageFromResponse } from './usage';
+
+export interface SketchResult {
+  code: string;
+  files: SketchFile[];
+  fullResponse: string;
+}
+
+/** The runtime note for a follow-up prompt, so fixes and changes keep to the variant's version and add-ons. */
+const hintFor = (target: OutputTarget, selection?: RuntimeSelection) => {
+  const hint = selection ? runtimeHint(target, selection) : '';
+  return hint ? `\n\n${hint}` : '';
+};
+
+/** Refuses a call that would take spending over a budget set to block. */
+const checkCallBudget = (feature: UsageFeature, model: string, context: ErrorContext) => {
+  const budget = checkBudget(estimateRunCost(feature, model));
+  if (budget.blocked) throw new AppError('budget', budget.message!, { context });
+};
+
+const toResult = (target: OutputTarget, text: string, files: SketchFile[] = []): SketchResult => {
+  const project = extractProject(target, text);
+  return { code: project.code, files: mergeFiles(files, project.files), fullResponse: text };
+};
+
+interface RepairRequest {
+  target: OutputTarget;
+  model: string;
+  code: string;
+  files?: SketchFile[];
+  selection?: RuntimeSelection;
+  error: string;
+  imageBase64?: string;
+  signal?: AbortSignal;
+}
+
+/** Asks the model to fix a sketch that failed at runtime, given the error and the source image. */
+export const repairSketch = async ({ target, model, code, files, selection, error, imageBase64, signal }: RepairRequest): Promise<SketchResult> => {
+  checkCallBudget('repair', model, { feature: 'repair', model, prompt: error });
+  const res = await getProvider().generateContent({
+    model,
+    contents: {
+      parts: [
+        {
+          text: `The following ${target.label} code was generated from the attached image, but it fails at runtime.
+
+ERROR:
+${error}
+
+CODE:
+${formatProject(target, code, files)}${hintFor(target, selection)}
+
+Fix the error while keeping the result faithful to the image. Reply with the complete corrected ${target.entryFile} in a \`\`\`${target.fence} block, plus any other file you changed in its own block starting with a comment naming the file, followed by one sentence describing the fix.`,
+        },
+        ...(imageBase64 ? [imagePart(imageBase64)] : []),
+      ],
+    },
+    config: { abortSignal: signal },
+  });
+  recordUsage('repair', model, usageFromResponse(res));
+  checkResponse(res, { feature: 'repair', model, prompt: error });
+  return toResult(target, res.text || '', files);
+};
+
+interface RefineRequest {
+  target: OutputTarget;
+  model: string;
+  code: string;
+  files?: SketchFile[];
+  selection?: RuntimeSelection;
+  instruction: string;
+  imageBase64?: string;
+  signal?: AbortSignal;
+}
+
+/** Applies a natural-language change request to an existing sketch. */
+export const refineSketch = async ({ target, model, code, files, selection, instruction, imageBase64, signal }: RefineRequest): Promise<SketchResult> => {
+  checkCallBudget('refine', model, { feature: 'refine', model, prompt: instruction });
+  const res = await getProvider().generateContent({
+    model,
+    contents: {
+      parts: [
+        {
+          text: `Here is some ${target.label} code${imageBase64 ? ' based on the attached image' : ''}:
+
+${formatProject(target, code, files)}${hintFor(target, selection)}
+
+Change it as follows: ${instruction}
+
+Keep everything else as it is. Reply with the complete updated ${target.entryFile} in a \`\`\`${target.fence} block, plus any other file you changed or added in its own block starting with a comment naming the file, followed by one sentence summarising the change.`,
+        },
+        ...(imageBase64 ? [imagePart(imageBase64)] : []),
+      ],
+    },
+    config: { abortSignal: signal },
+  });
+  recordUsage('refine', model, usageFromResponse(res));
+  checkResponse(res, { feature: 'refine', model, prompt: instruction });
+  return toResult(target, res.text || '', files);
+};
+
+/** Lines of one file, as numbered in the editor. */
+export interface CodeRange {
+  file: string;
+  startLine: number;
+  endLine: number;
+}
+
+interface ExplainRequest {
+  target: OutputTarget;
+  model: string;
+  /** The code to explain: a whole file, or the excerpt `range` covers. */
+  code: string;
+  range: CodeRange;
+  /** Whether `code` is only part of its file. */
+  excerpt?: boolean;
+}
+
+const numberLines = (code: string, firstLine: number) => {
+  const lines = code.split('\n');
+  const width = String(firstLine + lines.length - 1).length;
+  return lines.map((line, i) => `${String(firstLine + i).padStart(width)}| ${line}`).join('\n');
+};
+
+/** Asks the model to teach what a sketch, or a selected part of it, does, citing the lines it describes. */
+export const explainSketch = async ({ target, model, code, range, excerpt }: ExplainRequest) => {
+  checkCallBudget('explain', model, { feature: 'explain', model });
+  const scope = excerpt
+    ? `the following excerpt (lines ${range.startLine}–${range.endLine} of ${range.file}) of a ${target.label} sketch. Explain what it does and how it fits into a sketch`
+    : `the following ${target.label} code. Break down the key concepts, algorithms, and how the interactivity works`;
+  const res = await getProvider().generateContent({
+    model,
+    contents: {
+      parts: [
+        {
+          text: `You are a friendly coding teacher. Explain ${scope}, in a simple and educational way.
+
+Each line below starts with its line number. Whenever you talk about a particular part of the code, cite the lines in parentheses, like (line 4) or (lines 12–18), using those numbers.
+
+CODE (${range.file}):
+${numberLines(code, range.startLine)}`,
+        },
+      ],
+    },
+  });
+  recordUsage('explain', model, usageFromResponse(res));
+  checkResponse(res, { feature: 'explain', model });
+  return res.text || 'Could not generate explanation.';
+};
+
+/**
+ * Turns the line citations explainSketch asks for into `#L12-18` links,
+ * leaving code spans and blocks alone.
+ */
+export const linkLineReferences = (markdown: string) =>
+  markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, i) =>
+      i % 2
+        ? part
+        : part.replace(/\b(lines?)\s+(\d+)(?:\s*(?:–|—|-|to)\s*(\d+))?/gi, (match, _word, start, end) =>
+            `[${match}](#L${start}${end ? `-${end}` : ''})`,
+          ),
+    )
+    .join('');
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { OutputTarget } from './types';
+import { BASE_PREVIEW_STYLE, EXPORT_STYLE, extractFence, inlineFileTags, linkedFileTags, sourceBlock, statusScript } from './harness';
+
+const MDN = 'https://developer.mozilla.org/en-US/docs/Web/API';
+
+export const canvasTarget: OutputTarget = {
+  id: 'canvas',
+  label: 'Canvas 2D',
+  language: 'javascript',
+  fence: 'javascript',
+  entryFile: 'sketch.js',
+  languages: ['javascript'],
+  entryPattern: /getElementById\(\s*['"]canvas['"]\s*\)/,
+  systemPrompt: `You are a world-class creative coder working with the plain HTML Canvas 2D API, no libraries. Turn images into interactive, aesthetically pleasing animations. The page already contains <canvas id="canvas" width="500" height="500">; get it with document.getElementById('canvas'), draw with its 2D context and animate with requestAnimationFrame. Keep the code clean and documented.`,
+  extractCode: (text) => extractFence(text, ['javascript', 'js']) ?? text,
+  docsMap: {
+    getContext: `${MDN}/HTMLCanvasElement/getContext`,
+    requestAnimationFrame: `${MDN}/Window/requestAnimationFrame`,
+    fillRect: `${MDN}/CanvasRenderingContext2D/fillRect`,
+    clearRect: `${MDN}/CanvasRenderingContext2D/clearRect`,
+    beginPath: `${MDN}/CanvasRenderingContext2D/beginPath`,
+    arc: `${MDN}/CanvasRenderingContext2D/arc`,
+    moveTo: `${MDN}/CanvasRenderingContext2D/moveTo`,
+    lineTo: `${MDN}/CanvasRenderingContext2D/lineTo`,
+    bezierCurveTo: `${MDN}/CanvasRenderingContext2D/bezierCurveTo`,
+    fill: `${MDN}/CanvasRenderingContext2D/fill`,
+    stroke: `${MDN}/CanvasRenderingContext2D/stroke`,
+    fillStyle: `${MDN}/CanvasRenderingContext2D/fillStyle`,
+    strokeStyle: `${MDN}/CanvasRenderingContext2D/strokeStyle`,
+    globalAlpha: `${MDN}/CanvasRenderingContext2D/globalAlpha`,
+    globalCompositeOperation: `${MDN}/CanvasRenderingContext2D/globalCompositeOperation`,
+    createLinearGradient: `${MDN}/CanvasRenderingContext2D/createLinearGradient`,
+    createRadialGradient: `${MDN}/CanvasRenderingContext2D/createRadialGradient`,
+    translate: `${MDN}/CanvasRenderingContext2D/translate`,
+    rotate: `${MDN}/CanvasRenderingContext2D/rotate`,
+    save: `${MDN}/CanvasRenderingContext2D/save`,
+    restore: `${MDN}/CanvasRenderingContext2D/restore`,
+  },
+  buildPreview: (code, { channel, files }) => `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        ${statusScript(channel)}
+        <title>Canvas Sketch</title>
+        <style>${BASE_PREVIEW_STYLE}
+        </style>
+        ${inlineFileTags(files)}
+      </head>
+      <body>
+        <canvas id="canvas" width="500" height="500"></canvas>
+        <script>
+          try {
+            ${sourceBlock('sketch.js', code)}
+            setTimeout(() => postStatus('success'), 100);
+          } catch (error) {
+            reportError(error);
+          }
+        </script>
+      </body>
+      </html>
+    `,
+  exportFiles: (code, { files }) => ({
+    'sketch.js': code,
+    'style.css': EXPORT_STYLE,
+    'index.html': `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Canvas Sketch</title>
+  <link rel="stylesheet" type="text/css" href="style.css">
+  ${linkedFileTags(files)}
+</head>
+<body>
+  <canvas id="canvas" width="500" height="500"></canvas>
+  <script src="sketch.js"></script>
+</body>
+</html>`,
+  }),
+};
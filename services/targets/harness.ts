@@ -0,0 +1,459 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SketchFile, TargetLibrary } from './types';
+import { assetFiles, cssFiles, inlineJson, inlineScript, scriptFiles } from './project';
+
+/**
+ * Returns the first fenced block tagged with one of `languages`, falling back
+ * to the first untagged block. Returns null when there is neither.
+ */
+export const extractFence = (text: string, languages: string[]) => {
+  const tagged = new RegExp('```(?:' + languages.join('|') + ')\\b[^\\n]*\\n([\\s\\S]*?)```', 'i').exec(text);
+  if (tagged) return tagged[1].trim();
+  const bare = /```[ \t]*\n([\s\S]*?)```/.exec(text);
+  return bare ? bare[1].trim() : null;
+};
+
+/** Synchronous time a single loop may run before the preview halts it. */
+export const LOOP_BUDGET_MS = 2000;
+
+/**
+ * Preview runtime shared by every target. It waits for the parent to hand over
+ * a MessagePort (checked against `channel`) and sends status, console output
+ * and a heartbeat through it; nothing is posted to the parent window itself.
+ * The parent sends tweak values, frame capture and recording requests back over the same port.
+ * It also defines the loop guard that `guardLoops` calls into, and reports
+ * uncaught errors with their srcdoc line so the parent can map them back to
+ * source files. Must be the first script in the document.
+ */
+export const statusScript = (channel: string) => `<script>
+  (() => {
+    const CHANNEL = ${inlineJson(channel)};
+    let port = null;
+    const pending = [];
+    const send = (message) => (port ? port.postMessage(message) : pending.push(message));
+    const setters = {};
+
+    window.addEventListener('message', (event) => {
+      if (port || event.source !== window.parent || event.data?.type !== 'SKETCH_CONNECT' || event.data.channel !== CHANNEL) return;
+      port = event.ports[0];
+      port.onmessage = ({ data }) => {
+        if (data?.type === 'tweak') setters[data.name]?.(data.value);
+        if (data?.type === 'capture') {
+          captureFrame().then(
+            (dataUrl) => send({ type: 'frame', dataUrl }),
+            (error) => send({ type: 'frame', error: (error && error.message) || String(error) }),
+          );
+        }
+        if (data?.type === 'record') {
+          recordCanvas(data).then(
+            // GIF frames are raw pixels, so their buffers are moved rather than copied.
+            (result) => port.postMessage({ type: 'recording', ...result }, result.frames || []),
+            (error) => send({ type: 'recording', error: (error && error.message) || String(error) }),
+          );
+        }
+      };
+      pending.splice(0).forEach((message) => port.postMessage(message));
+    });
+
+    // Captured inside a frame callback, after the sketch has drawn, so a WebGL
+    // canvas still holds its image without preserveDrawingBuffer.
+    const captureFrame = () =>
+      new Promise((resolve, reject) => {
+        requestAnimationFrame(async () => {
+          try {
+            const canvas = document.querySelector('canvas');
+            if (canvas) return resolve(canvas.toDataURL('image/png'));
+            const svg = document.querySelector('svg');
+            if (!svg) throw new Error('Nothing to capture: the preview has no canvas or SVG.');
+            const { width, height } = svg.getBoundingClientRect();
+            const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(svg)], { type: 'image/svg+xml' }));
+            try {
+              const image = new Image();
+              image.src = url;
+              await image.decode();
+              const still = document.createElement('canvas');
+              still.width = width || image.width;
+              still.height = height || image.height;
+              still.getContext('2d').drawImage(image, 0, 0, still.width, still.height);
+              resolve(still.toDataURL('image/png'));
+            } finally {
+              URL.revokeObjectURL(url);
+            }
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+
+    /**
+     * Copies the canvas into one of the requested width every 1/fps seconds for
+     * the requested number of seconds. WebM is recorded from that copy; GIF
+     * frames are returned as pixel buffers for the app to encode.
+     */
+    const recordCanvas = ({ format, seconds, fps, width, maxFramePixels }) =>
+      new Promise((resolve, reject) => {
+        const source = document.querySelector('canvas');
+        if (!source) return reject(new Error('Recording needs a canvas, and this preview has none.'));
+        let scale = width ? width / source.width : 1;
+        // GIF frames are kept as raw pixels, so a tall canvas is scaled down until they fit.
+        if (maxFramePixels) scale = Math.min(scale, Math.sqrt(maxFramePixels / (source.width * source.height)));
+        const out = document.createElement('canvas');
+        out.width = Math.round(source.width * scale);
+        out.height = Math.round(source.height * scale);
+        const context = out.getContext('2d', { willReadFrequently: format === 'gif' });
+        const frames = [];
+        let recorder = null;
+        if (format === 'webm') {
+          const mimeType = ['video/webm;codecs=vp9', 'video/webm'].find((type) => MediaRecorder.isTypeSupported(type));
+          if (!mimeType) return reject(new Error('This browser cannot record WebM video.'));
+          const chunks = [];
+          recorder = new MediaRecorder(out.captureStream(fps), { mimeType });
+          recorder.ondataavailable = (event) => event.data.size && chunks.push(event.data);
+          recorder.onstop = () => resolve({ blob: new Blob(chunks, { type: 'video/webm' }) });
+        }
+        // Frames are copied inside a frame callback, after the sketch has drawn; see captureFrame.
+        const start = performance.now();
+        let due = start;
+        const tick = (now) => {
+          if (now >= due) {
+            context.fillStyle = '#fff';
+            context.fillRect(0, 0, out.width, out.height);
+            context.drawImage(source, 0, 0, out.width, out.height);
+            if (format === 'gif') frames.push(context.getImageData(0, 0, out.width, out.height).data.buffer);
+            due = Math.max(due + 1000 / fps, now);
+          }
+          if (now - start < seconds * 1000) requestAnimationFrame(tick);
+          else if (recorder) recorder.stop();
+          else resolve({ frames, width: out.width, height: out.height });
+        };
+        recorder?.start();
+        requestAnimationFrame(tick);
+      });
+
+    /** Called by tweak-instrumented declarations; see services/tweaks.ts. */
+    window.__tweak = (name, set) => {
+      setters[name] = set;
+    };
+
+    const locate = (error) => {
+      const match = /about:srcdoc:(\\d+):(\\d+)/.exec((error && error.stack) || '');
+      return match ? { line: Number(match[1]), column: Number(match[2]) } : {};
+    };
+
+    const format = (value) => {
+      if (typeof value === 'string') return value;
+      if (value instanceof Error) return value.stack || value.message;
+      try {
+        return JSON.stringify(value) ?? String(value);
+      } catch {
+        return String(value);
+      }
+    };
+
+    let logs = [];
+    ['log', 'info', 'warn', 'error', 'debug'].forEach((level) => {
+      const original = console[level].bind(console);
+      console[level] = (...args) => {
+        original(...args);
+        const error = args.find((a) => a instanceof Error);
+        logs.push({ level, text: args.map(format).join(' ').slice(0, 2000), ...locate(error) });
+      };
+    });
+    // Console output is batched so a draw() loop that logs every frame stays cheap.
+    setInterval(() => {
+      if (logs.length) send({ type: 'console', entries: logs.splice(0) });
+      send({ type: 'heartbeat' });
+    }, 250);
+
+    window.postStatus = (status, message = '', location = {}) => send({ type: 'status', status, message, ...location });
+
+    window.showError = (message) => {
+      document.body.innerHTML = '<div style="color: red; padding: 20px;"><h3>🔴 Error:</h3><pre></pre></div>';
+      document.body.querySelector('pre').textContent = message;
+    };
+
+    window.reportError = (error, location = locate(error)) => {
+      const message = (error && error.message) || String(error);
+      logs.push({ level: 'error', text: message, ...location });
+      postStatus('error', message, location);
+      showError(message);
+    };
+
+    window.onerror = (message, source, lineno, colno, error) => {
+      reportError(error || new Error(String(message)), lineno ? { line: lineno, column: colno } : undefined);
+      return true;
+    };
+    window.addEventListener('unhandledrejection', (event) => reportError(event.reason));
+
+    let loopStart = 0;
+    let halted = false;
+    window.__sketchGuard = () => {
+      if (!halted) {
+        const now = performance.now();
+        if (!loopStart) {
+          loopStart = now;
+          queueMicrotask(() => (loopStart = 0));
+          return;
+        }
+        if (now - loopStart < ${LOOP_BUDGET_MS}) return;
+        halted = true;
+        if (typeof window.noLoop === 'function') window.noLoop();
+        window.requestAnimationFrame = () => 0;
+      }
+      throw new Error('Possible infinite loop: a loop ran for over ${LOOP_BUDGET_MS / 1000}s and the sketch was halted.');
+    };
+
+    postStatus('loading');
+  })();
+</script>`;
+
+const IDENTIFIER = /[\w$]/;
+// After these a `/` starts a regex literal rather than a division.
+const REGEX_AFTER = new Set([...'(,=:[!&|?{};+-*%<>~^', 'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await']);
+
+/** End of the comment or string, template or regex literal starting at `i`, or `i` when none starts there. */
+const skipLiteral = (code: string, i: number, regexAllowed: boolean): number => {
+  const [c, next] = [code[i], code[i + 1]];
+  if (c === '/' && next === '/') return code.includes('\n', i) ? code.indexOf('\n', i) : code.length;
+  if (c === '/' && next === '*') return code.includes('*/', i + 2) ? code.indexOf('*/', i + 2) + 2 : code.length;
+  if (c === '"' || c === "'") {
+    let j = i + 1;
+    while (j < code.length && code[j] !== c && code[j] !== '\n') j += code[j] === '\\' ? 2 : 1;
+    return Math.min(j + 1, code.length);
+  }
+  if (c === '`') {
+    // Substitutions are skipped whole, tracking their braces and any literals nested in them.
+    let depth = 0;
+    for (let j = i + 1; j < code.length; j++) {
+      if (code[j] === '\\') {
+        j++;
+      } else if (depth === 0) {
+        if (code[j] === '`') return j + 1;
+        if (code.startsWith('${', j)) {
+          depth = 1;
+          j++;
+        }
+      } else if (skipLiteral(code, j, false) > j) {
+        j = skipLiteral(code, j, false) - 1;
+      } else if (code[j] === '{' || code[j] === '}') {
+        depth += code[j] === '{' ? 1 : -1;
+      }
+    }
+    return code.length;
+  }
+  if (c === '/' && regexAllowed) {
+    let [j, inClass] = [i + 1, false];
+    for (; j < code.length && code[j] !== '\n'; j++) {
+      if (code[j] === '\\') j++;
+      else if (code[j] === '[') inClass = true;
+      else if (code[j] === ']') inClass = false;
+      else if (code[j] === '/' && !inClass) return j + 1;
+    }
+    return j;
+  }
+  return i;
+};
+
+type Token = { value: string; start: number; end: number; literal: boolean };
+
+/** The identifiers, punctuation and literals of `code` from `start` on, one character per punctuation token, comments dropped. */
+function* tokens(code: string, start = 0): Generator<Token> {
+  let previous = '';
+  for (let i = start; i < code.length; ) {
+    if (/\s/.test(code[i])) {
+      i++;
+      continue;
+    }
+    const end = skipLiteral(code, i, !previous || REGEX_AFTER.has(previous));
+    const comment = code[i] === '/' && (code[i + 1] === '/' || code[i + 1] === '*');
+    let token: Token;
+    if (end > i && comment) {
+      i = end;
+      continue;
+    } else if (end > i) {
+      token = { value: code.slice(i, end), start: i, end, literal: true };
+    } else if (IDENTIFIER.test(code[i])) {
+      let j = i;
+      while (j < code.length && IDENTIFIER.test(code[j])) j++;
+      token = { value: code.slice(i, j), start: i, end: j, literal: false };
+    } else {
+      token = { value: code[i], start: i, end: i + 1, literal: false };
+    }
+    previous = token.literal ? 'literal' : token.value;
+    i = token.end;
+    yield token;
+  }
+}
+
+/** Where and what to insert for the loop whose keyword ends at `from`, or null if it isn't a loop head. */
+const loopGuard = (code: string, from: number, keyword: string) => {
+  const head = tokens(code, from);
+  let token = head.next().value;
+  if (keyword === 'for' && token?.value === 'await') token = head.next().value;
+  if (token?.value !== '(') return null;
+  // The condition runs on every pass, whatever the body looks like; this also covers do...while.
+  if (keyword === 'while') return { at: token.end, text: '__sketchGuard(), ' };
+  const semicolons: number[] = [];
+  let depth = 0;
+  let last = token;
+  let next = head.next();
+  for (; !next.done; last = next.value, next = head.next()) {
+    const { value, end, literal } = next.value;
+    if (literal) continue;
+    if ('([{'.includes(value)) depth++;
+    else if (value === ';' && depth === 0) semicolons.push(end);
+    else if (')]}'.includes(value) && depth-- === 0) break;
+  }
+  if (next.done) return null;
+  // A classic for runs its update on every pass, empty or not.
+  if (semicolons.length === 2) {
+    return { at: semicolons[1], text: last.end === semicolons[1] ? ' __sketchGuard()' : ' __sketchGuard(),' };
+  }
+  // for...in and for...of have no update, so only a braced body can be guarded.
+  const body = head.next().value;
+  return body?.value === '{' ? { at: body.end, text: ' __sketchGuard();' } : null;
+};
+
+/**
+ * Inserts a call to the runtime's loop guard into every while condition,
+ * classic for update and braced for...in/of body, so single-statement loops
+ * are guarded too. Strings, templates, regexes and comments are left alone.
+ * Unbraced for...in/of bodies aren't guarded. Insertions stay on the same
+ * line, so line numbers in error reports still match the source.
+ */
+export const guardLoops = (code: string) => {
+  const guards: { at: number; text: string }[] = [];
+  let previous = '';
+  for (const token of tokens(code)) {
+    if (!token.literal && (token.value === 'for' || token.value === 'while') && previous !== '.') {
+      const guard = loopGuard(code, token.end, token.value);
+      if (guard) guards.push(guard);
+    }
+    previous = token.value;
+  }
+  return guards
+    .sort((a, b) => b.at - a.at)
+    .reduce((guarded, { at, text }) => guarded.slice(0, at) + text + guarded.slice(at), code);
+};
+
+const FILE_MARKER = /(?:\/\*|<!--)@file ([^:*\s]+)(?::(\d+))?(?:\*\/|-->)|(?:\/\*|<!--)@end(?:\*\/|-->)/;
+
+/**
+ * Comment that tells `locateInPreview` which source file the following lines
+ * came from. The marker's own line counts as `line` of that file.
+ */
+export const fileMarker = (name: string, { html = false, line = 0 } = {}) => {
+  const body = `@file ${name}${line ? `:${line}` : ''}`;
+  return html ? `<!--${body}-->` : `/*${body}*/`;
+};
+
+export const endMarker = (html = false) => (html ? '<!--@end-->' : '/*@end*/');
+
+/** Wraps JS source in file markers, with its loops guarded. */
+export const sourceBlock = (name: string, code: string) => `
+${fileMarker(name)}
+${guardLoops(code)}
+${endMarker()}
+`;
+
+/** Maps a line in a built preview document back to a source file and line. */
+export const locateInPreview = (html: string, line: number) => {
+  const lines = html.split('\n');
+  let current: { file: string; start: number; offset: number } | null = null;
+  for (let i = 0; i < Math.min(line, lines.length); i++) {
+    const match = FILE_MARKER.exec(lines[i]);
+    if (!match) continue;
+    current = match[1] ? { file: match[1], start: i + 1, offset: Number(match[2] || 0) } : null;
+  }
+  if (!current) return null;
+  const mapped = line - current.start + current.offset;
+  return mapped > 0 ? { file: current.file, line: mapped } : null;
+};
+
+export const BASE_PREVIEW_STYLE = `
+  body {
+    padding: 0;
+    margin: 0;
+    display: flex;
+    justify-content: center;
+    align-items: center;
+    min-height: 100vh;
+    overflow: hidden;
+  }
+  canvas, svg {
+    max-width: 100% !important;
+    height: auto !important;
+  }`;
+
+export const EXPORT_STYLE = `
+body {
+  padding: 0;
+  margin: 0;
+  background: #f8fafc;
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  min-height: 100vh;
+  overflow: hidden;
+  font-family: system-ui, -apple-system, sans-serif;
+}
+canvas {
+  display: block;
+  box-shadow: 0 25px 50px -12px rgba(0, 0, 0, 0.25);
+  border-radius: 12px;
+}
+    `;
+
+export const scriptTags = (urls: string[], indent = '\n  ') =>
+  urls.map((url) => `<script src="${url}"></script>`).join(indent);
+
+/** Preview tags for a runtime and its add-ons; uploaded scripts are inlined since they have no URL. */
+export const libraryTags = (libraries: TargetLibrary[], indent = '\n        ') =>
+  libraries
+    .map((l) => (l.content ? `<script data-library="${l.id}">${inlineScript(l.content)}</script>` : `<script src="${l.url}"></script>`))
+    .join(indent);
+
+/** Inline <style> and <script> tags for a project's extra CSS and JS files, for previews. */
+export const inlineFileTags = (files: SketchFile[], indent = '\n        ') =>
+  [
+    ...cssFiles(files).map((f) => `<style data-file="${f.name}">\n${f.content}\n</style>`),
+    ...scriptFiles(files).map((f) => `<script data-file="${f.name}">${inlineScript(sourceBlock(f.name, f.content))}</script>`),
+  ].join(indent);
+
+/** <link> and <script src> tags that reference a project's extra CSS and JS files, for exports. */
+export const linkedFileTags = (files: SketchFile[], indent = '\n  ') =>
+  [
+    ...cssFiles(files)
+      .filter((f) => f.name !== 'style.css')
+      .map((f) => `<link rel="stylesheet" type="text/css" href="${f.name}">`),
+    ...scriptFiles(files).map((f) => `<script src="${f.name}"></script>`),
+  ].join(indent);
+
+/**
+ * Serves non-script files (shaders, JSON, text) to p5's loaders by name, so
+ * `loadShader('shader.vert', 'shader.frag')` works inside the srcdoc preview.
+ */
+export const p5AssetScript = (files: SketchFile[]) => {
+  const assets = assetFiles(files);
+  if (assets.length === 0) return '';
+  return `<script>
+  (() => {
+    const files = ${inlineJson(Object.fromEntries(assets.map((f) => [f.name, f.content])))};
+    const urls = {};
+    const resolve = (path) => {
+      if (typeof path !== 'string' || !(path in files)) return path;
+      return urls[path] || (urls[path] = URL.createObjectURL(new Blob([files[path]], { type: 'text/plain' })));
+    };
+    ['loadShader', 'loadStrings', 'loadJSON', 'loadXML', 'loadBytes'].forEach((name) => {
+      const original = p5.prototype[name];
+      if (!original) return;
+      p5.prototype[name] = function (...args) {
+        return original.apply(this, name === 'loadShader' ? [resolve(args[0]), resolve(args[1]), ...args.slice(2)] : [resolve(args[0]), ...args.slice(1)]);
+      };
+    });
+  })();
+</script>`;
+};
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { OutputTarget } from './types';
+import { extractFence, fileMarker, inlineFileTags, linkedFileTags, statusScript } from './harness';
+
+const TAILWIND_URL = 'https://cdn.tailwindcss.com';
+const TAILWIND_DOCS = 'https://tailwindcss.com/docs';
+
+/**
+ * Accepts either a full document or a body fragment and returns a full
+ * document. With `mark`, a file marker lets preview errors map back to lines
+ * of the original code.
+ */
+const toDocument = (code: string, head: string, mark = false) => {
+  if (/<html[\s>]/i.test(code)) {
+    const insert = (pattern: RegExp, wrap: (head: string) => string) =>
+      code.replace(pattern, (m, offset: number) => {
+        const line = code.slice(0, offset + m.length).split('\n').length;
+        return `${m}\n${wrap(head)}${mark ? fileMarker('index.html', { html: true, line }) : ''}`;
+      });
+    return /<head[^>]*>/i.test(code) ? insert(/<head[^>]*>/i, (h) => `${h}\n`) : insert(/<html[^>]*>/i, (h) => `<head>${h}</head>`);
+  }
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  ${head}
+</head>
+<body>${mark ? `\n${fileMarker('index.html', { html: true })}` : ''}
+${code}
+</body>
+</html>`;
+};
+
+export const htmlTarget: OutputTarget = {
+  id: 'html',
+  label: 'HTML / Tailwind',
+  language: 'html',
+  fence: 'html',
+  entryFile: 'index.html',
+  languages: ['html'],
+  systemPrompt: `You are a world-class front-end engineer. Turn UI mockups and images into faithful, responsive, accessible HTML styled with Tailwind CSS utility classes. Reply with one complete HTML document; Tailwind is loaded from its CDN script, so do not add a build step. Use semantic elements and keep any JavaScript minimal.`,
+  extractCode: (text) => extractFence(text, ['html']) ?? text,
+  docsMap: {
+    flex: `${TAILWIND_DOCS}/flex`,
+    grid: `${TAILWIND_DOCS}/grid-template-columns`,
+    gap: `${TAILWIND_DOCS}/gap`,
+    padding: `${TAILWIND_DOCS}/padding`,
+    margin: `${TAILWIND_DOCS}/margin`,
+    rounded: `${TAILWIND_DOCS}/border-radius`,
+    shadow: `${TAILWIND_DOCS}/box-shadow`,
+    text: `${TAILWIND_DOCS}/font-size`,
+    font: `${TAILWIND_DOCS}/font-weight`,
+    bg: `${TAILWIND_DOCS}/background-color`,
+    border: `${TAILWIND_DOCS}/border-width`,
+    hover: `${TAILWIND_DOCS}/hover-focus-and-other-states`,
+    md: `${TAILWIND_DOCS}/responsive-design`,
+  },
+  buildPreview: (code, { channel, files }) =>
+    toDocument(code, `${statusScript(channel)}
+<script src="${TAILWIND_URL}"></script>
+${inlineFileTags(files, '\n')}
+<script>window.addEventListener('load', () => postStatus('success'));</script>`, true),
+  exportFiles: (code, { files }) => ({
+    'index.html': toDocument(code, [code.includes(TAILWIND_URL) ? '' : `<script src="${TAILWIND_URL}"></script>`, linkedFileTags(files, '\n')].filter(Boolean).join('\n')),
+  }),
+};
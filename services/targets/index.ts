@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { canvasTarget } from './canvas';
+import { htmlTarget } from './html';
+import { p5Target } from './p5';
+import { svgTarget } from './svg';
+import { threeTarget } from './three';
+import type { OutputTarget, TargetId } from './types';
+
+export type { ExportOptions, OutputTarget, PreviewOptions, SketchFile, TargetId, TargetLibrary, TargetTypes } from './types';
+export { locateInPreview, p5AssetScript } from './harness';
+export { MULTI_FILE_HINT, extractProject, formatProject, inlineScript, languageForFile, mergeFiles } from './project';
+export type { SketchProject } from './project';
+
+export const TARGETS: OutputTarget[] = [p5Target, threeTarget, canvasTarget, svgTarget, htmlTarget];
+
+export const DEFAULT_TARGET: TargetId = 'p5';
+
+/** Looks up a target, falling back to p5.js for outputs saved before targets existed. */
+export const getTarget = (id?: TargetId): OutputTarget =>
+  TARGETS.find((t) => t.id === id) || TARGETS.find((t) => t.id === DEFAULT_TARGET)!;
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import p5LegacyUrl from 'p5-1.4/lib/p5.min.js?url';
+import p5LegacySoundUrl from 'p5-1.4/lib/addons/p5.sound.min.js?url';
+import p5Url from 'p5/lib/p5.min.js?url';
+import p5SoundUrl from 'p5/lib/addons/p5.sound.min.js?url';
+// p5 2.x lists only its ES modules in "exports"; vite.config.ts aliases its lib/ and types/ folders.
+import p5v2Url from 'p5-2/lib/p5.min.js?url';
+import p5v2SoundUrl from 'p5.sound/dist/p5.sound.min.js?url';
+import type { OutputTarget, TargetLibrary } from './types';
+import {
+  BASE_PREVIEW_STYLE,
+  EXPORT_STYLE,
+  extractFence,
+  inlineFileTags,
+  libraryTags,
+  linkedFileTags,
+  p5AssetScript,
+  scriptTags,
+  sourceBlock,
+  statusScript,
+} from './harness';
+
+/** Served from the app's own bundle; the CDN copies are only linked from exports. */
+const P5_RUNTIMES: TargetLibrary[] = [
+  {
+    id: '1.4',
+    name: 'p5.js 1.4.0',
+    url: p5LegacyUrl,
+    cdnUrl: 'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/p5.min.js',
+    description: 'p5.js 1.4.0.',
+  },
+  {
+    id: '1.x',
+    name: 'p5.js 1.x',
+    url: p5Url,
+    cdnUrl: 'https://cdn.jsdelivr.net/npm/p5@1/lib/p5.min.js',
+    description: 'p5.js 1.11, the latest 1.x release.',
+  },
+  {
+    id: '2.x',
+    name: 'p5.js 2.x',
+    url: p5v2Url,
+    cdnUrl: 'https://cdn.jsdelivr.net/npm/p5@2/lib/p5.min.js',
+    description:
+      'p5.js 2.x. preload() no longer exists: declare setup() as async and await loadImage(), loadFont(), loadJSON() and the other loaders inside it.',
+  },
+];
+
+// Declarations run to megabytes, so each runtime's set is its own chunk, fetched when an editor asks.
+// @types/p5 describes 1.x, close enough for 1.4; 2.x ships its own.
+const P5_TYPE_FILES: Record<string, Record<string, () => Promise<string>>> = {
+  '1.x': import.meta.glob<string>('@types/p5/**/*.d.ts', { query: '?raw', import: 'default' }),
+  '2.x': import.meta.glob<string>('p5-2/types/*.d.ts', { query: '?raw', import: 'default' }),
+};
+
+/** Global-mode names: `function`/`const`/`let` in @types/p5, members of `interface Window` in the 2.x types. */
+const p5Globals = (declarations: string, major: string) => {
+  const globals: Record<string, 'function' | 'value'> = {};
+  if (major === '2.x') {
+    const members = declarations.slice(0, declarations.search(/^}/m));
+    for (const [, name] of members.matchAll(/^ {0,2}(\w+): typeof P5\./gm)) globals[name] = 'value';
+    for (const [, name] of members.matchAll(/^ {0,2}(\w+)\(/gm)) globals[name] = 'function';
+  } else {
+    for (const [, kind, name] of declarations.matchAll(/^ {4}(function|const|let) (\w+)/gm)) {
+      globals[name] = kind === 'function' ? 'function' : 'value';
+    }
+  }
+  // Sketches define these rather than call them, but they are the first things worth looking up.
+  globals.setup = globals.draw = 'function';
+  delete globals.p5;
+  return globals;
+};
+
+const loadP5Types = async (runtime?: string) => {
+  const major = runtime === '2.x' ? '2.x' : '1.x';
+  const entries = await Promise.all(
+    // Glob keys are relative to the project root; Monaco wants the same absolute paths the declarations import by.
+    Object.entries(P5_TYPE_FILES[major]).map(async ([key, load]) => [`/${key.slice(key.indexOf('node_modules/'))}`, await load()] as const),
+  );
+  const files = Object.fromEntries(entries);
+  const global = entries.find(([path]) => path.endsWith('/global.d.ts'))?.[1] || '';
+  return { files, globals: p5Globals(global, major) };
+};
+
+/** Wraps bare statements in setup() so snippets without one still run. */
+const wrapSketch = (code: string) =>
+  code.includes('function setup()')
+    ? code
+    : `
+      function setup() {
+        createCanvas(500, 500);
+        ${code}
+      }
+
+      function draw() {
+        if (typeof window.draw !== 'function') {
+          window.draw = function() {};
+        }
+      }
+    `;
+
+export const p5Target: OutputTarget = {
+  id: 'p5',
+  label: 'p5.js',
+  language: 'javascript',
+  fence: 'javascript',
+  entryFile: 'sketch.js',
+  languages: ['javascript'],
+  entryPattern: /function\s+(setup|draw)\s*\(/,
+  systemPrompt: `You are a world-class p5.js educator. Create high-quality, interactive, and aesthetically pleasing code sketches based on images. Ensure the code is clean, documented, and utilizes modern JavaScript.`,
+  extractCode: (text) => extractFence(text, ['javascript', 'js']) ?? text,
+  loadTypes: loadP5Types,
+  referenceUrl: (name) => `https://p5js.org/reference/p5/${name}/`,
+  runtimes: P5_RUNTIMES,
+  defaultRuntime: '1.x',
+  legacyRuntime: '1.4',
+  libraries: [
+    {
+      id: 'p5.sound',
+      name: 'p5.sound',
+      url: p5LegacySoundUrl,
+      cdnUrl: 'https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.4.0/addons/p5.sound.min.js',
+      versions: ['1.4'],
+      description: 'p5.sound: sound loading, playback, synthesis and analysis.',
+    },
+    {
+      id: 'p5.sound',
+      name: 'p5.sound',
+      url: p5SoundUrl,
+      cdnUrl: 'https://cdn.jsdelivr.net/npm/p5@1/lib/addons/p5.sound.min.js',
+      versions: ['1.x'],
+      description: 'p5.sound: sound loading, playback, synthesis and analysis.',
+    },
+    {
+      id: 'p5.sound',
+      name: 'p5.sound',
+      url: p5v2SoundUrl,
+      cdnUrl: 'https://cdn.jsdelivr.net/npm/p5.sound@0.4/dist/p5.sound.min.js',
+      versions: ['2.x'],
+      description: 'p5.sound 0.4 for p5.js 2.x: sound loading, playback, oscillators, effects and analysis, built on Tone.js.',
+    },
+  ],
+  buildPreview: (code, { channel, runtime = P5_RUNTIMES[1], libraries, files }) => `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        ${statusScript(channel)}
+        ${libraryTags([runtime, ...libraries])}
+        ${p5AssetScript(files)}
+        <title>p5.js Sketch</title>
+        <style>${BASE_PREVIEW_STYLE}
+        </style>
+        ${inlineFileTags(files)}
+      </head>
+      <body>
+        <script>
+          try {
+            ${wrapSketch(sourceBlock('sketch.js', code))}
+            if (typeof window.setup === 'function') {
+              new p5();
+              // Small delay to ensure setup completes
+              setTimeout(() => postStatus('success'), 100);
+            } else {
+               postStatus('error', 'No setup() function found.');
+            }
+          } catch (error) {
+            reportError(error);
+          }
+        </script>
+      </body>
+      </html>
+    `,
+  exportFiles: (code, { runtime = P5_RUNTIMES[1], libraries, files }) => ({
+    'sketch.js': code,
+    'style.css': EXPORT_STYLE,
+    'index.html': `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>p5.js Sketch</title>
+  ${scriptTags([runtime, ...libraries].map((l) => l.cdnUrl || l.url))}
+  <link rel="stylesheet" type="text/css" href="style.css">
+  ${linkedFileTags(files)}
+</head>
+<body>
+  <script src="sketch.js"></script>
+</body>
+</html>`,
+  }),
+};
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { OutputTarget, SketchFile } from './types';
+
+export interface SketchProject {
+  /** Contents of the target's entry file. */
+  code: string;
+  /** Every other named file, e.g. shaders, helper scripts and CSS. */
+  files: SketchFile[];
+}
+
+/** Appended to generation prompts so models label their extra files. */
+export const MULTI_FILE_HINT = `If the result needs more than one file (shaders, helper classes, CSS), put each file in its own fenced code block and start each block with a comment naming the file, e.g. "// shader.frag".`;
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  css: 'css',
+  html: 'html',
+  svg: 'svg',
+  json: 'json',
+  glsl: 'glsl',
+  vert: 'glsl',
+  frag: 'glsl',
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = { js: 'javascript', xml: 'svg', vert: 'glsl', frag: 'glsl' };
+
+const MONACO_LANGUAGES: Record<string, string> = { glsl: 'cpp', svg: 'xml' };
+
+const FILE_NAME = /[\w-]+(?:\.[\w-]+)*\.(?:js|mjs|css|html|svg|json|glsl|vert|frag|txt)\b/;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+export const languageForFile = (name: string) => {
+  const language = EXTENSION_LANGUAGES[extensionOf(name)] || 'plaintext';
+  return MONACO_LANGUAGES[language] || language;
+};
+
+/** Finds a file name in a fence info string, a leading comment or the line above the fence. */
+const detectName = (info: string, content: string, lineAbove: string) => {
+  const fromInfo = /title=["']?([^"'\s]+)/.exec(info)?.[1] || FILE_NAME.exec(info)?.[0];
+  if (fromInfo) return fromInfo;
+  // Only a comment that is nothing but a file name counts, so "// needs p5.js" does not.
+  const firstLine = content.split('\n', 1)[0];
+  const fromComment = new RegExp(
+    String.raw`^\s*(?:\/\/|\/\*|<!--|#)\s*(?:file(?:name)?:\s*)?(${FILE_NAME.source})\s*(?:\*\/|-->)?\s*$`,
+    'i',
+  ).exec(firstLine)?.[1];
+  if (fromComment) return fromComment;
+  return lineAbove.length < 100 ? FILE_NAME.exec(lineAbove)?.[0] : undefined;
+};
+
+interface FencedBlock {
+  name?: string;
+  language: string;
+  content: string;
+}
+
+export const parseFencedBlocks = (text: string): FencedBlock[] => {
+  const blocks: FencedBlock[] = [];
+  const fence = /```([^\n`]*)\n([\s\S]*?)```/g;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(text))) {
+    const info = match[1].trim();
+    const content = match[2].trim();
+    const lineAbove = text.slice(0, match.index).trimEnd().split('\n').pop() || '';
+    const name = detectName(info, content, lineAbove);
+    const tag = info.split(/\s+/)[0].toLowerCase();
+    const language = LANGUAGE_ALIASES[tag] || tag || (name ? EXTENSION_LANGUAGES[extensionOf(name)] : '') || '';
+    blocks.push({ name, language, content });
+  }
+  return blocks;
+};
+
+const FALLBACK_NAMES: Record<string, string> = {
+  javascript: 'helper.js',
+  css: 'style.css',
+  html: 'index.html',
+  svg: 'image.svg',
+  json: 'data.json',
+};
+
+const fallbackName = (block: FencedBlock) => {
+  if (block.language === 'glsl') return /gl_Position/.test(block.content) ? 'shader.vert' : 'shader.frag';
+  return FALLBACK_NAMES[block.language] || 'file.txt';
+};
+
+/** Makes a name unique among `taken` by numbering it, e.g. helper-2.js. */
+const uniqueName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = name.replace(/(\.[^.]+)?$/, `-${n}$1`);
+  taken.add(candidate);
+  return candidate;
+};
+
+/** Splits a model response into the target's entry file plus any other named files. */
+export const extractProject = (target: OutputTarget, text: string): SketchProject => {
+  const blocks = parseFencedBlocks(text);
+  const candidate = (b: FencedBlock) => !b.language || target.languages.includes(b.language);
+  let entry = blocks.findIndex((b) => b.name === target.entryFile);
+  if (entry === -1 && target.entryPattern) {
+    entry = blocks.findIndex((b) => candidate(b) && target.entryPattern!.test(b.content));
+  }
+  if (entry === -1) entry = blocks.findIndex(candidate);
+  if (entry === -1) return { code: target.extractCode(text), files: [] };
+
+  const taken = new Set([target.entryFile]);
+  const files = blocks
+    .filter((_, i) => i !== entry)
+    .map((b) => ({ name: uniqueName(b.name || fallbackName(b), taken), content: b.content }));
+  return { code: blocks[entry].content, files };
+};
+
+/** Renders a project as labelled fenced blocks, for sending back to the model. */
+export const formatProject = (target: OutputTarget, code: string, files: SketchFile[] = []) =>
+  [{ name: target.entryFile, content: code }, ...files]
+    .map((f) => `${f.name}:\n\`\`\`${f.name === target.entryFile ? target.fence : EXTENSION_LANGUAGES[extensionOf(f.name)] || ''}\n${f.content}\n\`\`\``)
+    .join('\n\n');
+
+/** Replaces files by name and keeps the ones the model did not return. */
+export const mergeFiles = (previous: SketchFile[] = [], next: SketchFile[]) => [
+  ...previous.map((f) => next.find((n) => n.name === f.name) || f),
+  ...next.filter((n) => !previous.some((f) => f.name === n.name)),
+];
+
+const isExtension = (name: string, ...extensions: string[]) => extensions.includes(extensionOf(name));
+
+export const cssFiles = (files: SketchFile[]) => files.filter((f) => isExtension(f.name, 'css'));
+export const scriptFiles = (files: SketchFile[]) => files.filter((f) => isExtension(f.name, 'js', 'mjs'));
+export const assetFiles = (files: SketchFile[]) => files.filter((f) => !isExtension(f.name, 'css', 'js', 'mjs'));
+
+/** JSON for embedding in an inline <script>, safe against a closing script tag in the content. */
+export const inlineJson = (value: unknown) => JSON.stringify(value).replace(/<\/(script)/gi, '<\\/$1');
+
+/** Inline script contents must not close their own tag early. */
+export const inlineScript = (content: string) => content.replace(/<\/(script)/gi, '<\\/$1');
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { OutputTarget } from './types';
+import { BASE_PREVIEW_STYLE, endMarker, extractFence, fileMarker, statusScript } from './harness';
+
+const MDN = 'https://developer.mozilla.org/en-US/docs/Web/SVG';
+
+/** Falls back to a bare <svg> element when the model skipped the fence. */
+const extractSvg = (text: string) =>
+  extractFence(text, ['svg', 'xml', 'html']) ?? /<svg[\s\S]*<\/svg>/i.exec(text)?.[0] ?? text;
+
+export const svgTarget: OutputTarget = {
+  id: 'svg',
+  label: 'SVG',
+  language: 'xml',
+  fence: 'svg',
+  entryFile: 'drawing.svg',
+  languages: ['svg', 'html'],
+  systemPrompt: `You are a world-class SVG illustrator and motion designer. Recreate images as clean, scalable, aesthetically pleasing SVG. Reply with a single standalone <svg> element with a viewBox and xmlns attribute. Use CSS or SMIL animation where it adds life; avoid external resources. Comment the main groups.`,
+  extractCode: extractSvg,
+  docsMap: {
+    path: `${MDN}/Element/path`,
+    circle: `${MDN}/Element/circle`,
+    rect: `${MDN}/Element/rect`,
+    ellipse: `${MDN}/Element/ellipse`,
+    polygon: `${MDN}/Element/polygon`,
+    polyline: `${MDN}/Element/polyline`,
+    linearGradient: `${MDN}/Element/linearGradient`,
+    radialGradient: `${MDN}/Element/radialGradient`,
+    filter: `${MDN}/Element/filter`,
+    mask: `${MDN}/Element/mask`,
+    clipPath: `${MDN}/Element/clipPath`,
+    animate: `${MDN}/Element/animate`,
+    animateTransform: `${MDN}/Element/animateTransform`,
+    viewBox: `${MDN}/Attribute/viewBox`,
+    transform: `${MDN}/Attribute/transform`,
+  },
+  buildPreview: (code, { channel }) => `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        ${statusScript(channel)}
+        <title>SVG</title>
+        <style>${BASE_PREVIEW_STYLE}
+          svg { width: 500px; }
+        </style>
+      </head>
+      <body>
+        ${fileMarker('drawing.svg', { html: true })}
+${code}
+        ${endMarker(true)}
+        <script>
+          postStatus(document.querySelector('svg') ? 'success' : 'error', 'No <svg> element found.');
+        </script>
+      </body>
+      </html>
+    `,
+  exportFiles: (code) => ({
+    'drawing.svg': code,
+    'index.html': `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>SVG</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; justify-content: center; align-items: center; background: #f8fafc; }
+    object { width: min(90vw, 90vh); }
+  </style>
+</head>
+<body>
+  <object type="image/svg+xml" data="drawing.svg"></object>
+</body>
+</html>`,
+  }),
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { OutputTarget } from './types';
+import { BASE_PREVIEW_STYLE, EXPORT_STYLE, extractFence, inlineFileTags, linkedFileTags, sourceBlock, statusScript } from './harness';
+
+const IMPORT_MAP = `<script type="importmap">
+  {
+    "imports": {
+      "three": "https://cdn.jsdelivr.net/npm/three@0.170.0/build/three.module.js",
+      "three/addons/": "https://cdn.jsdelivr.net/npm/three@0.170.0/examples/jsm/"
+    }
+  }
+</script>`;
+
+const THREE_DOCS = 'https://threejs.org/docs/#api/en';
+
+export const threeTarget: OutputTarget = {
+  id: 'three',
+  label: 'Three.js',
+  language: 'javascript',
+  fence: 'javascript',
+  entryFile: 'main.js',
+  languages: ['javascript'],
+  entryPattern: /from\s+['"]three['"]/,
+  systemPrompt: `You are a world-class Three.js creative coder. Turn images into interactive, aesthetically pleasing 3D scenes. Write a single ES module that imports from 'three' (and 'three/addons/...' if needed), creates its own WebGLRenderer sized to the window, appends renderer.domElement to document.body and animates with renderer.setAnimationLoop. Keep the code clean and documented.`,
+  extractCode: (text) => extractFence(text, ['javascript', 'js']) ?? text,
+  docsMap: {
+    Scene: `${THREE_DOCS}/scenes/Scene`,
+    PerspectiveCamera: `${THREE_DOCS}/cameras/PerspectiveCamera`,
+    OrthographicCamera: `${THREE_DOCS}/cameras/OrthographicCamera`,
+    WebGLRenderer: `${THREE_DOCS}/renderers/WebGLRenderer`,
+    Mesh: `${THREE_DOCS}/objects/Mesh`,
+    Points: `${THREE_DOCS}/objects/Points`,
+    Group: `${THREE_DOCS}/objects/Group`,
+    BufferGeometry: `${THREE_DOCS}/core/BufferGeometry`,
+    BoxGeometry: `${THREE_DOCS}/geometries/BoxGeometry`,
+    SphereGeometry: `${THREE_DOCS}/geometries/SphereGeometry`,
+    PlaneGeometry: `${THREE_DOCS}/geometries/PlaneGeometry`,
+    MeshStandardMaterial: `${THREE_DOCS}/materials/MeshStandardMaterial`,
+    MeshBasicMaterial: `${THREE_DOCS}/materials/MeshBasicMaterial`,
+    ShaderMaterial: `${THREE_DOCS}/materials/ShaderMaterial`,
+    AmbientLight: `${THREE_DOCS}/lights/AmbientLight`,
+    DirectionalLight: `${THREE_DOCS}/lights/DirectionalLight`,
+    PointLight: `${THREE_DOCS}/lights/PointLight`,
+    Clock: `${THREE_DOCS}/core/Clock`,
+    Vector3: `${THREE_DOCS}/math/Vector3`,
+    Color: `${THREE_DOCS}/math/Color`,
+  },
+  buildPreview: (code, { channel, files }) => `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        ${statusScript(channel)}
+        ${IMPORT_MAP}
+        <title>Three.js Scene</title>
+        <style>${BASE_PREVIEW_STYLE}
+        </style>
+        ${inlineFileTags(files)}
+      </head>
+      <body>
+        <script type="module">
+          ${sourceBlock('main.js', code)}
+          postStatus(document.querySelector('canvas') ? 'success' : 'error', 'No canvas was added to the page.');
+        </script>
+      </body>
+      </html>
+    `,
+  exportFiles: (code, { files }) => ({
+    'main.js': code,
+    'style.css': EXPORT_STYLE,
+    'index.html': `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Three.js Scene</title>
+  ${IMPORT_MAP.split('\n').join('\n  ')}
+  <link rel="stylesheet" type="text/css" href="style.css">
+  ${linkedFileTags(files)}
+</head>
+<body>
+  <script type="module" src="main.js"></script>
+</body>
+</html>`,
+  }),
+};
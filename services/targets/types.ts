@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type TargetId = 'p5' | 'three' | 'canvas' | 'svg' | 'html';
+
+export interface SketchFile {
+  name: string;
+  content: string;
+}
+
+/** A script a target loads before the sketch: its runtime or an add-on. */
+export interface TargetLibrary {
+  id: string;
+  name: string;
+  /** Where previews load it from: the app's own bundle or a registered URL. */
+  url: string;
+  /** Public copy that exports link to when they don't include the script itself. */
+  cdnUrl?: string;
+  /** Script text of an uploaded library. Previews inline it and exports always include it. */
+  content?: string;
+  /** Runtime versions it works with; all of them when absent. */
+  versions?: string[];
+  /** What it adds, for the generation prompt. */
+  description?: string;
+}
+
+export interface PreviewOptions {
+  /** Token the preview runtime checks before accepting its message port. */
+  channel: string;
+  /** The runtime version to load, for targets that offer several. */
+  runtime?: TargetLibrary;
+  libraries: TargetLibrary[];
+  /** Files besides the entry file, such as shaders, helpers and CSS. */
+  files: SketchFile[];
+}
+
+/** Declarations the code editor loads for autocomplete, hover docs and signature help. */
+export interface TargetTypes {
+  /** Declaration files by path, e.g. /node_modules/@types/p5/global.d.ts. */
+  files: Record<string, string>;
+  /** Globals they declare, each with a reference page. */
+  globals: Record<string, 'function' | 'value'>;
+}
+
+export interface ExportOptions {
+  runtime?: TargetLibrary;
+  libraries: TargetLibrary[];
+  files: SketchFile[];
+}
+
+/**
+ * Everything the pipeline needs to know about one kind of generated output:
+ * how to ask for it, how to pull it out of a response, how to run it in the
+ * preview iframe and how to package it for download.
+ */
+export interface OutputTarget {
+  id: TargetId;
+  label: string;
+  /** Monaco language id for the editor. */
+  language: string;
+  /** Fence language used when showing code back to the model. */
+  fence: string;
+  /** Name of the main file in editor tabs and exports. */
+  entryFile: string;
+  /** Fence languages that may hold the entry file. */
+  languages: string[];
+  /** Tells the entry file apart from helpers written in the same language. */
+  entryPattern?: RegExp;
+  systemPrompt: string;
+  extractCode(text: string): string;
+  buildPreview(code: string, options: PreviewOptions): string;
+  /** Reference pages for API names, for targets without type definitions. */
+  docsMap?: Record<string, string>;
+  /** Loads the editor's declarations for a runtime version. */
+  loadTypes?: (runtime?: string) => Promise<TargetTypes>;
+  /** Reference page of a global that loadTypes declares. */
+  referenceUrl?: (name: string) => string;
+  /** Runtime versions a variant can run on, e.g. p5.js 1.x and 2.x. */
+  runtimes?: TargetLibrary[];
+  /** Runtime for new variants. */
+  defaultRuntime?: string;
+  /** Runtime of variants saved before they recorded one. */
+  legacyRuntime?: string;
+  /** Bundled add-on scripts the user can toggle on; more can be registered in services/libraries. */
+  libraries?: TargetLibrary[];
+  exportFiles(code: string, options: ExportOptions): Record<string, string>;
+}
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type TweakKind = 'number' | 'color' | 'boolean';
+
+export type TweakValue = number | string | boolean;
+
+export interface Tweak {
+  name: string;
+  kind: TweakKind;
+  value: TweakValue;
+  /** Offsets of the literal in the code, for writing a new value back. */
+  start: number;
+  end: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  /**
+   * Whether the value is read every frame, so assigning it in the running
+   * preview is enough. Otherwise the preview has to restart to pick it up.
+   */
+  live: boolean;
+}
+
+/** Panels get unwieldy past this; the first constants in a sketch are usually the interesting ones. */
+const MAX_TWEAKS = 16;
+
+const DECLARATION =
+  /^(\s*)(const|let|var)(\s+)([A-Za-z_$][\w$]*)(\s*=\s*)(-?\d+(?:\.\d+)?|-?\.\d+|true|false|(['"])#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})\7)(\s*;?)(\s*(?:\/\/.*)?)$/;
+
+interface Chunk {
+  /** Offset of the chunk's first line in the code. */
+  start: number;
+  lines: string[];
+}
+
+/**
+ * Splits code into top-level statements: each chunk starts on a line at brace
+ * depth 0. Strings, template literals and comments are skipped so braces in
+ * them don't count.
+ */
+const topLevelChunks = (code: string): Chunk[] => {
+  const chunks: Chunk[] = [];
+  let depth = 0;
+  let quote = '';
+  let blockComment = false;
+  let offset = 0;
+  for (const line of code.split('\n')) {
+    if (depth === 0 && !quote && !blockComment) chunks.push({ start: offset, lines: [] });
+    chunks[chunks.length - 1]?.lines.push(line);
+    for (let i = 0; i < line.length; i++) {
+      const c = line[i];
+      if (blockComment) {
+        if (c === '*' && line[i + 1] === '/') {
+          blockComment = false;
+          i++;
+        }
+      } else if (quote) {
+        if (c === '\\') i++;
+        else if (c === quote) quote = '';
+      } else if (c === '/' && line[i + 1] === '/') {
+        break;
+      } else if (c === '/' && line[i + 1] === '*') {
+        blockComment = true;
+        i++;
+      } else if (c === '"' || c === "'" || c === '`') {
+        quote = c;
+      } else if (c === '{') {
+        depth++;
+      } else if (c === '}') {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+    // Only template literals may span lines.
+    if (quote && quote !== '`') quote = '';
+    offset += line.length + 1;
+  }
+  return chunks;
+};
+
+const hasWord = (text: string, name: string) => new RegExp(`(^|[^\\w$.])${name.replace(/\$/g, '\\$')}\\b`).test(text);
+
+const FUNCTION_NAME = /^\s*(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)|^\s*(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*=>|[A-Za-z_$][\w$]*\s*=>)/;
+
+/**
+ * Returns the text of everything that runs per frame: p5's draw(), functions
+ * handed to requestAnimationFrame or setAnimationLoop, whatever those call,
+ * and class bodies (their methods are typically called from the loop).
+ * Returns null when the sketch does not look animated at all.
+ */
+const perFrameText = (code: string, chunks: Chunk[]) => {
+  const functions = new Map<string, string>();
+  const classes: string[] = [];
+  chunks.forEach((chunk) => {
+    const text = chunk.lines.join('\n');
+    const match = FUNCTION_NAME.exec(chunk.lines[0]);
+    if (match) functions.set(match[1] || match[2], text);
+    else if (/^\s*class\s/.test(chunk.lines[0])) classes.push(text);
+  });
+
+  const roots = new Set<string>();
+  if (functions.has('draw')) roots.add('draw');
+  for (const match of code.matchAll(/(?:requestAnimationFrame|setAnimationLoop)\(\s*([A-Za-z_$][\w$]*)\s*\)/g)) {
+    roots.add(match[1]);
+  }
+  if (roots.size === 0) {
+    // Animated through an inline callback we can't attribute; assume everything is live.
+    return /requestAnimationFrame|setAnimationLoop|\bdraw\b/.test(code) ? code : null;
+  }
+
+  const reached = new Set([...roots].filter((name) => functions.has(name)));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    const body = [...reached].map((name) => functions.get(name)).join('\n') + classes.join('\n');
+    functions.forEach((_, name) => {
+      if (!reached.has(name) && hasWord(body, name)) {
+        reached.add(name);
+        grew = true;
+      }
+    });
+  }
+  return [...reached].map((name) => functions.get(name)).join('\n') + '\n' + classes.join('\n');
+};
+
+const rangeFor = (value: number) => {
+  if (value >= 0 && value <= 1 && !Number.isInteger(value)) return { min: 0, max: 1, step: 0.01 };
+  const span = Math.max(Math.abs(value) * 4, 10);
+  const step = Number.isInteger(value) ? 1 : Math.pow(10, Math.floor(Math.log10(span)) - 2);
+  return { min: value < 0 ? -span : 0, max: span, step };
+};
+
+/**
+ * Finds top-level `const`/`let`/`var` declarations initialised with a number,
+ * a boolean or a hex colour string, one per line.
+ */
+export const detectTweaks = (code: string): Tweak[] => {
+  const chunks = topLevelChunks(code);
+  const frameText = perFrameText(code, chunks);
+  const tweaks: Tweak[] = [];
+  chunks.forEach(({ start, lines }) => {
+    const match = DECLARATION.exec(lines[0]);
+    if (!match || tweaks.length >= MAX_TWEAKS) return;
+    const [, indent, keyword, gap, name, equals, literal] = match;
+    const literalStart = start + indent.length + keyword.length + gap.length + name.length + equals.length;
+    const base = { name, start: literalStart, end: literalStart + literal.length };
+    // Read only while setting up, or in a sketch that never redraws: restart to apply.
+    const live = !!frameText && hasWord(frameText.replace(lines[0], ''), name);
+    if (literal === 'true' || literal === 'false') {
+      tweaks.push({ ...base, kind: 'boolean', value: literal === 'true', live });
+    } else if (/^['"]/.test(literal)) {
+      tweaks.push({ ...base, kind: 'color', value: literal.slice(1, -1), live });
+    } else {
+      const value = Number(literal);
+      tweaks.push({ ...base, kind: 'number', value, live, ...rangeFor(value) });
+    }
+  });
+  return tweaks;
+};
+
+const formatValue = (tweak: Tweak, value: TweakValue) => {
+  if (tweak.kind === 'color') return `'${value}'`;
+  if (tweak.kind === 'number') return String(Number((value as number).toFixed(6)));
+  return String(value);
+};
+
+/** Writes new values for the given tweaks into the code. */
+export const applyTweaks = (code: string, tweaks: Tweak[], values: Record<string, TweakValue>) =>
+  [...tweaks]
+    .filter((t) => t.name in values)
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, t) => result.slice(0, t.start) + formatValue(t, values[t.name]) + result.slice(t.end), code);
+
+/**
+ * Preview-only rewrite that registers a setter for each tweak with the
+ * preview runtime, so the parent can change values in the running sketch.
+ * `values` are written in as the starting values. `const` becomes `let`;
+ * nothing moves to another line.
+ */
+export const instrumentTweaks = (code: string, tweaks: Tweak[], values: Record<string, TweakValue> = {}) =>
+  [...tweaks]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, t) => {
+      const lineStart = result.lastIndexOf('\n', t.start - 1) + 1;
+      const lineEnd = result.indexOf('\n', t.start) === -1 ? result.length : result.indexOf('\n', t.start);
+      const match = DECLARATION.exec(result.slice(lineStart, lineEnd));
+      if (!match) return result;
+      const [, indent, , gap, name, equals, literal, , semicolon, comment] = match;
+      const initial = name in values ? formatValue(t, values[name]) : literal;
+      const line = `${indent}let${gap}${name}${equals}${initial}${semicolon.trim() || ';'} __tweak('${name}', (v) => { ${name} = v; });${comment}`;
+      return result.slice(0, lineStart) + line + result.slice(lineEnd);
+    }, code);
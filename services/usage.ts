@@ -0,0 +1,270 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GenerateContentResponse } from '@google/genai';
+
+/** Where a call was made from, for the per-feature breakdown. */
+export type UsageFeature = 'code' | 'refine' | 'repair' | 'explain' | 'chat' | 'image' | 'edit' | 'video';
+
+export interface UsageCounts {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  images: number;
+  videoSeconds: number;
+}
+
+export interface UsageRecord extends UsageCounts {
+  id: string;
+  at: number;
+  feature: UsageFeature;
+  model: string;
+  /** The Generator session the call belonged to, if any. */
+  sessionId?: string;
+}
+
+/** US dollars. Token prices are per million; thinking tokens are billed as output. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  image: number;
+  videoSecond: number;
+}
+
+export interface Budgets {
+  /** Spending limits in US dollars; null means no limit. */
+  daily: number | null;
+  monthly: number | null;
+  /** Whether a run that would go over is flagged or refused. */
+  mode: 'warn' | 'block';
+}
+
+export interface RateLimitHit {
+  at: number;
+  kind: string;
+}
+
+export interface UsageRow extends UsageCounts {
+  key: string;
+  calls: number;
+  cost: number;
+}
+
+export interface BudgetCheck {
+  estimate: number;
+  /** Set when the run would take spending over a budget. */
+  message: string | null;
+  blocked: boolean;
+}
+
+/**
+ * List prices when this table was written. Image models are charged per image
+ * rather than per output token. Edit the table to match your own billing.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { input: 2, output: 12, image: 0, videoSecond: 0 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3, image: 0, videoSecond: 0 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, image: 0, videoSecond: 0 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, image: 0, videoSecond: 0 },
+  'gemini-2.5-flash-lite-latest': { input: 0.1, output: 0.4, image: 0, videoSecond: 0 },
+  'gemini-3-pro-image-preview': { input: 2, output: 0, image: 0.134, videoSecond: 0 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 0, image: 0.039, videoSecond: 0 },
+  'veo-3.1-fast-generate-preview': { input: 0, output: 0, image: 0, videoSecond: 0.15 },
+  'veo-3.1-generate-preview': { input: 0, output: 0, image: 0, videoSecond: 0.4 },
+};
+
+const NO_PRICE: ModelPrice = { input: 0, output: 0, image: 0, videoSecond: 0 };
+
+/** Assumed size of a text call when there is no history to go on. */
+const FALLBACK_CALL: UsageCounts = { promptTokens: 2000, outputTokens: 4000, thinkingTokens: 0, images: 0, videoSeconds: 0 };
+
+/** Estimates average this many of the latest calls of the same kind. */
+const ESTIMATE_SAMPLE = 20;
+const MAX_RECORDS = 5000;
+
+const LOG_KEY = 'usageLog';
+const PRICES_KEY = 'usagePrices';
+const BUDGETS_KEY = 'usageBudgets';
+const RATE_LIMIT_KEY = 'rateLimitLog';
+
+const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+let records: UsageRecord[] = loadJson(LOG_KEY, []);
+let rateLimits: RateLimitHit[] = loadJson(RATE_LIMIT_KEY, []);
+let currentSessionId: string | null = null;
+const listeners = new Set<() => void>();
+
+// Prices, spending and estimates are read on every render of the budget notices. They are
+// kept until the next change to usage, prices or budgets instead of re-reading storage and
+// rescanning the log each time.
+let derived = new Map<string, unknown>();
+
+const memoized = <T>(key: string, compute: () => T): T => {
+  if (!derived.has(key)) derived.set(key, compute());
+  return derived.get(key) as T;
+};
+
+const notify = () => {
+  derived = new Map();
+  listeners.forEach((l) => l());
+};
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Calls that don't name a session are charged to this one: the session open in the Generator. */
+export const setUsageSession = (id: string | null) => {
+  currentSessionId = id;
+};
+
+export const emptyCounts = (): UsageCounts => ({ promptTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 0, videoSeconds: 0 });
+
+/** Token counts reported with a response, plus any images it contains. */
+export const usageFromResponse = (res: GenerateContentResponse | undefined): Partial<UsageCounts> => ({
+  promptTokens: res?.usageMetadata?.promptTokenCount || 0,
+  outputTokens: res?.usageMetadata?.candidatesTokenCount || 0,
+  thinkingTokens: res?.usageMetadata?.thoughtsTokenCount || 0,
+  images: res?.candidates?.[0]?.content?.parts?.filter((p) => p.inlineData?.mimeType?.startsWith('image/')).length || 0,
+});
+
+export const recordUsage = (feature: UsageFeature, model: string, counts: Partial<UsageCounts>, sessionId = currentSessionId) => {
+  records = [
+    ...records,
+    {
+      ...emptyCounts(),
+      ...counts,
+      id: `usage-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      at: Date.now(),
+      feature,
+      model,
+      sessionId: sessionId || undefined,
+    },
+  ].slice(-MAX_RECORDS);
+  localStorage.setItem(LOG_KEY, JSON.stringify(records));
+  notify();
+};
+
+export const recordRateLimit = (kind: string) => {
+  rateLimits = [...rateLimits, { at: Date.now(), kind }].slice(-MAX_RECORDS);
+  localStorage.setItem(RATE_LIMIT_KEY, JSON.stringify(rateLimits));
+  notify();
+};
+
+/** Oldest first. */
+export const listUsage = () => records;
+
+export const listRateLimits = () => rateLimits;
+
+export const clearUsage = () => {
+  records = [];
+  rateLimits = [];
+  localStorage.removeItem(LOG_KEY);
+  localStorage.removeItem(RATE_LIMIT_KEY);
+  notify();
+};
+
+/** The default table with the user's edits on top. */
+export const getPrices = (): Record<string, ModelPrice> =>
+  memoized('prices', () => ({ ...DEFAULT_PRICES, ...loadJson(PRICES_KEY, {}) }));
+
+export const setPrice = (model: string, price: ModelPrice) => {
+  localStorage.setItem(PRICES_KEY, JSON.stringify({ ...loadJson(PRICES_KEY, {}), [model]: price }));
+  notify();
+};
+
+export const resetPrices = () => {
+  localStorage.removeItem(PRICES_KEY);
+  notify();
+};
+
+export const costOf = (counts: UsageCounts, price: ModelPrice = NO_PRICE) =>
+  (counts.promptTokens * price.input + (counts.outputTokens + counts.thinkingTokens) * price.output) / 1e6 +
+  counts.images * price.image +
+  counts.videoSeconds * price.videoSecond;
+
+export const recordCost = (record: UsageRecord, prices = getPrices()) => costOf(record, prices[record.model]);
+
+/** Totals per key, most expensive first. */
+export const groupUsage = (list: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageRow[] => {
+  const prices = getPrices();
+  const rows = new Map<string, UsageRow>();
+  for (const record of list) {
+    const key = keyOf(record);
+    const row = rows.get(key) || { key, calls: 0, cost: 0, ...emptyCounts() };
+    row.calls++;
+    row.cost += recordCost(record, prices);
+    row.promptTokens += record.promptTokens;
+    row.outputTokens += record.outputTokens;
+    row.thinkingTokens += record.thinkingTokens;
+    row.images += record.images;
+    row.videoSeconds += record.videoSeconds;
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) => b.cost - a.cost);
+};
+
+export const startOfDay = () => new Date().setHours(0, 0, 0, 0);
+
+export const startOfMonth = () => {
+  const d = new Date();
+  return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+};
+
+export const spentSince = (since: number) =>
+  memoized(`spent:${since}`, () => {
+    const prices = getPrices();
+    return records.filter((r) => r.at >= since).reduce((sum, r) => sum + recordCost(r, prices), 0);
+  });
+
+export const getBudgets = (): Budgets =>
+  memoized('budgets', () => ({ daily: null, monthly: null, mode: 'warn', ...loadJson(BUDGETS_KEY, {}) }));
+
+export const setBudgets = (budgets: Budgets) => {
+  localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+  notify();
+};
+
+/**
+ * Expected cost of `count` calls: the average of recent calls of the same
+ * feature and model, or a typical call priced from the table before there are
+ * any. `fallback` adjusts the typical call, e.g. to add a thinking budget.
+ */
+export const estimateRunCost = (feature: UsageFeature, model: string, count = 1, fallback: Partial<UsageCounts> = {}) => {
+  const perCall = memoized(`estimate:${feature}:${model}:${JSON.stringify(fallback)}`, () => {
+    const prices = getPrices();
+    const recent = records.filter((r) => r.feature === feature && r.model === model).slice(-ESTIMATE_SAMPLE);
+    return recent.length
+      ? recent.reduce((sum, r) => sum + recordCost(r, prices), 0) / recent.length
+      : costOf({ ...FALLBACK_CALL, ...fallback }, prices[model]);
+  });
+  return perCall * count;
+};
+
+const formatCost = (usd: number) => `$${usd.toFixed(2)}`;
+
+/** Compares an estimated run against the daily and monthly budgets. */
+export const checkBudget = (estimate: number): BudgetCheck => {
+  const budgets = getBudgets();
+  const over = [
+    { label: 'daily', limit: budgets.daily, spent: budgets.daily === null ? 0 : spentSince(startOfDay()) },
+    { label: 'monthly', limit: budgets.monthly, spent: budgets.monthly === null ? 0 : spentSince(startOfMonth()) },
+  ].find((b) => b.limit !== null && b.spent + estimate > b.limit);
+  if (!over) return { estimate, message: null, blocked: false };
+  return {
+    estimate,
+    message: `This run (about ${formatCost(estimate)}) would take ${over.label} spending to ${formatCost(over.spent + estimate)}, over the ${formatCost(over.limit!)} budget.`,
+    blocked: budgets.mode === 'block',
+  };
+};
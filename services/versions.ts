@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { SketchFile } from './targets';
+
+export type VersionSource = 'generated' | 'refine' | 'manual' | 'repair' | 'tweak';
+
+export interface SketchVersion {
+  id: number;
+  code: string;
+  files?: SketchFile[];
+  source: VersionSource;
+  /** Instruction or short description of what produced this version. */
+  note?: string;
+  createdAt: number;
+}
+
+export interface VersionedOutput {
+  id: number;
+  code: string;
+  /** Files besides the entry file; absent for single-file sketches. */
+  files?: SketchFile[];
+  fullResponse: string;
+  versions: SketchVersion[];
+  activeVersion: number;
+}
+
+export const createVersionedOutput = (
+  id: number,
+  result: { code: string; files?: SketchFile[]; fullResponse: string },
+): VersionedOutput => ({
+  id,
+  ...result,
+  versions: [{ id: 1, code: result.code, files: result.files, source: 'generated', createdAt: Date.now() }],
+  activeVersion: 1,
+});
+
+/**
+ * Records new code as the active version. Consecutive manual edits fold into
+ * one version so a typing streak shows up as a single timeline entry.
+ */
+export const commitVersion = <T extends VersionedOutput>(
+  output: T,
+  code: string,
+  source: VersionSource,
+  note?: string,
+  files = output.files,
+): T => {
+  const last = output.versions[output.versions.length - 1];
+  if (source === 'manual' && last?.source === 'manual' && last.id === output.activeVersion) {
+    return {
+      ...output,
+      code,
+      files,
+      versions: output.versions.map((v) => (v.id === last.id ? { ...v, code, files, createdAt: Date.now() } : v)),
+    };
+  }
+  const version: SketchVersion = { id: (last?.id ?? 0) + 1, code, files, source, note, createdAt: Date.now() };
+  return { ...output, code, files, versions: [...output.versions, version], activeVersion: version.id };
+};
+
+/** Makes an earlier version active again without discarding later ones. */
+export const checkoutVersion = <T extends VersionedOutput>(output: T, versionId: number): T => {
+  const version = output.versions.find((v) => v.id === versionId);
+  return version ? { ...output, code: version.code, files: version.files, activeVersion: version.id } : output;
+};
+
+export const previousVersion = (output: VersionedOutput, versionId = output.activeVersion) => {
+  const index = output.versions.findIndex((v) => v.id === versionId);
+  return index > 0 ? output.versions[index - 1] : undefined;
+};
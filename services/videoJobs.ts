@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GenerateVideosOperation } from '@google/genai';
+import { abortable } from './jobs';
+import type { AssetMetadata } from './history';
+import type { ModelProvider } from './providers';
+
+/** A Veo operation still being polled; kept in localStorage so a reload can pick it up. */
+export interface PendingVideo {
+  id: string;
+  operation: GenerateVideosOperation;
+  prompt: string;
+  startedAt: number;
+  metadata?: AssetMetadata;
+}
+
+const STORAGE_KEY = 'pendingVideos';
+const POLL_INTERVAL_MS = 5000;
+/** Veo's default clip length; the app doesn't ask for another, so usage counts this. */
+export const VIDEO_SECONDS = 8;
+/** Veo usually finishes within a few minutes; give up on an operation after this long. */
+const VIDEO_TIMEOUT_MS = 15 * 60 * 1000;
+
+export const loadPendingVideos = (): PendingVideo[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const persist = (videos: PendingVideo[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(videos));
+
+export const savePendingVideo = (video: PendingVideo) =>
+  persist([...loadPendingVideos().filter((v) => v.id !== video.id), video]);
+
+export const removePendingVideo = (id: string) => persist(loadPendingVideos().filter((v) => v.id !== id));
+
+/**
+ * Polls an operation until it finishes and downloads the video. The deadline
+ * counts from when the operation started, so resuming after a reload doesn't
+ * reset it. Progress is written back so the next reload resumes from it.
+ */
+export const pollVideo = async (ai: ModelProvider, video: PendingVideo, signal: AbortSignal) => {
+  let operation = video.operation;
+  while (!operation.done) {
+    if (Date.now() - video.startedAt > VIDEO_TIMEOUT_MS) {
+      removePendingVideo(video.id);
+      throw new Error(`Video generation timed out after ${VIDEO_TIMEOUT_MS / 60000} minutes.`);
+    }
+    await abortable(new Promise((r) => setTimeout(r, POLL_INTERVAL_MS)), signal);
+    operation = await abortable(ai.getVideosOperation(operation), signal);
+    if (loadPendingVideos().some((v) => v.id === video.id)) savePendingVideo({ ...video, operation });
+  }
+  if (operation.error) {
+    removePendingVideo(video.id);
+    throw new Error(`Video generation failed: ${JSON.stringify(operation.error)}`);
+  }
+  const uri = (operation.response as any)?.generatedVideos?.[0]?.video?.uri;
+  if (!uri) {
+    removePendingVideo(video.id);
+    throw new Error('Video generation finished without a video.');
+  }
+  return abortable(ai.fetchVideo(uri), signal);
+};
@@ -12,11 +12,21 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.GENAI_RECORD_MODE': JSON.stringify(env.GENAI_RECORD_MODE),
+        'process.env.GENAI_FIXTURES_URL': JSON.stringify(env.GENAI_FIXTURES_URL)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
+          // Paths outside the packages' "exports": the p5 2.x browser build and the declarations the editor loads.
+          'p5-2/lib': path.resolve(__dirname, 'node_modules/p5-2/lib'),
+          'p5-2/types': path.resolve(__dirname, 'node_modules/p5-2/types'),
+          '@types/p5': path.resolve(__dirname, 'node_modules/@types/p5'),
         }
       }
     };